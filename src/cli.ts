@@ -1,12 +1,46 @@
 #!/usr/bin/env node
 
-import { Command, Option } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import { GenerateCommand } from "./commands/generate.js";
 import { ConfigCommand } from "./commands/config.js";
 import { SetupCommand } from "./commands/setup.js";
+import { HistoryCommand } from "./commands/history.js";
+import { ReportCommand } from "./commands/report.js";
+import { ReprintCommand } from "./commands/reprint.js";
+import { PrinterCommand } from "./commands/printer.js";
+import { SpoolCommand } from "./commands/spool.js";
+import { THEMES } from "./core/themes.js";
+import { DEFAULT_IMAGE_SCALE, MAX_IMAGE_SCALE } from "./core/image-renderer.js";
+import { PDF_PAGE_SIZES } from "./core/pdf-renderer.js";
 
 const program = new Command();
 
+/**
+ * Build an --output parser accepting comma-separated or repeated formats
+ */
+function parseOutputFormats(valid: string[]) {
+  return (value: string, prev: string[] | undefined): string[] => {
+    const formats = value.split(",").map((s) => s.trim()).filter(Boolean);
+    for (const f of formats) {
+      if (!valid.includes(f)) {
+        throw new Error(`Invalid output format "${f}". Valid formats: ${valid.join(", ")}`);
+      }
+    }
+    return [...(prev || []), ...formats];
+  };
+}
+
+/**
+ * Parse a non-negative USD amount
+ */
+function parseAmount(value: string): number {
+  const amount = Number(value);
+  if (value.trim() === "" || !Number.isFinite(amount) || amount < 0) {
+    throw new InvalidArgumentError("Use a number of US dollars, e.g. 0.50");
+  }
+  return amount;
+}
+
 program
   .name("claude-receipts")
   .description("Generate quirky, shareable receipts for your Claude Code usage")
@@ -18,23 +52,22 @@ program
   .description("Generate a receipt for a Claude Code session")
   .option("-s, --session <id>", "Specific session ID to generate receipt for")
   .addOption(
-    new Option("-o, --output <format...>", "Output format(s): html, console, printer (comma-separated or repeated)")
-      .argParser((value: string, prev: string[] | undefined) => {
-        const formats = value.split(",").map((s) => s.trim()).filter(Boolean);
-        const valid = ["html", "console", "printer"];
-        for (const f of formats) {
-          if (!valid.includes(f)) {
-            throw new Error(`Invalid output format "${f}". Valid formats: ${valid.join(", ")}`);
-          }
-        }
-        return [...(prev || []), ...formats];
-      }),
+    new Option("-o, --output <format...>", "Output format(s): html, svg, png, pdf, markdown, json, console, printer, preview (comma-separated or repeated)")
+      .argParser(parseOutputFormats(["html", "svg", "png", "pdf", "markdown", "json", "console", "printer", "preview"])),
   )
   .option("-l, --location <text>", "Override location detection")
   .option(
     "-p, --printer <interface>",
-    'Printer: "usb" (auto-detect), "usb:VID:PID", "tcp://host:port", or CUPS name',
+    'Printer: "usb" (auto-detect), "usb:VID:PID", "tcp://host:port", "serial:/dev/ttyUSB0?baud=19200", "ipp://host/printers/name", "lpd://host/queue", "emulator:<file.png>", or CUPS name',
+  )
+  .addOption(
+    new Option("-t, --theme <name>", "Receipt theme (overrides config)").choices(Object.keys(THEMES)),
+  )
+  .option("--scale <n>", `Size multiplier for svg and png images (1-${MAX_IMAGE_SCALE}, default ${DEFAULT_IMAGE_SCALE})`, parseFloat)
+  .addOption(
+    new Option("--page-size <size>", "Paper for pdf output (overrides config; default a4)").choices(PDF_PAGE_SIZES),
   )
+  .option("--out-file <path>", "Write markdown or json output to a file instead of stdout")
   .action(async (options) => {
     const command = new GenerateCommand();
     await command.execute(options);
@@ -62,6 +95,145 @@ program
     await command.execute(options);
   });
 
+// History command
+program
+  .command("history")
+  .description("List past sessions and their receipts")
+  .option("--project <name>", "Filter by project name or path")
+  .option("--from <date>", "Only sessions on or after this date (YYYY-MM-DD)")
+  .option("--to <date>", "Only sessions on or before this date (YYYY-MM-DD)")
+  .option("--model <name>", 'Filter by model (e.g. "opus")')
+  .option("--min-cost <usd>", "Only sessions costing at least this much", parseAmount)
+  .addOption(
+    new Option("--sort <key>", "Sort by")
+      .choices(["date", "cost", "tokens", "project"])
+      .default("date"),
+  )
+  .option("--asc", "Sort ascending instead of descending")
+  .option("-n, --limit <count>", "Maximum sessions to show", (v) => parseInt(v, 10), 20)
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    const command = new HistoryCommand();
+    await command.execute(options);
+  });
+
+// Report command
+program
+  .command("report")
+  .description("Print an end-of-period Z-report summarising all sessions")
+  .addOption(
+    new Option("--period <period>", "Reporting period")
+      .choices(["day", "week", "month", "custom"])
+      .default("day"),
+  )
+  .option("--date <date>", "Any date within the period (YYYY-MM-DD, default today)")
+  .option("--from <date>", "Start date for a custom period (YYYY-MM-DD)")
+  .option("--to <date>", "End date for a custom period (YYYY-MM-DD)")
+  .addOption(
+    new Option("-o, --output <format...>", "Output format(s): html, console, printer, preview (comma-separated or repeated)")
+      .argParser(parseOutputFormats(["html", "console", "printer", "preview"])),
+  )
+  .option("-l, --location <text>", "Override location detection")
+  .option(
+    "-p, --printer <interface>",
+    'Printer: "usb" (auto-detect), "usb:VID:PID", "tcp://host:port", "serial:/dev/ttyUSB0?baud=19200", "ipp://host/printers/name", "lpd://host/queue", "emulator:<file.png>", or CUPS name',
+  )
+  .addOption(
+    new Option("-t, --theme <name>", "Receipt theme (overrides config)").choices(Object.keys(THEMES)),
+  )
+  .action(async (options) => {
+    const command = new ReportCommand();
+    await command.execute(options);
+  });
+
+// Reprint command
+program
+  .command("reprint <receipt>")
+  .description("Reprint a stored receipt by receipt number or session slug")
+  .addOption(
+    new Option("-o, --output <format...>", "Output format(s): html, svg, png, pdf, markdown, json, console, printer, preview (comma-separated or repeated)")
+      .argParser(parseOutputFormats(["html", "svg", "png", "pdf", "markdown", "json", "console", "printer", "preview"])),
+  )
+  .option(
+    "-p, --printer <interface>",
+    'Printer: "usb" (auto-detect), "usb:VID:PID", "tcp://host:port", "serial:/dev/ttyUSB0?baud=19200", "ipp://host/printers/name", "lpd://host/queue", "emulator:<file.png>", or CUPS name',
+  )
+  .option("--no-stamp", 'Omit the "DUPLICATE / REPRINT" stamp')
+  .option("--share-url <url>", "Print a QR code linking to the shared copy of the receipt (remembered for later reprints)")
+  .option("--scale <n>", `Size multiplier for svg and png images (1-${MAX_IMAGE_SCALE}, default ${DEFAULT_IMAGE_SCALE})`, parseFloat)
+  .addOption(
+    new Option("--page-size <size>", "Paper for pdf output (overrides config; default a4)").choices(PDF_PAGE_SIZES),
+  )
+  .option("--out-file <path>", "Write markdown or json output to a file instead of stdout")
+  .action(async (receipt, options) => {
+    const command = new ReprintCommand();
+    await command.execute(receipt, options);
+  });
+
+// Printer commands
+const printer = program
+  .command("printer")
+  .description("Check on the thermal printer");
+
+printer
+  .command("status")
+  .description("Show whether the printer is online, has paper and its cover is closed")
+  .option(
+    "-p, --printer <interface>",
+    'Printer: "usb" (auto-detect), "usb:VID:PID", "tcp://host:port" or "serial:<device>" (defaults to the configured printer)',
+  )
+  .action(async (options) => {
+    const command = new PrinterCommand();
+    await command.status(options);
+  });
+
+program
+  .command("printers")
+  .description("Find USB, CUPS and network printers and choose one to use")
+  .option(
+    "--subnet <cidr>",
+    "Network to scan for printers, e.g. 192.168.1.0/24 (repeatable; defaults to the local network)",
+    (value: string, prev: string[] | undefined) => [...(prev || []), value],
+  )
+  .option("--port <port>", "Port to scan for", (v) => parseInt(v, 10), 9100)
+  .option("--no-scan", "Skip the network scan")
+  .option("--json", "Output as JSON without prompting")
+  .action(async (options) => {
+    const command = new PrinterCommand();
+    await command.discover(options);
+  });
+
+// Print spool commands
+const spool = program
+  .command("spool")
+  .description("Manage print jobs waiting for an unavailable printer");
+
+spool
+  .command("list")
+  .description("List spooled print jobs")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    const command = new SpoolCommand();
+    await command.list(options);
+  });
+
+spool
+  .command("flush")
+  .description("Retry every spooled print job now")
+  .action(async () => {
+    const command = new SpoolCommand();
+    await command.flush();
+  });
+
+spool
+  .command("drop [ids...]")
+  .description("Cancel spooled print jobs without printing them")
+  .option("--all", "Drop every spooled job")
+  .action(async (ids, options) => {
+    const command = new SpoolCommand();
+    await command.drop(ids, options);
+  });
+
 // Make generate the default command if no command is specified
 if (process.argv.length === 2) {
   process.argv.push("generate");
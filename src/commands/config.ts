@@ -1,6 +1,19 @@
 import chalk from "chalk";
 import { ConfigManager } from "../core/config-manager.js";
+import { PricingRegistry } from "../core/pricing.js";
+import { THEMES, getTheme } from "../core/themes.js";
+import {
+  PRINTER_PROFILES,
+  getPrinterProfile,
+} from "../core/printer-profiles.js";
+import { CODE_PAGES, getCodePage } from "../core/code-pages.js";
+import { parseSerialInterface } from "../core/printer-connection.js";
+import { getLpdQueue } from "../core/lpd-client.js";
+import { PDF_PAGE_SIZES } from "../core/pdf-renderer.js";
+import { DITHER_METHODS } from "../utils/dither.js";
+import { isOwnKey } from "../utils/lookup.js";
 import type { ReceiptConfig } from "../types/config.js";
+import type { ModelRates } from "../types/pricing.js";
 
 export interface ConfigOptions {
   show?: boolean;
@@ -57,6 +70,33 @@ export class ConfigCommand {
     this.printConfigItem("Location", config.location || "(auto-detect)");
     this.printConfigItem("Timezone", config.timezone || "(system default)");
     this.printConfigItem("Printer", config.printer || "(not set)");
+    this.printConfigItem(
+      "Printer profile",
+      getPrinterProfile(config.printerProfile).displayName,
+    );
+    this.printConfigItem(
+      "Code page",
+      getCodePage(
+        config.codePage || getPrinterProfile(config.printerProfile).codePage,
+      ).displayName,
+    );
+    this.printConfigItem(
+      "Unicode font",
+      config.unicodeFont || "(none, transliterate)",
+    );
+    this.printConfigItem("Usage source", config.usageSource || "auto");
+    this.printConfigItem("Theme", getTheme(config.theme).displayName);
+    this.printConfigItem("Logo", config.logo || "(Claude mascot)");
+    this.printConfigItem("Dither", config.dither || "floyd-steinberg");
+    this.printConfigItem("PDF page size", config.pdfPageSize || "a4");
+    this.printConfigItem("Pricing table", new PricingRegistry().getVersion());
+
+    for (const [model, rates] of Object.entries(config.pricing || {})) {
+      const summary = Object.entries(rates)
+        .map(([type, rate]) => `${type}=$${rate}/MTok`)
+        .join(", ");
+      this.printConfigItem(`  ${model}`, summary);
+    }
 
     console.log("");
   }
@@ -72,10 +112,28 @@ export class ConfigCommand {
       throw new Error("Invalid format. Use: --set key=value");
     }
 
+    // Pricing overrides: pricing.<model>.<input|output|cacheWrite|cacheRead>
+    if (key.trim().startsWith("pricing.")) {
+      await this.setPricingOverride(key.trim(), value);
+      return;
+    }
+
     const trimmedKey = key.trim() as keyof ReceiptConfig;
 
     // Validate key
-    const validKeys: (keyof ReceiptConfig)[] = ["location", "timezone", "printer"];
+    const validKeys: (keyof ReceiptConfig)[] = [
+      "location",
+      "timezone",
+      "printer",
+      "printerProfile",
+      "codePage",
+      "unicodeFont",
+      "usageSource",
+      "theme",
+      "logo",
+      "dither",
+      "pdfPageSize",
+    ];
 
     if (!validKeys.includes(trimmedKey)) {
       throw new Error(
@@ -83,12 +141,143 @@ export class ConfigCommand {
       );
     }
 
+    // Validate value for enumerated keys
+    const validUsageSources = ["auto", "native", "ccusage"];
+    if (trimmedKey === "usageSource" && !validUsageSources.includes(value)) {
+      throw new Error(
+        `Invalid usageSource: ${value}. Valid values: ${validUsageSources.join(", ")}`,
+      );
+    }
+
+    if (trimmedKey === "theme" && !isOwnKey(THEMES, value)) {
+      throw new Error(
+        `Invalid theme: ${value}. Valid themes: ${Object.keys(THEMES).join(", ")}`,
+      );
+    }
+
+    if (trimmedKey === "printerProfile" && !isOwnKey(PRINTER_PROFILES, value)) {
+      throw new Error(
+        `Invalid printerProfile: ${value}. Valid profiles: ${Object.keys(PRINTER_PROFILES).join(", ")}`,
+      );
+    }
+
+    if (trimmedKey === "codePage" && !isOwnKey(CODE_PAGES, value)) {
+      throw new Error(
+        `Invalid codePage: ${value}. Valid code pages: ${Object.keys(CODE_PAGES).join(", ")}`,
+      );
+    }
+
+    if (
+      trimmedKey === "dither" &&
+      !DITHER_METHODS.includes(value as (typeof DITHER_METHODS)[number])
+    ) {
+      throw new Error(
+        `Invalid dither: ${value}. Valid values: ${DITHER_METHODS.join(", ")}`,
+      );
+    }
+
+    if (
+      trimmedKey === "pdfPageSize" &&
+      !PDF_PAGE_SIZES.includes(value as (typeof PDF_PAGE_SIZES)[number])
+    ) {
+      throw new Error(
+        `Invalid pdfPageSize: ${value}. Valid values: ${PDF_PAGE_SIZES.join(", ")}`,
+      );
+    }
+
+    // Catch typos in serial settings now rather than at print time
+    if (trimmedKey === "printer" && value.startsWith("serial:")) {
+      parseSerialInterface(value);
+    }
+    if (trimmedKey === "printer" && value.startsWith("lpd://")) {
+      getLpdQueue(value);
+    }
+
+    if (trimmedKey === "logo") {
+      await this.validateLogo(value);
+    }
+
+    if (trimmedKey === "unicodeFont") {
+      await this.validateUnicodeFont(value);
+    }
+
     // Update config
     await this.configManager.updateConfig(trimmedKey, value);
 
     console.log(chalk.green(`✓ Updated ${trimmedKey} = ${value}`));
   }
 
+  /**
+   * Set a per-model rate override (USD per million tokens)
+   */
+  private async setPricingOverride(key: string, value: string): Promise<void> {
+    const parts = key.split(".");
+    const rateType = parts.pop() as keyof ModelRates;
+    const model = parts.slice(1).join(".");
+    const validRateTypes: (keyof ModelRates)[] = [
+      "input",
+      "output",
+      "cacheWrite",
+      "cacheRead",
+    ];
+
+    if (!model || !validRateTypes.includes(rateType)) {
+      throw new Error(
+        `Invalid pricing key: ${key}. Use: pricing.<model>.<${validRateTypes.join("|")}>`,
+      );
+    }
+
+    const rate = Number(value);
+    if (value.trim() === "" || !Number.isFinite(rate) || rate < 0) {
+      throw new Error(`Invalid rate: ${value}. Use USD per million tokens`);
+    }
+
+    const config = await this.configManager.loadConfig();
+    const pricing = { ...config.pricing };
+    pricing[model] = { ...pricing[model], [rateType]: rate };
+    await this.configManager.updateConfig("pricing", pricing);
+
+    console.log(chalk.green(`✓ Updated ${key} = $${rate}/MTok`));
+  }
+
+  /**
+   * Check a logo path points at a PNG we can decode
+   */
+  private async validateLogo(path: string): Promise<void> {
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { decodePng } = await import("../utils/png.js");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const fullPath = resolve(path.replace(/^~(?=\/|$)/, home));
+
+    try {
+      decodePng(await readFile(fullPath));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid logo: ${fullPath} (${reason})`);
+    }
+  }
+
+  /**
+   * Check a Unicode font path points at a GNU Unifont .hex file
+   */
+  private async validateUnicodeFont(path: string): Promise<void> {
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { parseUnifontHex } = await import("../utils/unifont.js");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const fullPath = resolve(path.replace(/^~(?=\/|$)/, home));
+
+    try {
+      parseUnifontHex(await readFile(fullPath, "utf-8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid unicodeFont: ${fullPath} (${reason})`);
+    }
+  }
+
   /**
    * Reset configuration to defaults
    */
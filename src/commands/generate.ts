@@ -1,28 +1,34 @@
 import { stdin } from "process";
 import chalk from "chalk";
-import boxen from "boxen";
 import ora from "ora";
-import { exec } from "child_process";
-import { promisify } from "util";
 import { DataFetcher } from "../core/data-fetcher.js";
 import { TranscriptParser } from "../core/transcript-parser.js";
 import { ReceiptGenerator } from "../core/receipt-generator.js";
 import { HtmlRenderer } from "../core/html-renderer.js";
-import { ThermalPrinterRenderer } from "../core/thermal-printer.js";
 import { ConfigManager } from "../core/config-manager.js";
+import { ReceiptLedger } from "../core/receipt-ledger.js";
+import { PrintSpool } from "../core/print-spool.js";
+import { formatReceiptNumber } from "../utils/formatting.js";
 import { LocationDetector } from "../utils/location.js";
+import { ReceiptOutputs } from "./receipt-outputs.js";
+import type { ReceiptOutputFormat } from "./receipt-outputs.js";
 import type { SessionEndHookData } from "../types/session-hook.js";
 import type { ReceiptData } from "../core/receipt-generator.js";
-
-const execAsync = promisify(exec);
-
-export type OutputFormat = "html" | "console" | "printer";
+import type { LedgerEntry, LedgerUpdate } from "../types/ledger.js";
+import type { ThemeName } from "../types/receipt-document.js";
+import type { PdfPageSize } from "../types/config.js";
 
 export interface GenerateOptions {
   session?: string;
   output?: string[];
   location?: string;
   printer?: string;
+  theme?: ThemeName;
+  // Size multiplier for SVG and PNG images
+  scale?: number;
+  pageSize?: PdfPageSize;
+  // Write markdown or json output here instead of stdout
+  outFile?: string;
 }
 
 export class GenerateCommand {
@@ -30,9 +36,11 @@ export class GenerateCommand {
   private transcriptParser = new TranscriptParser();
   private receiptGenerator = new ReceiptGenerator();
   private htmlRenderer = new HtmlRenderer();
-  private thermalPrinter = new ThermalPrinterRenderer();
   private configManager = new ConfigManager();
   private locationDetector = new LocationDetector();
+  private ledger = new ReceiptLedger();
+  private printSpool = new PrintSpool();
+  private outputs = new ReceiptOutputs();
 
   async execute(options: GenerateOptions): Promise<void> {
     const spinner = ora("Generating receipt...").start();
@@ -51,8 +59,11 @@ export class GenerateCommand {
 
       // Load config
       const config = await this.configManager.loadConfig();
+      if (options.theme) {
+        config.theme = options.theme;
+      }
 
-      // Fetch session data from ccusage
+      // Fetch session data from transcripts (or ccusage as a fallback)
       spinner.text = "Fetching session data...";
 
       let sessionData;
@@ -60,16 +71,20 @@ export class GenerateCommand {
         if (actualSessionId) {
           // From hook or when we have the full UUID — fetch directly by ID
           // for accurate totals (avoids sub-session slice issue with --breakdown)
-          sessionData =
-            await this.dataFetcher.fetchSessionById(actualSessionId);
+          sessionData = await this.dataFetcher.fetchSessionById(
+            actualSessionId,
+            config,
+          );
         } else {
           // Manual mode — discover session by prefix/name, then fetch accurate data
-          sessionData =
-            await this.dataFetcher.fetchSessionData(options.session);
+          sessionData = await this.dataFetcher.fetchSessionData(
+            options.session,
+            config,
+          );
         }
       } catch (err) {
         if (stdinData) {
-          // Session not found in ccusage — likely too short or not yet processed.
+          // Session not found — likely too short or not yet processed.
           // Exit silently rather than generating a receipt for the wrong session.
           spinner.stop();
           return;
@@ -99,8 +114,32 @@ export class GenerateCommand {
 
       // Parse transcript
       spinner.text = "Parsing transcript...";
-      const transcriptData =
-        await this.transcriptParser.parseTranscript(transcriptPath);
+      const transcriptData = await this.transcriptParser.parseTranscript(
+        transcriptPath,
+        {
+          onProgress: ({ bytesRead, totalBytes }) => {
+            spinner.text = `Parsing transcript... ${Math.floor((bytesRead / totalBytes) * 100)}%`;
+          },
+        },
+      );
+      if (transcriptData.skippedLines && !stdinData) {
+        spinner.warn(
+          `Skipped ${transcriptData.skippedLines} unreadable transcript line${transcriptData.skippedLines === 1 ? "" : "s"} (truncated or corrupt)`,
+        );
+        spinner.start("Generating receipt...");
+      }
+
+      // Models missing from the pricing table are left at the cost (if
+      // any) recorded with their usage
+      const unpriced = (sessionData.modelBreakdowns || [])
+        .filter((m) => !m.tokenCosts)
+        .map((m) => m.modelName);
+      if (unpriced.length > 0 && !stdinData) {
+        spinner.warn(
+          `No pricing for ${unpriced.join(", ")}. Set rates with: claude-receipts config --set pricing.<model>.input=<USD per million tokens>`,
+        );
+        spinner.start("Generating receipt...");
+      }
 
       // Get location
       const location =
@@ -108,59 +147,95 @@ export class GenerateCommand {
 
       // Generate receipt data
       spinner.text = "Generating receipt...";
-      const receiptData = {
+      const receiptData: ReceiptData = {
         sessionData,
         transcriptData,
         location,
         config,
       };
-
-      const receipt = this.receiptGenerator.generateReceipt(receiptData);
-
-      spinner.succeed("Receipt generated!");
+      const sessionId = actualSessionId || sessionData.sessionId;
 
       // Determine if we should output to console and/or file
       const isFromHook = !!stdinData;
       const outputFormats = [
         ...new Set(options.output || (isFromHook ? ["html"] : ["console"])),
-      ] as OutputFormat[];
+      ] as ReceiptOutputFormat[];
+      this.outputs.checkOutputs(outputFormats, options.outFile);
+
+      // Record in the ledger to assign a receipt number
+      const ledgerEntry = await this.recordInLedger(
+        receiptData,
+        sessionId,
+        outputFormats,
+        isFromHook,
+      );
+      receiptData.receiptNumber = ledgerEntry?.receiptNumber;
 
-      const errors: Array<{ format: OutputFormat; error: Error }> = [];
+      const receipt = this.receiptGenerator.generateReceipt(receiptData);
 
-      for (const format of outputFormats) {
-        try {
-          switch (format) {
-            case "printer":
-              await this.outputToPrinter(receiptData, options, config, spinner);
-              break;
-            case "html":
-              await this.outputToHtml(
-                receiptData,
-                receipt,
-                actualSessionId || sessionData.sessionId,
-                transcriptData.sessionSlug,
-                isFromHook,
-              );
-              break;
-            case "console":
-              this.outputToConsole(receipt);
-              break;
-          }
-        } catch (err) {
-          const error =
-            err instanceof Error ? err : new Error("Unknown error");
-          errors.push({ format, error });
-
-          if (outputFormats.length > 1 && !isFromHook) {
-            console.log(
-              chalk.yellow(
-                `\n⚠ ${format} output failed: ${error.message}`,
-              ),
-            );
-          }
+      spinner.succeed("Receipt generated!");
+
+      const home = process.env.HOME || process.env.USERPROFILE || "";
+      const slug = transcriptData.sessionSlug;
+      const { receiptNumber } = receiptData;
+      const htmlPath = await this.getHtmlPath(sessionId, slug);
+      const result = await this.outputs.write(
+        receiptData,
+        receipt,
+        outputFormats,
+        {
+          basePath: htmlPath.replace(/\.html$/, ""),
+          previewPath: `${home}/.claude-receipts/previews/${slug || sessionId}.png`,
+          config,
+          printer: options.printer,
+          printDescription: this.describePrintJob(
+            sessionId,
+            slug,
+            receiptNumber,
+          ),
+          scale: options.scale,
+          pageSize: options.pageSize,
+          outFile: options.outFile,
+          fromHook: isFromHook,
+        },
+        spinner,
+      );
+      const { errors } = result;
+
+      const ledgerUpdate: LedgerUpdate = {};
+      if (result.htmlPath) {
+        ledgerUpdate.htmlPath = result.htmlPath;
+      }
+      if (outputFormats.includes("printer")) {
+        ledgerUpdate.printer = options.printer || config.printer;
+        const printError = errors.find((e) => e.format === "printer")?.error;
+        if (printError) {
+          ledgerUpdate.printStatus = "failed";
+          ledgerUpdate.printError = printError.message;
+        } else if (result.print?.spooled) {
+          ledgerUpdate.printStatus = "pending";
+          ledgerUpdate.printError = result.print.spooled.lastError;
+        } else {
+          ledgerUpdate.printStatus = "printed";
         }
       }
 
+      if (ledgerEntry) {
+        await this.updateLedger(
+          ledgerEntry.receiptNumber,
+          ledgerUpdate,
+          isFromHook,
+        );
+      }
+
+      // Give earlier jobs stuck in the print spool another go. Not from the
+      // hook: each unreachable printer would hold up the end of the session
+      // for its full timeout. (Printing a new receipt still retries the
+      // jobs waiting for its printer first.)
+      if (!isFromHook) {
+        await this.retrySpooledJobs(spinner);
+      }
+
       if (errors.length === outputFormats.length) {
         // All outputs failed — throw the first error
         throw errors[0].error;
@@ -179,56 +254,130 @@ export class GenerateCommand {
   }
 
   /**
-   * Send receipt to thermal printer
+   * Retry spooled print jobs whose backoff has expired. Failures just stay
+   * in the spool.
    */
-  private async outputToPrinter(
-    receiptData: ReceiptData,
-    options: GenerateOptions,
-    config: { printer?: string },
+  private async retrySpooledJobs(
     spinner: ReturnType<typeof ora>,
   ): Promise<void> {
-    const printerInterface = options.printer || config.printer;
-    if (!printerInterface) {
-      throw new Error(
-        'No printer specified. Use --printer <name> or set via: claude-receipts config --set printer=EPSON_TM_T88V',
-      );
+    try {
+      const result = await this.printSpool.flush();
+      for (const job of result.printed) {
+        spinner.succeed(`Spooled job ${job.id} printed: ${job.description}`);
+      }
+      for (const warning of result.warnings) {
+        spinner.warn(warning.message);
+      }
+    } catch {
+      // An unreadable spool never blocks a new receipt
     }
-
-    spinner.start("Sending to printer...");
-    await this.thermalPrinter.printReceipt(receiptData, printerInterface);
-    spinner.succeed(`Receipt sent to printer: ${printerInterface}`);
   }
 
   /**
-   * Save receipt as HTML and optionally open in browser
+   * Choose the HTML file path for a session. Slugs aren't unique, so if the
+   * ledger shows the slug's file belongs to another session, suffix it with
+   * the session ID prefix rather than overwriting it.
    */
-  private async outputToHtml(
-    receiptData: ReceiptData,
-    receipt: string,
+  private async getHtmlPath(
     sessionId: string,
     sessionSlug: string | undefined,
-    isFromHook: boolean,
-  ): Promise<void> {
-    const fileName = sessionSlug || sessionId;
+  ): Promise<string> {
     const home = process.env.HOME || process.env.USERPROFILE || "";
     const outputDir = `${home}/.claude-receipts/projects`;
-    const fullPath = `${outputDir}/${fileName}.html`;
+    const fullPath = `${outputDir}/${sessionSlug || sessionId}.html`;
 
-    const html = this.htmlRenderer.generateHtml(receiptData, receipt);
-    await this.saveHtmlFile(html, fullPath);
+    if (!sessionSlug) {
+      return fullPath;
+    }
 
-    if (isFromHook) {
-      await this.openInBrowser(fullPath);
-    } else {
-      console.log(chalk.cyan("\nTip: Open in browser to view!"));
+    try {
+      const entries = await this.ledger.list();
+      const taken = entries.some(
+        (e) => e.htmlPath === fullPath && e.sessionId !== sessionId,
+      );
+      if (taken) {
+        return `${outputDir}/${sessionSlug}-${sessionId.slice(0, 8)}.html`;
+      }
+    } catch {
+      // Unreadable ledger — fall back to the slug path
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * Describe a print job for the spool by its receipt number and session
+   * slug. Without a slug or number, the session ID prefix identifies it.
+   */
+  private describePrintJob(
+    sessionId: string,
+    sessionSlug: string | undefined,
+    receiptNumber: number | undefined,
+  ): string {
+    if (receiptNumber === undefined) {
+      return `Receipt (${sessionSlug || sessionId.slice(0, 8)})`;
+    }
+
+    const description = `Receipt #${formatReceiptNumber(receiptNumber)}`;
+    return sessionSlug ? `${description} (${sessionSlug})` : description;
+  }
+
+  /**
+   * Record a new receipt in the ledger. Ledger failures never block the
+   * receipt itself; the receipt is just printed without a number.
+   */
+  private async recordInLedger(
+    receiptData: ReceiptData,
+    sessionId: string,
+    outputFormats: ReceiptOutputFormat[],
+    isFromHook: boolean,
+  ): Promise<LedgerEntry | undefined> {
+    try {
+      return await this.ledger.record({
+        sessionId,
+        sessionSlug: receiptData.transcriptData.sessionSlug,
+        outputs: outputFormats,
+        printStatus: outputFormats.includes("printer")
+          ? "pending"
+          : "not-requested",
+        data: this.htmlRenderer.getShareableData(receiptData),
+        receipt: this.ledger.createSnapshot(receiptData),
+      });
+    } catch (error) {
+      if (!isFromHook) {
+        console.error(
+          chalk.yellow(
+            `\n⚠ Could not record receipt in ledger: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+      }
+      return undefined;
     }
   }
 
   /**
-   * Display receipt to console with formatting
+   * Record output results (HTML path, print status) against a receipt
    */
-  private outputToConsole(receipt: string): void {
-    this.displayToConsole(receipt);
+  private async updateLedger(
+    receiptNumber: number,
+    changes: LedgerUpdate,
+    isFromHook: boolean,
+  ): Promise<void> {
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    try {
+      await this.ledger.update(receiptNumber, changes);
+    } catch (error) {
+      if (!isFromHook) {
+        console.error(
+          chalk.yellow(
+            `\n⚠ Could not update ledger: ${error instanceof Error ? error.message : error}`,
+          ),
+        );
+      }
+    }
   }
 
   /**
@@ -267,94 +416,4 @@ export class GenerateCommand {
       stdin.resume();
     });
   }
-
-  /**
-   * Display receipt to console with formatting
-   */
-  private displayToConsole(receipt: string): void {
-    console.log(
-      boxen(receipt, {
-        padding: 1,
-        margin: 1,
-        borderStyle: "round",
-        borderColor: "cyan",
-      }),
-    );
-  }
-
-  /**
-   * Save receipt to a file
-   */
-  private async saveToFile(
-    receipt: string,
-    outputPath: string,
-    sessionId: string,
-  ): Promise<void> {
-    const { writeFile, mkdir } = await import("fs/promises");
-    const { dirname, resolve } = await import("path");
-
-    const resolvedPath = resolve(this.expandPath(outputPath));
-    const dir = dirname(resolvedPath);
-
-    // Ensure directory exists
-    await mkdir(dir, { recursive: true });
-
-    // Write receipt to file
-    await writeFile(resolvedPath, receipt, "utf-8");
-
-    console.log(chalk.green(`Receipt saved to: ${resolvedPath}`));
-  }
-
-  /**
-   * Save HTML file
-   */
-  private async saveHtmlFile(html: string, outputPath: string): Promise<void> {
-    const { writeFile, mkdir } = await import("fs/promises");
-    const { dirname, resolve } = await import("path");
-
-    const resolvedPath = resolve(this.expandPath(outputPath));
-    const dir = dirname(resolvedPath);
-
-    // Ensure directory exists
-    await mkdir(dir, { recursive: true });
-
-    // Write HTML to file
-    await writeFile(resolvedPath, html, "utf-8");
-
-    console.log(chalk.green(`Receipt saved to: ${resolvedPath}`));
-  }
-
-  /**
-   * Open file in default browser
-   */
-  private async openInBrowser(filePath: string): Promise<void> {
-    const platform = process.platform;
-
-    try {
-      if (platform === "darwin") {
-        // macOS
-        await execAsync(`open "${filePath}"`);
-      } else if (platform === "win32") {
-        // Windows
-        await execAsync(`start "" "${filePath}"`);
-      } else {
-        // Linux
-        await execAsync(`xdg-open "${filePath}"`);
-      }
-    } catch (error) {
-      // Silently fail - file is still saved
-      // Can't log error in hook context anyway
-    }
-  }
-
-  /**
-   * Expand ~ to home directory
-   */
-  private expandPath(path: string): string {
-    if (path.startsWith("~/")) {
-      const home = process.env.HOME || process.env.USERPROFILE || "";
-      return path.replace(/^~/, home);
-    }
-    return path;
-  }
-}
+}
\ No newline at end of file
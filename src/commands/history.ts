@@ -0,0 +1,269 @@
+import { existsSync } from "fs";
+import { basename, join } from "path";
+import chalk from "chalk";
+import { endOfDay, startOfDay } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { UsageReader } from "../core/usage-reader.js";
+import { PricingRegistry } from "../core/pricing.js";
+import { ConfigManager } from "../core/config-manager.js";
+import { ReceiptLedger } from "../core/receipt-ledger.js";
+import {
+  fitColumn,
+  formatCurrency,
+  formatReceiptNumber,
+  parseDate,
+} from "../utils/formatting.js";
+import type { LedgerEntry } from "../types/ledger.js";
+import type { SessionUsage } from "../types/usage.js";
+
+export type HistorySortKey = "date" | "cost" | "tokens" | "project";
+
+export interface HistoryOptions {
+  project?: string;
+  from?: string;
+  to?: string;
+  model?: string;
+  minCost?: number;
+  sort?: HistorySortKey;
+  asc?: boolean;
+  limit?: number;
+  json?: boolean;
+}
+
+export interface HistoryEntry {
+  sessionId: string;
+  date: string;
+  project: string;
+  projectPath?: string;
+  slug?: string;
+  models: string[];
+  totalTokens: number;
+  totalCost: number;
+  transcriptPath: string;
+  receiptPath?: string;
+  receiptNumber?: number;
+}
+
+export class HistoryCommand {
+  private usageReader = new UsageReader();
+  private configManager = new ConfigManager();
+  private ledger = new ReceiptLedger();
+
+  async execute(options: HistoryOptions): Promise<void> {
+    try {
+      const config = await this.configManager.loadConfig();
+      const sessions = await this.usageReader.listSessions(
+        new PricingRegistry(config.pricing),
+      );
+
+      // Latest ledger entry per session (ledger is ordered oldest first)
+      const receipts = new Map<string, LedgerEntry>();
+      for (const entry of await this.ledger.list()) {
+        receipts.set(entry.sessionId, entry);
+      }
+
+      const entries = this.sortEntries(
+        this.filterSessions(sessions, options).map((s) =>
+          this.toEntry(s, receipts.get(s.sessionId)),
+        ),
+        options.sort || "date",
+        options.asc || false,
+      );
+
+      const limited =
+        options.limit && options.limit > 0
+          ? entries.slice(0, options.limit)
+          : entries;
+
+      if (options.json) {
+        console.log(JSON.stringify(limited, null, 2));
+        return;
+      }
+
+      this.printTable(limited, entries.length, config.timezone);
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Apply project, date range, model and minimum cost filters
+   */
+  private filterSessions(
+    sessions: SessionUsage[],
+    options: HistoryOptions,
+  ): SessionUsage[] {
+    const from = options.from ? startOfDay(parseDate(options.from)) : undefined;
+    const to = options.to ? endOfDay(parseDate(options.to)) : undefined;
+    if (
+      options.minCost !== undefined &&
+      !(Number.isFinite(options.minCost) && options.minCost >= 0)
+    ) {
+      throw new Error(
+        `Invalid minimum cost: ${options.minCost}. Use a number of US dollars, e.g. 0.50`,
+      );
+    }
+    const project = options.project?.toLowerCase();
+    const model = options.model?.toLowerCase();
+
+    return sessions.filter((s) => {
+      const date = new Date(s.lastActivity || 0);
+      if (from && date < from) return false;
+      if (to && date > to) return false;
+
+      if (
+        project &&
+        !(s.cwd || "").toLowerCase().includes(project) &&
+        !(s.projectPath || "").toLowerCase().includes(project)
+      ) {
+        return false;
+      }
+
+      if (
+        model &&
+        !(s.modelsUsed || []).some((m) => m.toLowerCase().includes(model))
+      ) {
+        return false;
+      }
+
+      if (options.minCost !== undefined && s.totalCost < options.minCost) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Convert a session into a history row, noting any generated receipt
+   */
+  private toEntry(
+    session: SessionUsage,
+    receipt: LedgerEntry | undefined,
+  ): HistoryEntry {
+    return {
+      sessionId: session.sessionId,
+      date: session.lastActivity || "",
+      project: session.cwd
+        ? basename(session.cwd)
+        : session.projectPath?.split("/")[0] || "Unknown Project",
+      projectPath: session.cwd,
+      slug: session.slug,
+      models: session.modelsUsed || [],
+      totalTokens: session.totalTokens,
+      totalCost: session.totalCost,
+      transcriptPath: session.transcriptPath,
+      receiptPath: receipt?.htmlPath || this.findReceipt(session),
+      receiptNumber: receipt?.receiptNumber,
+    };
+  }
+
+  /**
+   * Sort history rows (descending unless asc is set)
+   */
+  private sortEntries(
+    entries: HistoryEntry[],
+    sort: HistorySortKey,
+    asc: boolean,
+  ): HistoryEntry[] {
+    const compare: Record<
+      HistorySortKey,
+      (a: HistoryEntry, b: HistoryEntry) => number
+    > = {
+      date: (a, b) => a.date.localeCompare(b.date),
+      cost: (a, b) => a.totalCost - b.totalCost,
+      tokens: (a, b) => a.totalTokens - b.totalTokens,
+      project: (a, b) => a.project.localeCompare(b.project),
+    };
+
+    if (!compare[sort]) {
+      throw new Error(
+        `Invalid sort key: ${sort}. Valid keys: ${Object.keys(compare).join(", ")}`,
+      );
+    }
+
+    const sorted = [...entries].sort(compare[sort]);
+    return asc ? sorted : sorted.reverse();
+  }
+
+  /**
+   * Find an HTML receipt saved for this session before the ledger existed
+   */
+  private findReceipt(session: SessionUsage): string | undefined {
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const outputDir = join(home, ".claude-receipts", "projects");
+
+    return [session.slug, session.sessionId]
+      .filter((name): name is string => !!name)
+      .map((name) => join(outputDir, `${name}.html`))
+      .find((path) => existsSync(path));
+  }
+
+  /**
+   * Print history rows as an aligned table
+   */
+  private printTable(
+    entries: HistoryEntry[],
+    total: number,
+    timezone?: string,
+  ): void {
+    if (entries.length === 0) {
+      console.log(chalk.yellow("\nNo sessions found\n"));
+      return;
+    }
+
+    const tz = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    console.log(chalk.cyan.bold("\nClaude Code Sessions\n"));
+    console.log(
+      chalk.gray(
+        `  ${"DATE".padEnd(16)}  ${"ID".padEnd(8)}  ${"PROJECT".padEnd(20)}  ${"SESSION".padEnd(24)}  ${"MODELS".padEnd(18)}  ${"COST".padStart(9)}  RECEIPT`,
+      ),
+    );
+
+    for (const entry of entries) {
+      const date = entry.date
+        ? formatInTimeZone(new Date(entry.date), tz, "yyyy-MM-dd HH:mm")
+        : "";
+      const models = entry.models.map((m) => this.shortModelName(m)).join(",");
+
+      console.log(
+        `  ${date.padEnd(16)}  ${chalk.bold(entry.sessionId.slice(0, 8))}  ${fitColumn(entry.project, 20)}  ${fitColumn(entry.slug || "-", 24)}  ${fitColumn(models, 18)}  ${formatCurrency(entry.totalCost).padStart(9)}  ${this.formatReceipt(entry)}`,
+      );
+    }
+
+    const totalCost = entries.reduce((sum, e) => sum + e.totalCost, 0);
+    console.log(
+      chalk.gray(
+        `\n  Showing ${entries.length} of ${total} sessions · ${formatCurrency(totalCost)} total`,
+      ),
+    );
+    console.log(
+      chalk.cyan(
+        "  Tip: claude-receipts generate --session <id> to print a receipt\n",
+      ),
+    );
+  }
+
+  /**
+   * Show the receipt number if known, or a tick for legacy HTML receipts
+   */
+  private formatReceipt(entry: HistoryEntry): string {
+    if (entry.receiptNumber !== undefined) {
+      return chalk.green(`#${formatReceiptNumber(entry.receiptNumber)}`);
+    }
+    return entry.receiptPath ? chalk.green("✓") : chalk.gray("-");
+  }
+
+  /**
+   * Shorten a model ID for table display (e.g. "opus-4-5")
+   */
+  private shortModelName(model: string): string {
+    return model.replace(/^claude-/, "").replace(/-\d{8}$/, "");
+  }
+}
@@ -0,0 +1,266 @@
+import chalk from "chalk";
+import ora from "ora";
+import prompts from "prompts";
+import { ThermalPrinterRenderer } from "../core/thermal-printer.js";
+import { ConfigManager } from "../core/config-manager.js";
+import { getPrinterProfile } from "../core/printer-profiles.js";
+import { getStatusErrors, PaperLowError } from "../core/printer-errors.js";
+import {
+  findCupsPrinters,
+  findUsbPrinters,
+  getLocalSubnets,
+  RAW_PRINT_PORT,
+  scanNetwork,
+} from "../core/printer-discovery.js";
+import type { DiscoveredPrinter, PrinterSource } from "../types/printer.js";
+
+export interface PrinterStatusOptions {
+  printer?: string;
+}
+
+export interface PrinterDiscoveryOptions {
+  subnet?: string[];
+  port?: number;
+  scan?: boolean;
+  json?: boolean;
+}
+
+const SOURCE_TITLES: Record<PrinterSource, string> = {
+  usb: "USB",
+  cups: "CUPS",
+  network: "Network",
+};
+
+export class PrinterCommand {
+  private thermalPrinter = new ThermalPrinterRenderer();
+  private configManager = new ConfigManager();
+
+  /**
+   * Query the printer's real-time status. Exits non-zero when the printer
+   * can't print (or doesn't answer), so it can be used in scripts.
+   */
+  async status(options: PrinterStatusOptions): Promise<void> {
+    const spinner = ora("Checking printer status...").start();
+
+    try {
+      const config = await this.configManager.loadConfig();
+      const printerInterface = options.printer || config.printer;
+      if (!printerInterface) {
+        throw new Error(
+          "No printer specified. Use --printer <interface> or set via: claude-receipts config --set printer=tcp://192.168.1.100",
+        );
+      }
+
+      const profile = getPrinterProfile(config.printerProfile);
+      const status = await this.thermalPrinter.getStatus(
+        printerInterface,
+        profile,
+      );
+      if (!status) {
+        throw new Error(
+          `${printerInterface} didn't answer the status query. It may be switched off, or not support status queries.`,
+        );
+      }
+
+      const problems = getStatusErrors(status);
+      const ready = problems.every((error) => error instanceof PaperLowError);
+
+      if (ready) {
+        spinner.succeed(`Printer ready: ${printerInterface}`);
+      } else {
+        spinner.fail(`Printer not ready: ${printerInterface}`);
+      }
+
+      console.log("");
+      this.printStatusItem("Profile", profile.displayName);
+      this.printStatusItem("Online", status.online ? "yes" : chalk.red("no"));
+      this.printStatusItem(
+        "Cover",
+        status.coverOpen ? chalk.red("open") : "closed",
+      );
+      this.printStatusItem(
+        "Paper",
+        status.paperOut
+          ? chalk.red("out")
+          : status.paperLow
+            ? chalk.yellow("low")
+            : "ok",
+      );
+      this.printStatusItem("Errors", status.error ? chalk.red("yes") : "none");
+
+      if (problems.length > 0) {
+        console.log("");
+        for (const problem of problems) {
+          const colour =
+            problem instanceof PaperLowError ? chalk.yellow : chalk.red;
+          console.log(colour(`  ⚠ ${problem.message}`));
+        }
+      }
+      console.log("");
+
+      if (!ready) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail("Failed to read printer status");
+
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Find printers on USB, in CUPS and on the local network, then let the
+   * user pick one to save as the configured printer
+   */
+  async discover(options: PrinterDiscoveryOptions): Promise<void> {
+    const spinner = ora("Looking for USB printers...").start();
+
+    try {
+      const printers: DiscoveredPrinter[] = [];
+      const problems: string[] = [];
+
+      try {
+        printers.push(...(await findUsbPrinters()));
+      } catch (error) {
+        problems.push(
+          `USB: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      spinner.text = "Looking for CUPS printers...";
+      printers.push(...(await findCupsPrinters()));
+
+      if (options.scan !== false) {
+        const port = options.port || RAW_PRINT_PORT;
+        const subnets = options.subnet?.length
+          ? options.subnet
+          : getLocalSubnets();
+
+        for (const subnet of subnets) {
+          spinner.text = `Scanning ${subnet} for printers on port ${port}...`;
+          printers.push(...(await scanNetwork(subnet, port)));
+        }
+      }
+
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(printers, null, 2));
+        return;
+      }
+
+      for (const problem of problems) {
+        console.log(chalk.yellow(`⚠ ${problem}`));
+      }
+
+      if (printers.length === 0) {
+        console.log(chalk.yellow("\nNo printers found\n"));
+        console.log(
+          chalk.gray(
+            "  Check the printer is switched on and connected, or scan another network with --subnet 192.168.1.0/24\n",
+          ),
+        );
+        return;
+      }
+
+      this.printDiscovered(printers);
+
+      // Only offer to save when someone is there to answer
+      if (process.stdin.isTTY) {
+        await this.choosePrinter(printers);
+      }
+    } catch (error) {
+      spinner.fail("Printer discovery failed");
+
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * List discovered printers grouped by where they were found
+   */
+  private printDiscovered(printers: DiscoveredPrinter[]): void {
+    console.log(chalk.cyan.bold("\nPrinters Found\n"));
+
+    for (const source of Object.keys(SOURCE_TITLES) as PrinterSource[]) {
+      const found = printers.filter((p) => p.source === source);
+      if (found.length === 0) continue;
+
+      console.log(chalk.bold(`  ${SOURCE_TITLES[source]}`));
+      for (const printer of found) {
+        const details = [printer.name, printer.detail]
+          .filter((d) => d && !printer.interface.includes(d))
+          .join(" · ");
+        console.log(
+          `    ${printer.interface.padEnd(28)} ${chalk.gray(details)}`,
+        );
+      }
+      console.log("");
+    }
+  }
+
+  /**
+   * Ask which printer to use and save it (and its profile, when the USB
+   * IDs identify one) to the config
+   */
+  private async choosePrinter(printers: DiscoveredPrinter[]): Promise<void> {
+    const config = await this.configManager.loadConfig();
+
+    const { printer } = await prompts({
+      type: "select",
+      name: "printer",
+      message: "Printer to use for receipts:",
+      choices: [
+        ...printers.map((p) => ({
+          title: `${p.interface} (${SOURCE_TITLES[p.source]}${p.interface.includes(p.name) ? "" : `, ${p.name}`})`,
+          value: p,
+        })),
+        {
+          title: config.printer
+            ? `Keep current (${config.printer})`
+            : "Don't change",
+          value: undefined,
+        },
+      ],
+    });
+
+    if (!printer) {
+      return;
+    }
+
+    const chosen = printer as DiscoveredPrinter;
+    await this.configManager.updateConfig("printer", chosen.interface);
+    console.log(chalk.green(`\n✓ Printer set to: ${chosen.interface}`));
+
+    if (chosen.profile) {
+      await this.configManager.updateConfig("printerProfile", chosen.profile);
+      console.log(
+        chalk.green(
+          `✓ Printer profile set to: ${getPrinterProfile(chosen.profile).displayName}`,
+        ),
+      );
+    }
+    console.log(
+      chalk.gray("  Check it with: claude-receipts printer status\n"),
+    );
+  }
+
+  /**
+   * Print a status item
+   */
+  private printStatusItem(label: string, value: string): void {
+    console.log(`  ${chalk.bold(label.padEnd(10))} ${value}`);
+  }
+}
@@ -0,0 +1,404 @@
+import chalk from "chalk";
+import boxen from "boxen";
+import type ora from "ora";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { HtmlRenderer } from "../core/html-renderer.js";
+import { ImageRenderer } from "../core/image-renderer.js";
+import { PdfRenderer } from "../core/pdf-renderer.js";
+import { MarkdownRenderer } from "../core/markdown-renderer.js";
+import { JsonRenderer } from "../core/json-renderer.js";
+import { ThermalPrinterRenderer } from "../core/thermal-printer.js";
+import { PrintSpool } from "../core/print-spool.js";
+import { getPrinterProfile } from "../core/printer-profiles.js";
+import type { ReceiptData } from "../core/receipt-generator.js";
+import type { PdfPageSize, ReceiptConfig } from "../types/config.js";
+import type { PrintResult } from "../types/printer.js";
+
+const execAsync = promisify(exec);
+
+export type ReceiptOutputFormat =
+  | "html"
+  | "svg"
+  | "png"
+  | "pdf"
+  | "markdown"
+  | "json"
+  | "console"
+  | "printer"
+  | "preview";
+
+export interface ReceiptOutputTarget {
+  // Path for saved files without the extension: the HTML, SVG, PNG and
+  // PDF outputs are saved side by side
+  basePath: string;
+  // Where the printer preview PNG goes
+  previewPath: string;
+  // The current config, for the printer and its settings
+  config: ReceiptConfig;
+  // --printer, overriding the configured printer
+  printer?: string;
+  // Describes the job in the print spool
+  printDescription: string;
+  shareUrl?: string;
+  // Size multiplier for SVG and PNG images
+  scale?: number;
+  pageSize?: PdfPageSize;
+  // Write markdown or json output here instead of stdout
+  outFile?: string;
+  // Called from the SessionEnd hook: open the HTML in a browser, and keep
+  // quiet about failed outputs
+  fromHook?: boolean;
+}
+
+export interface ReceiptOutputResult {
+  htmlPath?: string;
+  // What happened to the print job, when printing didn't fail
+  print?: PrintResult;
+  errors: Array<{ format: ReceiptOutputFormat; error: Error }>;
+}
+
+/**
+ * Writes a receipt in each requested format, for the generate and reprint
+ * commands. One format failing doesn't stop the others; failures are
+ * collected in the result. Status messages go to stderr, so stdout only
+ * ever carries the receipt itself.
+ */
+export class ReceiptOutputs {
+  private htmlRenderer = new HtmlRenderer();
+  private imageRenderer = new ImageRenderer();
+  private pdfRenderer = new PdfRenderer();
+  private markdownRenderer = new MarkdownRenderer();
+  private jsonRenderer = new JsonRenderer();
+  private thermalPrinter = new ThermalPrinterRenderer();
+  private printSpool = new PrintSpool();
+
+  /**
+   * Check the formats can be written together. Markdown, JSON and the
+   * console receipt all go to stdout, where more than one couldn't be
+   * told apart, unless --out-file takes the markdown or JSON.
+   */
+  checkOutputs(
+    outputFormats: ReceiptOutputFormat[],
+    outFile: string | undefined,
+  ): void {
+    const textFormats = outputFormats.filter(
+      (f) => f === "markdown" || f === "json",
+    );
+    if (outFile && textFormats.length !== 1) {
+      throw new Error(
+        "--out-file needs exactly one of --output markdown or --output json",
+      );
+    }
+
+    const stdoutFormats = outputFormats.filter(
+      (f) =>
+        f === "console" || (!outFile && (f === "markdown" || f === "json")),
+    );
+    if (stdoutFormats.length > 1) {
+      throw new Error(
+        `--output ${stdoutFormats.join(" and ")} would be written to stdout together. Choose one, or write markdown or json to a file with --out-file`,
+      );
+    }
+  }
+
+  /**
+   * Write the receipt in each format, reporting progress on the spinner
+   */
+  async write(
+    receiptData: ReceiptData,
+    receipt: string,
+    outputFormats: ReceiptOutputFormat[],
+    target: ReceiptOutputTarget,
+    spinner: ReturnType<typeof ora>,
+  ): Promise<ReceiptOutputResult> {
+    const result: ReceiptOutputResult = { errors: [] };
+
+    for (const format of outputFormats) {
+      try {
+        switch (format) {
+          case "printer":
+            result.print = await this.outputToPrinter(
+              receiptData,
+              target,
+              spinner,
+            );
+            break;
+          case "html":
+            result.htmlPath = await this.outputToHtml(
+              receiptData,
+              receipt,
+              target,
+            );
+            break;
+          case "svg":
+          case "png":
+            await this.outputToImage(receiptData, format, target);
+            break;
+          case "pdf":
+            await this.outputToPdf(receiptData, target);
+            break;
+          case "markdown":
+            await this.outputToText(
+              this.markdownRenderer.generateMarkdown(
+                receiptData,
+                target.shareUrl,
+              ),
+              target.outFile,
+            );
+            break;
+          case "json":
+            await this.outputToText(
+              this.jsonRenderer.generateJson(receiptData),
+              target.outFile,
+            );
+            break;
+          case "console":
+            this.outputToConsole(receipt);
+            break;
+          case "preview":
+            await this.outputToPreview(receiptData, target, spinner);
+            break;
+        }
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Unknown error");
+        result.errors.push({ format, error });
+
+        if (outputFormats.length > 1 && !target.fromHook) {
+          console.error(
+            chalk.yellow(`\n⚠ ${format} output failed: ${error.message}`),
+          );
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Send the receipt to a thermal printer. If the printer can't be reached
+   * the job is spooled for a later retry rather than lost.
+   */
+  private async outputToPrinter(
+    receiptData: ReceiptData,
+    target: ReceiptOutputTarget,
+    spinner: ReturnType<typeof ora>,
+  ): Promise<PrintResult> {
+    const printData = this.withPrinterSettings(receiptData, target.config);
+    const printerInterface = target.printer || target.config.printer;
+    if (!printerInterface) {
+      throw new Error(
+        "No printer specified. Use --printer <name> or set via: claude-receipts config --set printer=EPSON_TM_T88V",
+      );
+    }
+
+    spinner.start("Sending to printer...");
+    const buffer = await this.thermalPrinter.buildReceiptJob(
+      printData,
+      target.shareUrl,
+    );
+    const result = await this.printSpool.print(
+      buffer,
+      printerInterface,
+      getPrinterProfile(printData.config.printerProfile),
+      {
+        description: target.printDescription,
+        receiptNumber: receiptData.duplicate
+          ? undefined
+          : receiptData.receiptNumber,
+      },
+    );
+
+    if (result.spooled) {
+      spinner.warn(
+        `Printer unavailable (${result.spooled.lastError}). Receipt spooled as job ${result.spooled.id}; it will be retried on the next run, or run: claude-receipts spool flush`,
+      );
+    } else {
+      spinner.succeed(`Receipt sent to printer: ${printerInterface}`);
+    }
+    for (const warning of result.warnings) {
+      spinner.warn(warning.message);
+    }
+    return result;
+  }
+
+  /**
+   * Render the printer output with the ESC/POS emulator, saving a PNG and
+   * an annotated text dump
+   */
+  private async outputToPreview(
+    receiptData: ReceiptData,
+    target: ReceiptOutputTarget,
+    spinner: ReturnType<typeof ora>,
+  ): Promise<void> {
+    const pngPath = target.previewPath;
+
+    spinner.start("Rendering printer preview...");
+    await this.thermalPrinter.printReceipt(
+      this.withPrinterSettings(receiptData, target.config),
+      `emulator:${pngPath}`,
+      target.shareUrl,
+    );
+    spinner.succeed(`Printer preview saved to: ${pngPath}`);
+    console.error(
+      chalk.gray(`  Text dump: ${pngPath.replace(/\.png$/, ".txt")}`),
+    );
+  }
+
+  /**
+   * The printer may have changed since the receipt was made (as for a
+   * reprint), and the logo or font it used may be gone, so printer
+   * settings always come from the current config. What the receipt says
+   * (theme, timezone, pricing) is left as it was.
+   */
+  private withPrinterSettings(
+    receiptData: ReceiptData,
+    config: ReceiptConfig,
+  ): ReceiptData {
+    return {
+      ...receiptData,
+      config: {
+        ...receiptData.config,
+        printer: config.printer,
+        printerProfile: config.printerProfile,
+        codePage: config.codePage,
+        unicodeFont: config.unicodeFont,
+        logo: config.logo,
+        dither: config.dither,
+      },
+    };
+  }
+
+  /**
+   * Save the receipt as HTML, and open it in a browser from the hook.
+   * Returns the path the HTML was written to.
+   */
+  private async outputToHtml(
+    receiptData: ReceiptData,
+    receipt: string,
+    target: ReceiptOutputTarget,
+  ): Promise<string> {
+    const fullPath = `${target.basePath}.html`;
+    await this.saveFile(
+      fullPath,
+      this.htmlRenderer.generateHtml(receiptData, receipt),
+    );
+    console.error(chalk.green(`Receipt saved to: ${fullPath}`));
+
+    if (target.fromHook) {
+      await this.openInBrowser(fullPath);
+    } else {
+      console.error(chalk.cyan("\nTip: Open in browser to view!"));
+    }
+
+    return fullPath;
+  }
+
+  /**
+   * Render the receipt as an SVG or PNG image, saved beside the HTML file
+   */
+  private async outputToImage(
+    receiptData: ReceiptData,
+    format: "svg" | "png",
+    target: ReceiptOutputTarget,
+  ): Promise<void> {
+    const fullPath = `${target.basePath}.${format}`;
+    const options = { scale: target.scale, shareUrl: target.shareUrl };
+
+    await this.saveFile(
+      fullPath,
+      format === "svg"
+        ? await this.imageRenderer.generateSvg(receiptData, options)
+        : await this.imageRenderer.generatePng(receiptData, options),
+    );
+    console.error(chalk.green(`Receipt image saved to: ${fullPath}`));
+  }
+
+  /**
+   * Render the receipt as a PDF invoice (or receipt roll), saved beside
+   * the HTML file
+   */
+  private async outputToPdf(
+    receiptData: ReceiptData,
+    target: ReceiptOutputTarget,
+  ): Promise<void> {
+    const fullPath = `${target.basePath}.pdf`;
+    await this.saveFile(
+      fullPath,
+      this.pdfRenderer.generatePdf(
+        receiptData,
+        // Page size is a current preference, not part of the receipt
+        target.pageSize || target.config.pdfPageSize,
+      ),
+    );
+    console.error(chalk.green(`Receipt PDF saved to: ${fullPath}`));
+  }
+
+  /**
+   * Write markdown or JSON output to a file, or to stdout for piping into
+   * other tools (progress messages go to stderr)
+   */
+  private async outputToText(
+    text: string,
+    outFile: string | undefined,
+  ): Promise<void> {
+    if (!outFile) {
+      process.stdout.write(text);
+      return;
+    }
+
+    const { resolve } = await import("path");
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const fullPath = resolve(outFile.replace(/^~(?=\/|$)/, home));
+
+    await this.saveFile(fullPath, text);
+    console.error(chalk.green(`Receipt saved to: ${fullPath}`));
+  }
+
+  /**
+   * Display the receipt in the console
+   */
+  private outputToConsole(receipt: string): void {
+    console.log(
+      boxen(receipt, {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "cyan",
+      }),
+    );
+  }
+
+  /**
+   * Write a file, creating its directory if needed
+   */
+  private async saveFile(path: string, contents: string | Buffer) {
+    const { writeFile, mkdir } = await import("fs/promises");
+    const { dirname } = await import("path");
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, contents);
+  }
+
+  /**
+   * Open a file in the default browser
+   */
+  private async openInBrowser(filePath: string): Promise<void> {
+    const platform = process.platform;
+
+    try {
+      if (platform === "darwin") {
+        // macOS
+        await execAsync(`open "${filePath}"`);
+      } else if (platform === "win32") {
+        // Windows
+        await execAsync(`start "" "${filePath}"`);
+      } else {
+        // Linux
+        await execAsync(`xdg-open "${filePath}"`);
+      }
+    } catch {
+      // The file is still saved, and the hook can't show errors anyway
+    }
+  }
+}
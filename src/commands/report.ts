@@ -0,0 +1,228 @@
+import chalk from "chalk";
+import boxen from "boxen";
+import ora from "ora";
+import { format } from "date-fns";
+import { UsageReader } from "../core/usage-reader.js";
+import { PricingRegistry } from "../core/pricing.js";
+import { ReportAggregator } from "../core/report-aggregator.js";
+import { ReceiptGenerator } from "../core/receipt-generator.js";
+import { HtmlRenderer } from "../core/html-renderer.js";
+import { ThermalPrinterRenderer } from "../core/thermal-printer.js";
+import { ConfigManager } from "../core/config-manager.js";
+import { PrintSpool } from "../core/print-spool.js";
+import { getPrinterProfile } from "../core/printer-profiles.js";
+import { LocationDetector } from "../utils/location.js";
+import type { ReportPeriod, ZReportData } from "../types/report.js";
+import type { ThemeName } from "../types/receipt-document.js";
+
+export type ReportOutputFormat = "html" | "console" | "printer" | "preview";
+
+export interface ReportOptions {
+  period?: ReportPeriod;
+  date?: string;
+  from?: string;
+  to?: string;
+  output?: string[];
+  location?: string;
+  printer?: string;
+  theme?: ThemeName;
+}
+
+export class ReportCommand {
+  private usageReader = new UsageReader();
+  private reportAggregator = new ReportAggregator();
+  private receiptGenerator = new ReceiptGenerator();
+  private htmlRenderer = new HtmlRenderer();
+  private thermalPrinter = new ThermalPrinterRenderer();
+  private configManager = new ConfigManager();
+  private locationDetector = new LocationDetector();
+  private printSpool = new PrintSpool();
+
+  async execute(options: ReportOptions): Promise<void> {
+    const spinner = ora("Generating Z-report...").start();
+
+    try {
+      const config = await this.configManager.loadConfig();
+      if (options.theme) {
+        config.theme = options.theme;
+      }
+      const period = options.period || "day";
+
+      const range = this.reportAggregator.getRange(
+        period,
+        options,
+        config.timezone,
+      );
+
+      spinner.text = "Reading sessions...";
+      const sessions = await this.usageReader.listSessions(
+        new PricingRegistry(config.pricing),
+      );
+
+      const location =
+        options.location || (await this.locationDetector.getLocation(config));
+
+      const report = this.reportAggregator.aggregate(
+        sessions,
+        period,
+        range,
+        location,
+        config,
+      );
+
+      spinner.succeed(
+        `Z-report generated (${report.sessionCount} session${report.sessionCount === 1 ? "" : "s"})`,
+      );
+
+      const outputFormats = [
+        ...new Set(options.output || ["console"]),
+      ] as ReportOutputFormat[];
+
+      const errors: Array<{ format: ReportOutputFormat; error: Error }> = [];
+
+      for (const format of outputFormats) {
+        try {
+          switch (format) {
+            case "printer":
+              await this.outputToPrinter(report, options, config, spinner);
+              break;
+            case "html":
+              await this.outputToHtml(report);
+              break;
+            case "console":
+              this.outputToConsole(report);
+              break;
+            case "preview":
+              await this.outputToPreview(report, spinner);
+              break;
+          }
+        } catch (err) {
+          const error = err instanceof Error ? err : new Error("Unknown error");
+          errors.push({ format, error });
+
+          if (outputFormats.length > 1) {
+            console.log(
+              chalk.yellow(`\n⚠ ${format} output failed: ${error.message}`),
+            );
+          }
+        }
+      }
+
+      if (errors.length === outputFormats.length) {
+        // All outputs failed — throw the first error
+        throw errors[0].error;
+      }
+    } catch (error) {
+      spinner.fail("Failed to generate Z-report");
+
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Send the Z-report to a thermal printer
+   */
+  private async outputToPrinter(
+    report: ZReportData,
+    options: ReportOptions,
+    config: { printer?: string },
+    spinner: ReturnType<typeof ora>,
+  ): Promise<void> {
+    const printerInterface = options.printer || config.printer;
+    if (!printerInterface) {
+      throw new Error(
+        "No printer specified. Use --printer <name> or set via: claude-receipts config --set printer=EPSON_TM_T88V",
+      );
+    }
+
+    spinner.start("Sending to printer...");
+    const buffer = await this.thermalPrinter.buildZReportJob(report);
+    const result = await this.printSpool.print(
+      buffer,
+      printerInterface,
+      getPrinterProfile(report.config.printerProfile),
+      {
+        description: `Z-report ${format(report.from, "yyyy-MM-dd")} to ${format(report.to, "yyyy-MM-dd")}`,
+      },
+    );
+
+    if (result.spooled) {
+      spinner.warn(
+        `Printer unavailable (${result.spooled.lastError}). Z-report spooled as job ${result.spooled.id}; run: claude-receipts spool flush`,
+      );
+    } else {
+      spinner.succeed(`Z-report sent to printer: ${printerInterface}`);
+    }
+    for (const warning of result.warnings) {
+      spinner.warn(warning.message);
+    }
+  }
+
+  /**
+   * Render the Z-report with the ESC/POS emulator under
+   * ~/.claude-receipts/previews
+   */
+  private async outputToPreview(
+    report: ZReportData,
+    spinner: ReturnType<typeof ora>,
+  ): Promise<void> {
+    const { join } = await import("path");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const pngPath = join(
+      home,
+      ".claude-receipts",
+      "previews",
+      `z-${report.period}-${format(report.from, "yyyy-MM-dd")}.png`,
+    );
+
+    spinner.start("Rendering printer preview...");
+    await this.thermalPrinter.printZReport(report, `emulator:${pngPath}`);
+    spinner.succeed(`Printer preview saved to: ${pngPath}`);
+    console.log(
+      chalk.gray(`  Text dump: ${pngPath.replace(/\.png$/, ".txt")}`),
+    );
+  }
+
+  /**
+   * Save the Z-report as HTML under ~/.claude-receipts/reports
+   */
+  private async outputToHtml(report: ZReportData): Promise<void> {
+    const { writeFile, mkdir } = await import("fs/promises");
+    const { join } = await import("path");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const outputDir = join(home, ".claude-receipts", "reports");
+    const fileName = `z-${report.period}-${format(report.from, "yyyy-MM-dd")}.html`;
+    const fullPath = join(outputDir, fileName);
+
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(
+      fullPath,
+      this.htmlRenderer.generateZReportHtml(report),
+      "utf-8",
+    );
+
+    console.log(chalk.green(`Z-report saved to: ${fullPath}`));
+  }
+
+  /**
+   * Display the Z-report in the console
+   */
+  private outputToConsole(report: ZReportData): void {
+    console.log(
+      boxen(this.receiptGenerator.generateZReport(report), {
+        padding: 1,
+        margin: 1,
+        borderStyle: "round",
+        borderColor: "cyan",
+      }),
+    );
+  }
+}
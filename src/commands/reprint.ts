@@ -0,0 +1,127 @@
+import chalk from "chalk";
+import ora from "ora";
+import { ReceiptGenerator } from "../core/receipt-generator.js";
+import { ConfigManager } from "../core/config-manager.js";
+import { ReceiptLedger } from "../core/receipt-ledger.js";
+import { formatReceiptNumber } from "../utils/formatting.js";
+import { ReceiptOutputs } from "./receipt-outputs.js";
+import type { ReceiptOutputFormat } from "./receipt-outputs.js";
+import type { ReceiptData } from "../core/receipt-generator.js";
+import type { PdfPageSize } from "../types/config.js";
+import type { LedgerEntry } from "../types/ledger.js";
+
+export interface ReprintOptions {
+  output?: string[];
+  printer?: string;
+  stamp?: boolean;
+  // Shared copy of the receipt, linked from the printed QR code
+  shareUrl?: string;
+  // Size multiplier for SVG and PNG images
+  scale?: number;
+  pageSize?: PdfPageSize;
+  // Write markdown or json output here instead of stdout
+  outFile?: string;
+}
+
+export class ReprintCommand {
+  private receiptGenerator = new ReceiptGenerator();
+  private configManager = new ConfigManager();
+  private ledger = new ReceiptLedger();
+  private outputs = new ReceiptOutputs();
+
+  async execute(query: string, options: ReprintOptions): Promise<void> {
+    const spinner = ora("Finding receipt...").start();
+
+    try {
+      const entry = await this.findEntry(query);
+      if (!entry) {
+        throw new Error(
+          `No receipt found for "${query}". Run "claude-receipts history" to see receipt numbers.`,
+        );
+      }
+
+      if (options.shareUrl && !/^https?:\/\/\S+$/.test(options.shareUrl)) {
+        throw new Error(
+          `Invalid share URL: ${options.shareUrl}. Use the http(s) link from "Share Publicly" on the HTML receipt`,
+        );
+      }
+      const shareUrl = options.shareUrl || entry.shareUrl;
+
+      const outputFormats = [
+        ...new Set(options.output || ["console"]),
+      ] as ReceiptOutputFormat[];
+      this.outputs.checkOutputs(outputFormats, options.outFile);
+
+      if (!entry.receipt) {
+        throw new Error(
+          `Receipt #${formatReceiptNumber(entry.receiptNumber)} was recorded before full receipts were stored, so it can't be reprinted. Generate a new receipt instead: claude-receipts generate --session ${entry.sessionId}`,
+        );
+      }
+
+      const receiptData: ReceiptData = {
+        ...this.ledger.restoreSnapshot(entry.receipt),
+        receiptNumber: entry.receiptNumber,
+        duplicate: options.stamp !== false,
+      };
+      const receipt = this.receiptGenerator.generateReceipt(receiptData);
+
+      spinner.succeed(
+        `Reprinting receipt #${formatReceiptNumber(entry.receiptNumber)} (${entry.sessionSlug})`,
+      );
+
+      const home = process.env.HOME || process.env.USERPROFILE || "";
+      const name = `receipt-${formatReceiptNumber(entry.receiptNumber)}`;
+      const { errors } = await this.outputs.write(
+        receiptData,
+        receipt,
+        outputFormats,
+        {
+          basePath: `${home}/.claude-receipts/reprints/${name}`,
+          previewPath: `${home}/.claude-receipts/previews/${name}.png`,
+          config: await this.configManager.loadConfig(),
+          printer: options.printer,
+          printDescription: `Reprint of receipt #${formatReceiptNumber(entry.receiptNumber)}`,
+          shareUrl,
+          scale: options.scale,
+          pageSize: options.pageSize,
+          outFile: options.outFile,
+        },
+        spinner,
+      );
+
+      if (errors.length === outputFormats.length) {
+        // All outputs failed — throw the first error
+        throw errors[0].error;
+      }
+
+      await this.ledger.update(entry.receiptNumber, {
+        reprints: [...(entry.reprints || []), new Date().toISOString()],
+        ...(options.shareUrl && { shareUrl: options.shareUrl }),
+      });
+    } catch (error) {
+      spinner.fail("Failed to reprint receipt");
+
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Look up a receipt by number (e.g. "42", "#000042"), or the most recent
+   * receipt for a session slug or session ID prefix
+   */
+  private async findEntry(query: string): Promise<LedgerEntry | undefined> {
+    const number = query.replace(/^#/, "");
+    if (/^\d+$/.test(number)) {
+      const entry = await this.ledger.find(parseInt(number, 10));
+      if (entry) return entry;
+    }
+
+    return this.ledger.findLatestByName(query);
+  }
+}
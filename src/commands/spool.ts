@@ -0,0 +1,168 @@
+import chalk from "chalk";
+import ora from "ora";
+import { formatInTimeZone } from "date-fns-tz";
+import { PrintSpool } from "../core/print-spool.js";
+import { ConfigManager } from "../core/config-manager.js";
+import { fitColumn } from "../utils/formatting.js";
+import type { SpoolJob } from "../types/spool.js";
+
+export interface SpoolListOptions {
+  json?: boolean;
+}
+
+export interface SpoolDropOptions {
+  all?: boolean;
+}
+
+export class SpoolCommand {
+  private printSpool = new PrintSpool();
+  private configManager = new ConfigManager();
+
+  /**
+   * Show the jobs waiting in the print spool
+   */
+  async list(options: SpoolListOptions): Promise<void> {
+    try {
+      const jobs = await this.printSpool.list();
+
+      if (options.json) {
+        console.log(JSON.stringify(jobs, null, 2));
+        return;
+      }
+
+      if (jobs.length === 0) {
+        console.log(chalk.green("\nPrint spool is empty\n"));
+        return;
+      }
+
+      const config = await this.configManager.loadConfig();
+      const tz =
+        config.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const formatDate = (iso: string) =>
+        formatInTimeZone(new Date(iso), tz, "yyyy-MM-dd HH:mm");
+
+      console.log(chalk.cyan.bold("\nPrint Spool\n"));
+      console.log(
+        chalk.gray(
+          `  ${"ID".padEnd(8)}  ${"SPOOLED".padEnd(16)}  ${"PRINTER".padEnd(24)}  ${"JOB".padEnd(32)}  ${"TRIES".padStart(5)}  NEXT TRY`,
+        ),
+      );
+
+      for (const job of jobs) {
+        const next =
+          job.state === "failed"
+            ? chalk.red("gave up")
+            : formatDate(job.nextAttemptAt || job.createdAt);
+
+        console.log(
+          `  ${chalk.bold(job.id)}  ${formatDate(job.createdAt)}  ${fitColumn(job.printer, 24)}  ${fitColumn(job.description, 32)}  ${String(job.attempts).padStart(5)}  ${next}`,
+        );
+        if (job.lastError) {
+          console.log(chalk.gray(`            ${job.lastError}`));
+        }
+      }
+
+      console.log(
+        chalk.cyan(
+          "\n  Tip: claude-receipts spool flush to retry now, or spool drop <id> to cancel a job\n",
+        ),
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Retry every spooled job now, ignoring backoff. Exits non-zero if any
+   * job is still stuck.
+   */
+  async flush(): Promise<void> {
+    const spinner = ora("Retrying spooled jobs...").start();
+
+    try {
+      const jobs = await this.printSpool.list();
+      if (jobs.length === 0) {
+        spinner.succeed("Print spool is empty");
+        return;
+      }
+
+      const result = await this.printSpool.flush({ force: true });
+      spinner.stop();
+
+      for (const job of result.printed) {
+        console.log(chalk.green(`  ✓ ${job.id}  ${job.description}`));
+      }
+      for (const job of result.failed) {
+        console.log(
+          chalk.red(`  ✗ ${job.id}  ${job.description}: ${job.lastError}`),
+        );
+      }
+      for (const warning of result.warnings) {
+        console.log(chalk.yellow(`  ⚠ ${warning.message}`));
+      }
+
+      const waiting = (await this.printSpool.list()).length;
+      if (waiting === 0) {
+        spinner.succeed(
+          `Printed ${result.printed.length} spooled job${result.printed.length === 1 ? "" : "s"}`,
+        );
+      } else {
+        spinner.fail(
+          `${waiting} job${waiting === 1 ? "" : "s"} still waiting in the print spool`,
+        );
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail("Failed to flush print spool");
+
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Cancel spooled jobs without printing them
+   */
+  async drop(ids: string[], options: SpoolDropOptions): Promise<void> {
+    try {
+      if (options.all) {
+        ids = (await this.printSpool.list()).map((job) => job.id);
+      } else if (ids.length === 0) {
+        throw new Error(
+          "Specify job IDs to drop (see: claude-receipts spool list), or --all",
+        );
+      }
+
+      const dropped: SpoolJob[] = [];
+      for (const id of ids) {
+        dropped.push(await this.printSpool.drop(id));
+      }
+
+      if (dropped.length === 0) {
+        console.log(chalk.green("\nPrint spool is empty\n"));
+        return;
+      }
+
+      for (const job of dropped) {
+        console.log(chalk.green(`✓ Dropped ${job.id}  ${job.description}`));
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(`Error: ${error.message}`));
+      } else {
+        console.error(chalk.red("An unknown error occurred"));
+      }
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import type {
+  CodePage,
+  CodePageName,
+  CommandSetName,
+} from "../types/printer.js";
+import { getOwn } from "../utils/lookup.js";
+
+// Unicode characters for bytes 0x80-0xFF of each table. U+FFFD marks
+// bytes with no character.
+
+const CP437: CodePage = {
+  name: "cp437",
+  displayName: "PC437 (USA, standard Europe)",
+  escpos: 0,
+  star: 1,
+  high:
+    "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ" +
+    "áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+    "└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀" +
+    "αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0",
+};
+
+const CP850: CodePage = {
+  name: "cp850",
+  displayName: "PC850 (Multilingual Latin-1)",
+  escpos: 2,
+  high:
+    "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ" +
+    "áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐" +
+    "└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀" +
+    "ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0",
+};
+
+const CP852: CodePage = {
+  name: "cp852",
+  displayName: "PC852 (Central European)",
+  escpos: 18,
+  star: 5,
+  high:
+    "ÇüéâäůćçłëŐőîŹÄĆÉĹĺôöĽľŚśÖÜŤťŁ×č" +
+    "áíóúĄąŽžĘę¬źČş«»░▒▓│┤ÁÂĚŞ╣║╗╝Żż┐" +
+    "└┴┬├─┼Ăă╚╔╩╦╠═╬¤đĐĎËďŇÍÎě┘┌█▄ŢŮ▀" +
+    "ÓßÔŃńňŠšŔÚŕŰýÝţ´\u00ad˝˛ˇ˘§÷¸°¨˙űŘř■\u00a0",
+};
+
+const CP858: CodePage = {
+  name: "cp858",
+  displayName: "PC858 (Latin-1 with euro)",
+  escpos: 19,
+  star: 4,
+  high:
+    "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ" +
+    "áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐" +
+    "└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈ€ÍÎÏ┘┌█▄¦Ì▀" +
+    "ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0",
+};
+
+const CP866: CodePage = {
+  name: "cp866",
+  displayName: "PC866 (Cyrillic)",
+  escpos: 17,
+  star: 10,
+  high:
+    "АБВГДЕЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ" +
+    "абвгдежзийклмноп░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+    "└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀" +
+    "рстуфхцчшщъыьэюяЁёЄєЇїЎў°∙·√№¤■\u00a0",
+};
+
+const WPC1252: CodePage = {
+  name: "cp1252",
+  displayName: "Windows-1252 (Western European)",
+  escpos: 16,
+  star: 32,
+  high:
+    "€\ufffd‚ƒ„…†‡ˆ‰Š‹Œ\ufffdŽ\ufffd\ufffd‘’“”•–—˜™š›œ\ufffdžŸ" +
+    "\u00a0¡¢£¤¥¦§¨©ª«¬\u00ad®¯°±²³´µ¶·¸¹º»¼½¾¿" +
+    "ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞß" +
+    "àáâãäåæçèéêëìíîïðñòóôõö÷øùúûüýþÿ",
+};
+
+export const CODE_PAGES: Record<CodePageName, CodePage> = {
+  cp437: CP437,
+  cp850: CP850,
+  cp852: CP852,
+  cp858: CP858,
+  cp866: CP866,
+  cp1252: WPC1252,
+};
+
+export const DEFAULT_CODE_PAGE: CodePageName = "cp437";
+
+/**
+ * Get a code page by name (defaults to CP437)
+ */
+export function getCodePage(name: string = DEFAULT_CODE_PAGE): CodePage {
+  const codePage = getOwn(CODE_PAGES, name);
+  if (!codePage) {
+    throw new Error(
+      `Unknown code page: ${name}. Valid code pages: ${Object.keys(CODE_PAGES).join(", ")}`,
+    );
+  }
+  return codePage;
+}
+
+/**
+ * Find the code page a printer family selects with table number n
+ */
+export function findCodePage(
+  commandSet: CommandSetName,
+  n: number,
+): CodePage | undefined {
+  return Object.values(CODE_PAGES).find((page) =>
+    commandSet === "star-line" ? page.star === n : page.escpos === n,
+  );
+}
@@ -1,9 +1,14 @@
 import { execa } from "execa";
+import { UsageReader } from "./usage-reader.js";
+import { PricingRegistry } from "./pricing.js";
 import type {
   CcusageResponse,
   CcusageSession,
   ModelBreakdown,
 } from "../types/ccusage.js";
+import type { ReceiptConfig } from "../types/config.js";
+import type { UsageEntry } from "../types/usage.js";
+import { DEFAULT_CONFIG } from "../types/config.js";
 
 interface CcusageEntry {
   timestamp: string;
@@ -23,12 +28,160 @@ interface CcusageByIdResponse {
 }
 
 export class DataFetcher {
+  private usageReader = new UsageReader();
+
   /**
    * Fetch accurate session data by exact session ID.
-   * Uses `ccusage session --id` which returns the true total cost
-   * (unlike --breakdown which splits into sub-session slices).
+   * Reads the session transcript directly unless `usageSource` is
+   * "ccusage"; in "auto" mode falls back to ccusage when no transcript
+   * is found.
+   */
+  async fetchSessionById(
+    sessionId: string,
+    config: ReceiptConfig = DEFAULT_CONFIG,
+  ): Promise<CcusageSession> {
+    const source = config.usageSource || "auto";
+    const pricing = new PricingRegistry(config.pricing);
+
+    if (source !== "ccusage") {
+      const session = await this.usageReader.readSession(sessionId, pricing);
+      if (session) {
+        if (session.totalTokens === 0) {
+          throw new Error(`No usage recorded for session ${sessionId}`);
+        }
+        return session;
+      }
+
+      if (source === "native") {
+        throw new Error(
+          `No transcript found for session ${sessionId} in ${this.usageReader.getProjectsDir()}`,
+        );
+      }
+    }
+
+    return this.fetchSessionByIdFromCcusage(sessionId, pricing);
+  }
+
+  /**
+   * Discover a session by query, then fetch accurate data for it.
+   * In "auto" mode, sessions not found in the transcripts are looked up
+   * with ccusage.
+   *
+   * @param sessionQuery Optional filter — matches against:
+   *   1. Session UUID (or prefix, e.g. "5ede5ccb")
+   *   2. Session name (e.g. "subagents") — picks the most recent match
+   *   If omitted, returns the most recent session.
    */
-  async fetchSessionById(sessionId: string): Promise<CcusageSession> {
+  async fetchSessionData(
+    sessionQuery?: string,
+    config: ReceiptConfig = DEFAULT_CONFIG,
+  ): Promise<CcusageSession> {
+    const source = config.usageSource || "auto";
+    const pricing = new PricingRegistry(config.pricing);
+    let nativeError: Error | undefined;
+
+    if (source !== "ccusage") {
+      try {
+        const sessions = await this.usageReader.listSessions(pricing);
+
+        if (sessions.length > 0) {
+          return this.matchSession(sessions, sessionQuery);
+        }
+
+        if (source === "native") {
+          throw new Error(
+            `No transcripts found in ${this.usageReader.getProjectsDir()}`,
+          );
+        }
+      } catch (error) {
+        if (!(error instanceof Error)) {
+          throw error;
+        }
+        if (source === "native") {
+          throw new Error(`Failed to fetch session data: ${error.message}`);
+        }
+        nativeError = error;
+      }
+    }
+
+    try {
+      return await this.fetchSessionDataFromCcusage(pricing, sessionQuery);
+    } catch (error) {
+      // Both failed: the transcript error is more useful, as it lists the
+      // sessions that were found
+      if (nativeError) {
+        throw new Error(`Failed to fetch session data: ${nativeError.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the most recent session ID
+   */
+  async getMostRecentSessionId(): Promise<string> {
+    const sessionData = await this.fetchSessionData();
+    return sessionData.sessionId;
+  }
+
+  /**
+   * Pick a session from a list by UUID/prefix or session name
+   */
+  private matchSession(
+    sessions: Array<CcusageSession & { slug?: string }>,
+    sessionQuery?: string,
+  ): CcusageSession {
+    if (!sessionQuery) {
+      return sessions[0];
+    }
+
+    const match =
+      sessions.find((s) => {
+        const uuid = s.projectPath?.split("/").pop() || s.sessionId;
+        return uuid === sessionQuery || uuid.startsWith(sessionQuery);
+      }) ||
+      sessions.find(
+        (s) => s.sessionId === sessionQuery || s.slug === sessionQuery,
+      );
+
+    if (!match) {
+      throw new Error(
+        `No session matching "${sessionQuery}". Available sessions:\n${this.formatAvailable(sessions)}\nRun "claude-receipts history" to see all sessions.`,
+      );
+    }
+
+    return match;
+  }
+
+  /**
+   * Format the first ten sessions for "not found" errors
+   */
+  private formatAvailable(
+    sessions: Array<CcusageSession & { slug?: string }>,
+  ): string {
+    return sessions
+      .slice(0, 10)
+      .map((s) => {
+        const uuid = s.projectPath?.split("/").pop() || s.sessionId;
+        const short = uuid.slice(0, 8);
+        // Native sessions are keyed by UUID, so show the project instead
+        const name =
+          s.slug ||
+          (s.sessionId === uuid ? s.projectPath?.split("/")[0] : undefined) ||
+          s.sessionId;
+        return `  ${short}  ${name.padEnd(20)}  $${s.totalCost.toFixed(2)}`;
+      })
+      .join("\n");
+  }
+
+  /**
+   * Fetch session data via `ccusage session --id`, which returns the true
+   * total cost (unlike --breakdown which splits into sub-session slices).
+   */
+  private async fetchSessionByIdFromCcusage(
+    sessionId: string,
+    pricing: PricingRegistry,
+  ): Promise<CcusageSession> {
     const { stdout } = await execa(
       "npx",
       ["ccusage", "session", "--id", sessionId, "--json"],
@@ -37,96 +190,54 @@ export class DataFetcher {
 
     const data: CcusageByIdResponse = JSON.parse(stdout);
 
-    // Aggregate entries by model
-    const modelMap = new Map<
-      string,
-      {
-        inputTokens: number;
-        outputTokens: number;
-        cacheCreationTokens: number;
-        cacheReadTokens: number;
-        totalTokens: number;
-      }
-    >();
-
-    let totalInput = 0;
-    let totalOutput = 0;
-    let totalCacheCreation = 0;
-    let totalCacheRead = 0;
-
-    for (const entry of data.entries) {
+    // Re-price entries by token type rather than trusting a single total
+    const entries: UsageEntry[] = data.entries
       // Skip synthetic entries (no real model)
-      if (entry.model === "<synthetic>") continue;
-
-      const input = entry.inputTokens || 0;
-      const output = entry.outputTokens || 0;
-      const cacheCreation = entry.cacheCreationTokens || 0;
-      const cacheRead = entry.cacheReadTokens || 0;
-
-      totalInput += input;
-      totalOutput += output;
-      totalCacheCreation += cacheCreation;
-      totalCacheRead += cacheRead;
-
-      const existing = modelMap.get(entry.model) || {
-        inputTokens: 0,
-        outputTokens: 0,
-        cacheCreationTokens: 0,
-        cacheReadTokens: 0,
-        totalTokens: 0,
-      };
-
-      existing.inputTokens += input;
-      existing.outputTokens += output;
-      existing.cacheCreationTokens += cacheCreation;
-      existing.cacheReadTokens += cacheRead;
-      existing.totalTokens += input + output + cacheCreation + cacheRead;
-      modelMap.set(entry.model, existing);
-    }
+      .filter((entry) => entry.model !== "<synthetic>")
+      .map((entry) => ({
+        timestamp: entry.timestamp,
+        model: entry.model,
+        inputTokens: entry.inputTokens || 0,
+        outputTokens: entry.outputTokens || 0,
+        cacheCreationTokens: entry.cacheCreationTokens || 0,
+        cacheReadTokens: entry.cacheReadTokens || 0,
+        costUSD: entry.costUSD,
+      }));
 
-    // Distribute totalCost across models proportionally by token count
-    const totalTokensAcrossModels = [...modelMap.values()].reduce(
-      (sum, m) => sum + m.totalTokens,
-      0,
-    );
+    const modelBreakdowns = pricing.buildBreakdowns(entries);
+    const sum = (pick: (m: ModelBreakdown) => number) =>
+      modelBreakdowns.reduce((total, m) => total + pick(m), 0);
 
-    const modelBreakdowns: ModelBreakdown[] = [...modelMap.entries()].map(
-      ([modelName, stats]) => ({
-        modelName,
-        inputTokens: stats.inputTokens,
-        outputTokens: stats.outputTokens,
-        cacheCreationTokens: stats.cacheCreationTokens,
-        cacheReadTokens: stats.cacheReadTokens,
-        cost:
-          totalTokensAcrossModels > 0
-            ? data.totalCost * (stats.totalTokens / totalTokensAcrossModels)
-            : 0,
-      }),
-    );
+    // Totals come from the same entries, so synthetic entries skipped above
+    // aren't counted in ccusage's own total
+    const inputTokens = sum((m) => m.inputTokens);
+    const outputTokens = sum((m) => m.outputTokens);
+    const cacheCreationTokens = sum((m) => m.cacheCreationTokens || 0);
+    const cacheReadTokens = sum((m) => m.cacheReadTokens || 0);
 
     return {
       sessionId: data.sessionId,
-      inputTokens: totalInput,
-      outputTokens: totalOutput,
-      cacheCreationTokens: totalCacheCreation,
-      cacheReadTokens: totalCacheRead,
-      totalTokens: data.totalTokens,
-      totalCost: data.totalCost,
-      modelsUsed: [...modelMap.keys()],
+      inputTokens,
+      outputTokens,
+      cacheCreationTokens,
+      cacheReadTokens,
+      totalTokens:
+        inputTokens + outputTokens + cacheCreationTokens + cacheReadTokens,
+      totalCost: sum((m) => m.cost),
+      modelsUsed: modelBreakdowns.map((m) => m.modelName),
       modelBreakdowns,
+      pricingVersion: pricing.getVersion(),
     };
   }
 
   /**
    * Discover a session from the ccusage breakdown list, then fetch accurate
    * data via --id.
-   *
-   * @param sessionQuery Optional filter — matches against:
-   *   1. Project path UUID (or prefix, e.g. "5ede5ccb")
-   *   2. Session name (e.g. "subagents") — picks the most recent match
-   *   If omitted, returns the first session with a valid project path.
    */
-  async fetchSessionData(sessionQuery?: string): Promise<CcusageSession> {
+  private async fetchSessionDataFromCcusage(
+    pricing: PricingRegistry,
+    sessionQuery?: string,
+  ): Promise<CcusageSession> {
     try {
       const args = ["session", "--json", "--breakdown"];
 
@@ -150,44 +261,17 @@ export class DataFetcher {
         );
       }
 
-      let match: CcusageSession | undefined;
-
-      if (!sessionQuery) {
-        match = validSessions[0];
-      } else {
-        // Try matching by project path UUID (exact or prefix)
-        match = validSessions.find((s) => {
-          const uuid = s.projectPath!.split("/").pop() || "";
-          return uuid === sessionQuery || uuid.startsWith(sessionQuery);
-        });
-
-        // Try matching by session name (returns first/most recent match)
-        if (!match) {
-          match = validSessions.find((s) => s.sessionId === sessionQuery);
-        }
-      }
-
-      if (!match) {
-        const available = validSessions
-          .slice(0, 10)
-          .map((s) => {
-            const uuid = s.projectPath!.split("/").pop() || "";
-            const short = uuid.slice(0, 8);
-            return `  ${short}  ${s.sessionId.padEnd(20)}  $${s.totalCost.toFixed(2)}`;
-          })
-          .join("\n");
-
-        throw new Error(
-          `No session matching "${sessionQuery}". Available sessions:\n${available}`,
-        );
-      }
+      const match = this.matchSession(validSessions, sessionQuery);
 
       // Extract the full UUID from the projectPath and re-fetch via --id
       // for accurate totals (--breakdown only shows sub-session slices)
       const fullUuid = match.projectPath!.split("/").pop();
       if (fullUuid) {
         try {
-          const accurate = await this.fetchSessionById(fullUuid);
+          const accurate = await this.fetchSessionByIdFromCcusage(
+            fullUuid,
+            pricing,
+          );
           // Preserve projectPath from the discovery result
           accurate.projectPath = match.projectPath;
           return accurate;
@@ -205,12 +289,4 @@ export class DataFetcher {
       throw error;
     }
   }
-
-  /**
-   * Get the most recent session ID
-   */
-  async getMostRecentSessionId(): Promise<string> {
-    const sessionData = await this.fetchSessionData();
-    return sessionData.sessionId;
-  }
 }
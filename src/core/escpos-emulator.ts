@@ -0,0 +1,844 @@
+import QRCode from "qrcode";
+import { getGlyph, GLYPH_HEIGHT, GLYPH_WIDTH } from "../utils/bitmap-font.js";
+import { code128Widths, encodeCode128 } from "../utils/barcode.js";
+import { decodeByte } from "../utils/text-encoding.js";
+import { encodeGreyscalePng } from "../utils/png.js";
+import { findCodePage, getCodePage } from "./code-pages.js";
+import type { CodePage, CommandSetName } from "../types/printer.js";
+
+// Default TM-T88V geometry: 80mm paper, 512 printable dots, Font A 12x24
+const DEFAULT_PRINT_WIDTH = 512;
+const PAPER_PADDING = 16;
+const CELL_WIDTH = 12;
+const CELL_HEIGHT = 24;
+const LINE_SPACING = 6;
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+const RS = 0x1e;
+
+export interface EmulatorResult {
+  png: Buffer;
+  text: string;
+  width: number;
+  height: number;
+}
+
+type Alignment = "left" | "center" | "right";
+
+// Where a barcode's human-readable text goes (GS H n)
+const BARCODE_TEXT_POSITIONS = ["off", "above", "below", "above and below"];
+
+interface PrintedChar {
+  // Unicode character, decoded with the code page selected at the time
+  char: string;
+  bold: boolean;
+  widthScale: number;
+  heightScale: number;
+}
+
+/** Growable 1-bit canvas, stored as greyscale (255 = paper, 0 = ink). */
+class Canvas {
+  private rows: Uint8Array[] = [];
+
+  constructor(readonly width: number) {}
+
+  get height(): number {
+    return this.rows.length;
+  }
+
+  /** Make sure the canvas is at least this tall. */
+  ensure(height: number): void {
+    while (this.rows.length < height) {
+      this.rows.push(new Uint8Array(this.width).fill(255));
+    }
+  }
+
+  /** Fill a rectangle with ink, clipped to the canvas width. */
+  fillRect(x: number, y: number, w: number, h: number): void {
+    this.ensure(y + h);
+    const x0 = Math.max(0, Math.round(x));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    for (let row = Math.max(0, y); row < y + h; row++) {
+      this.rows[row].fill(0, x0, Math.max(x0, x1));
+    }
+  }
+
+  /** Encode the canvas as a PNG. */
+  toPng(): Buffer {
+    const pixels = new Uint8Array(this.width * this.height);
+    this.rows.forEach((row, y) => pixels.set(row, y * this.width));
+    return encodeGreyscalePng(this.width, this.height, pixels);
+  }
+}
+
+/**
+ * Interprets the ESC/POS (or Star Line Mode) commands emitted by the thermal
+ * printer renderer and draws what the printer would print, plus an annotated text dump of the
+ * printed lines and the commands between them.
+ */
+export class EscPosEmulator {
+  private canvas!: Canvas;
+  private dump!: string[];
+  private y!: number;
+  private line!: PrintedChar[];
+
+  // Printer state (reset by ESC @)
+  private leftMargin!: number;
+  private alignment!: Alignment;
+  private bold!: boolean;
+  private emphasized!: boolean;
+  private widthScale!: number;
+  private heightScale!: number;
+  private qr!: { data?: Buffer; cellSize: number; ecc: "L" | "M" | "Q" | "H" };
+  private barcode!: { height: number; moduleWidth: number; text: number };
+  private codePage!: CodePage;
+
+  /**
+   * @param printWidth Printable width of the emulated head in dots (512
+   *   for a TM-T88V, 576 for most 80mm printers, 384 for 58mm)
+   * @param commandSet Command language the buffer is written in
+   */
+  constructor(
+    private printWidth: number = DEFAULT_PRINT_WIDTH,
+    private commandSet: CommandSetName = "escpos",
+  ) {}
+
+  /**
+   * Render a printer buffer to a PNG image and an annotated text dump
+   */
+  render(buffer: Buffer): EmulatorResult {
+    this.canvas = new Canvas(this.printWidth + PAPER_PADDING * 2);
+    this.dump = [];
+    this.y = PAPER_PADDING;
+    this.line = [];
+    this.reset();
+
+    let i = 0;
+    while (i < buffer.length) {
+      const byte = buffer[i];
+
+      if (byte === ESC && this.commandSet === "star-line") {
+        i = this.handleStarEsc(buffer, i);
+      } else if (byte === ESC) {
+        i = this.handleEsc(buffer, i);
+      } else if (byte === GS && this.commandSet === "escpos") {
+        i = this.handleGs(buffer, i);
+      } else if (byte === LF) {
+        this.flushLine(true);
+        i++;
+      } else {
+        if (byte >= 0x20) {
+          this.line.push({
+            char: decodeByte(byte, this.codePage),
+            bold: this.bold || this.emphasized,
+            widthScale: this.widthScale,
+            heightScale: this.heightScale,
+          });
+        }
+        i++;
+      }
+    }
+
+    // Text left without a trailing LF stays in the printer's buffer
+    if (this.line.length > 0) {
+      this.annotate(`unprinted text: ${this.toText(this.line)}`);
+    }
+
+    this.canvas.ensure(this.y + PAPER_PADDING);
+
+    return {
+      png: this.canvas.toPng(),
+      text: this.dump.join("\n") + "\n",
+      width: this.canvas.width,
+      height: this.canvas.height,
+    };
+  }
+
+  /**
+   * Restore power-on defaults
+   */
+  private reset(): void {
+    this.leftMargin = 0;
+    this.alignment = "left";
+    this.bold = false;
+    this.emphasized = false;
+    this.widthScale = 1;
+    this.heightScale = 1;
+    this.qr = { cellSize: 3, ecc: "L" };
+    this.barcode = { height: 162, moduleWidth: 3, text: 0 };
+    this.codePage = getCodePage(); // CP437 at power on
+  }
+
+  /**
+   * Handle an ESC command, returning the index after it
+   */
+  private handleEsc(buffer: Buffer, i: number): number {
+    const cmd = buffer[i + 1];
+    const n = buffer[i + 2];
+
+    switch (cmd) {
+      case 0x40: // ESC @
+        this.flushLine(false);
+        this.reset();
+        this.annotate("init");
+        return i + 2;
+      case 0x45: // ESC E n
+        this.bold = (n & 1) === 1;
+        this.annotate(`bold ${this.bold ? "on" : "off"}`);
+        return i + 3;
+      case 0x61: {
+        // ESC a n
+        const modes: Alignment[] = ["left", "center", "right"];
+        this.alignment = modes[n % 48] || "left";
+        this.annotate(`align ${this.alignment}`);
+        return i + 3;
+      }
+      case 0x21: // ESC ! n
+        this.emphasized = (n & 0x08) !== 0;
+        this.heightScale = n & 0x10 ? 2 : 1;
+        this.widthScale = n & 0x20 ? 2 : 1;
+        this.annotate(`print mode 0x${this.hex(n)} (${this.describeMode()})`);
+        return i + 3;
+      case 0x64: // ESC d n
+        this.flushLine(false);
+        this.y += n * (CELL_HEIGHT + LINE_SPACING);
+        this.annotate(`feed ${n} lines`);
+        return i + 3;
+      case 0x4a: // ESC J n
+        this.flushLine(false);
+        this.y += n;
+        this.annotate(`feed ${n} dots`);
+        return i + 3;
+      case 0x74: // ESC t n
+        this.selectCodePage(n);
+        return i + 3;
+      default:
+        this.annotate(`unknown command ESC 0x${this.hex(cmd)}`);
+        return i + 2;
+    }
+  }
+
+  /**
+   * Handle a GS command, returning the index after it
+   */
+  private handleGs(buffer: Buffer, i: number): number {
+    const cmd = buffer[i + 1];
+
+    switch (cmd) {
+      case 0x4c: // GS L nL nH
+        this.leftMargin = buffer[i + 2] + buffer[i + 3] * 256;
+        this.annotate(`left margin ${this.leftMargin} dots`);
+        return i + 4;
+      case 0x21: {
+        // GS ! n
+        const n = buffer[i + 2];
+        this.widthScale = (n >> 4) + 1;
+        this.heightScale = (n & 0x0f) + 1;
+        this.annotate(`character size ${this.widthScale}x${this.heightScale}`);
+        return i + 3;
+      }
+      case 0x56: {
+        // GS V m [n]
+        const m = buffer[i + 2];
+        const hasFeed = m === 0x41 || m === 0x42;
+        const partial = m === 0x01 || m === 0x31 || m === 0x42;
+        this.flushLine(false);
+        if (hasFeed) {
+          this.y += buffer[i + 3];
+        }
+        this.drawCut();
+        this.annotate(`${partial ? "partial" : "full"} cut`);
+        return i + (hasFeed ? 4 : 3);
+      }
+      case 0x76: {
+        // GS v 0 m xL xH yL yH d1...dk
+        if (buffer[i + 2] !== 0x30) {
+          this.annotate(`unknown command GS v 0x${this.hex(buffer[i + 2])}`);
+          return i + 3;
+        }
+        const m = buffer[i + 3];
+        const bytesPerRow = buffer[i + 4] + buffer[i + 5] * 256;
+        const rows = buffer[i + 6] + buffer[i + 7] * 256;
+        const data = buffer.subarray(i + 8, i + 8 + bytesPerRow * rows);
+        this.printRaster(data, bytesPerRow, rows, m);
+        return i + 8 + bytesPerRow * rows;
+      }
+      case 0x28: {
+        // GS ( k pL pH cn fn [params]
+        if (buffer[i + 2] !== 0x6b) {
+          this.annotate(`unknown command GS ( 0x${this.hex(buffer[i + 2])}`);
+          return i + 3;
+        }
+        const length = buffer[i + 3] + buffer[i + 4] * 256;
+        const params = buffer.subarray(i + 5, i + 5 + length);
+        this.handleQr(params);
+        return i + 5 + length;
+      }
+      case 0x68: // GS h n
+        this.barcode.height = buffer[i + 2];
+        this.annotate(`barcode height ${this.barcode.height} dots`);
+        return i + 3;
+      case 0x77: // GS w n
+        this.barcode.moduleWidth = buffer[i + 2];
+        this.annotate(`barcode module width ${this.barcode.moduleWidth}`);
+        return i + 3;
+      case 0x48: // GS H n
+        this.barcode.text = buffer[i + 2] % 48;
+        this.annotate(
+          `barcode text ${BARCODE_TEXT_POSITIONS[this.barcode.text] || "off"}`,
+        );
+        return i + 3;
+      case 0x66: // GS f n
+        this.annotate(`barcode text font ${buffer[i + 2] % 48 ? "B" : "A"}`);
+        return i + 3;
+      case 0x6b: {
+        // GS k m n d1...dn (function B; function A ends with NUL)
+        const m = buffer[i + 2];
+        if (m <= 6) {
+          const end = buffer.indexOf(0, i + 3);
+          this.annotate(`unsupported barcode type ${m}`);
+          return end < 0 ? buffer.length : end + 1;
+        }
+        const length = buffer[i + 3];
+        const data = buffer.subarray(i + 4, i + 4 + length);
+        if (m === 73) {
+          this.printBarcode(this.decodeCode128(data), {
+            ...this.barcode,
+            above: (this.barcode.text & 1) !== 0,
+            below: (this.barcode.text & 2) !== 0,
+          });
+        } else {
+          this.annotate(`unsupported barcode type ${m}`);
+        }
+        return i + 4 + length;
+      }
+      default:
+        this.annotate(`unknown command GS 0x${this.hex(cmd)}`);
+        return i + 2;
+    }
+  }
+
+  /**
+   * Handle a Star Line Mode ESC command, returning the index after it
+   */
+  private handleStarEsc(buffer: Buffer, i: number): number {
+    const cmd = buffer[i + 1];
+    const n = buffer[i + 2];
+
+    switch (cmd) {
+      case 0x40: // ESC @
+        this.flushLine(false);
+        this.reset();
+        this.annotate("init");
+        return i + 2;
+      case 0x45: // ESC E
+      case 0x46: // ESC F
+        this.bold = cmd === 0x45;
+        this.annotate(`bold ${this.bold ? "on" : "off"}`);
+        return i + 2;
+      case 0x69: // ESC i n1 n2
+        this.heightScale = n + 1;
+        this.widthScale = buffer[i + 3] + 1;
+        this.annotate(`character size ${this.widthScale}x${this.heightScale}`);
+        return i + 4;
+      case 0x6c: // ESC l n
+        this.leftMargin = n * CELL_WIDTH;
+        this.annotate(`left margin ${n} characters`);
+        return i + 3;
+      case 0x61: // ESC a n
+        this.flushLine(false);
+        this.y += n * (CELL_HEIGHT + LINE_SPACING);
+        this.annotate(`feed ${n} lines`);
+        return i + 3;
+      case 0x64: // ESC d n
+        this.flushLine(false);
+        if (n >= 2) {
+          this.y += 3 * (CELL_HEIGHT + LINE_SPACING);
+        }
+        this.drawCut();
+        this.annotate(`${n % 2 === 1 ? "partial" : "full"} cut`);
+        return i + 3;
+      case 0x62: {
+        // ESC b n1 n2 n3 n4 d1...dk RS
+        const end = buffer.indexOf(RS, i + 6);
+        const data = buffer.subarray(i + 6, end < 0 ? buffer.length : end);
+        if (n % 48 === 6) {
+          const text = buffer[i + 3] % 48;
+          this.printBarcode(data.toString("latin1"), {
+            // Mode 1-3: 2-4 dot modules
+            moduleWidth: (buffer[i + 4] % 48) + 1,
+            height: buffer[i + 5],
+            above: false,
+            below: text === 2 || text === 4,
+          });
+        } else {
+          this.annotate(`unsupported barcode type ${n % 48}`);
+        }
+        return end < 0 ? buffer.length : end + 1;
+      }
+      case GS:
+        return this.handleStarEscGs(buffer, i);
+      default:
+        this.annotate(`unknown command ESC 0x${this.hex(cmd)}`);
+        return i + 2;
+    }
+  }
+
+  /**
+   * Handle a Star Line Mode ESC GS command, returning the index after it
+   */
+  private handleStarEscGs(buffer: Buffer, i: number): number {
+    const cmd = buffer[i + 2];
+    const n = buffer[i + 3];
+
+    switch (cmd) {
+      case 0x61: {
+        // ESC GS a n
+        const modes: Alignment[] = ["left", "center", "right"];
+        this.alignment = modes[n % 48] || "left";
+        this.annotate(`align ${this.alignment}`);
+        return i + 4;
+      }
+      case 0x74: // ESC GS t n
+        this.selectCodePage(n);
+        return i + 4;
+      case 0x53: {
+        // ESC GS S m xL xH yL yH n d1...dk
+        const bytesPerRow = buffer[i + 4] + buffer[i + 5] * 256;
+        const rows = buffer[i + 6] + buffer[i + 7] * 256;
+        const start = i + 9;
+        const data = buffer.subarray(start, start + bytesPerRow * rows);
+        this.printRaster(data, bytesPerRow, rows, 0);
+        return start + bytesPerRow * rows;
+      }
+      case 0x79: {
+        // ESC GS y — QR code
+        const fn = buffer[i + 3];
+        if (fn === 0x53) {
+          // ESC GS y S n value
+          const value = buffer[i + 5];
+          switch (buffer[i + 4]) {
+            case 0x30:
+              this.annotate(`qr model ${value}`);
+              break;
+            case 0x31: {
+              const levels = ["L", "M", "Q", "H"] as const;
+              this.qr.ecc = levels[value] || "L";
+              this.annotate(`qr error correction ${this.qr.ecc}`);
+              break;
+            }
+            case 0x32:
+              this.qr.cellSize = value;
+              this.annotate(`qr cell size ${value}`);
+              break;
+          }
+          return i + 6;
+        }
+        if (fn === 0x44) {
+          // ESC GS y D 1 m nL nH d1...dk
+          const length = buffer[i + 6] + buffer[i + 7] * 256;
+          this.qr.data = Buffer.from(buffer.subarray(i + 8, i + 8 + length));
+          this.annotate(`qr store ${length} bytes`);
+          return i + 8 + length;
+        }
+        if (fn === 0x50) {
+          // ESC GS y P
+          this.printQr();
+          return i + 4;
+        }
+        this.annotate(`unknown qr function 0x${this.hex(fn)}`);
+        return i + 4;
+      }
+      default:
+        this.annotate(`unknown command ESC GS 0x${this.hex(cmd)}`);
+        return i + 3;
+    }
+  }
+
+  /**
+   * Handle a GS ( k QR code function (cn = 49)
+   */
+  private handleQr(params: Buffer): void {
+    const [cn, fn] = params;
+    if (cn !== 0x31) {
+      this.annotate(`unsupported 2D symbol 0x${this.hex(cn)}`);
+      return;
+    }
+
+    switch (fn) {
+      case 0x41: // model
+        this.annotate(`qr model ${params[2] - 48}`);
+        break;
+      case 0x43: // cell size
+        this.qr.cellSize = params[2];
+        this.annotate(`qr cell size ${params[2]}`);
+        break;
+      case 0x45: {
+        // error correction (48-51)
+        const levels = ["L", "M", "Q", "H"] as const;
+        this.qr.ecc = levels[params[2] - 48] || "L";
+        this.annotate(`qr error correction ${this.qr.ecc}`);
+        break;
+      }
+      case 0x50: // store data
+        this.qr.data = Buffer.from(params.subarray(3));
+        this.annotate(`qr store ${this.qr.data.length} bytes`);
+        break;
+      case 0x51: // print
+        this.printQr();
+        break;
+      default:
+        this.annotate(`unknown qr function 0x${this.hex(fn)}`);
+    }
+  }
+
+  /**
+   * Print the stored QR symbol at the current alignment
+   */
+  private printQr(): void {
+    this.flushLine(false);
+    if (!this.qr.data) {
+      this.annotate("qr print (no data stored)");
+      return;
+    }
+
+    const data = this.qr.data.toString("utf-8");
+    const { modules } = QRCode.create(data, {
+      errorCorrectionLevel: this.qr.ecc,
+    });
+    const size = modules.size * this.qr.cellSize;
+    const x = this.alignX(size);
+
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          this.canvas.fillRect(
+            x + col * this.qr.cellSize,
+            this.y + row * this.qr.cellSize,
+            this.qr.cellSize,
+            this.qr.cellSize,
+          );
+        }
+      }
+    }
+
+    this.y += size;
+    this.annotate(`qr code ${modules.size}x${modules.size}: ${data}`);
+  }
+
+  /**
+   * Print a Code128 barcode at the current alignment, with its text above
+   * and/or below in Font A
+   */
+  private printBarcode(
+    text: string,
+    options: {
+      moduleWidth: number;
+      height: number;
+      above: boolean;
+      below: boolean;
+    },
+  ): void {
+    this.flushLine(false);
+
+    let widths: number[];
+    try {
+      widths = code128Widths(encodeCode128(text));
+    } catch {
+      this.annotate(`invalid code128 barcode: ${text}`);
+      return;
+    }
+
+    const label = [...text].map((char) => ({
+      char,
+      bold: false,
+      widthScale: 1,
+      heightScale: 1,
+    }));
+
+    if (options.above) {
+      this.drawRow(label);
+    }
+
+    const width = widths.reduce((sum, w) => sum + w, 0) * options.moduleWidth;
+    let x = this.alignX(width);
+    widths.forEach((w, i) => {
+      // Even entries are bars, odd entries spaces
+      if (i % 2 === 0) {
+        this.canvas.fillRect(
+          x,
+          this.y,
+          w * options.moduleWidth,
+          options.height,
+        );
+      }
+      x += w * options.moduleWidth;
+    });
+    this.y += options.height;
+    this.annotate(`code128 barcode: ${text}`);
+
+    if (options.below) {
+      this.y += LINE_SPACING;
+      this.drawRow(label);
+    }
+  }
+
+  /**
+   * Text from GS k Code128 data: a code set ("{A", "{B" or "{C") then
+   * characters, or digit pairs as single bytes in code set C
+   */
+  private decodeCode128(data: Buffer): string {
+    let set = "B";
+    let text = "";
+
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] === 0x7b && i + 1 < data.length) {
+        const next = String.fromCharCode(data[++i]);
+        if ("ABC".includes(next)) {
+          set = next;
+        } else if (next === "{") {
+          text += "{";
+        }
+        continue;
+      }
+      text +=
+        set === "C"
+          ? String(data[i]).padStart(2, "0")
+          : String.fromCharCode(data[i]);
+    }
+
+    return text;
+  }
+
+  /**
+   * Print a raster bit image (MSB first, set bit = ink) at the current
+   * alignment. Mode bit 0 doubles the width, bit 1 the height.
+   */
+  private printRaster(
+    data: Buffer,
+    bytesPerRow: number,
+    rows: number,
+    mode: number,
+  ): void {
+    this.flushLine(false);
+
+    const scaleX = mode & 1 ? 2 : 1;
+    const scaleY = mode & 2 ? 2 : 1;
+    const width = bytesPerRow * 8 * scaleX;
+    const x = this.alignX(width);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < bytesPerRow * 8; col++) {
+        if (data[row * bytesPerRow + (col >> 3)] & (0x80 >> (col & 7))) {
+          this.canvas.fillRect(
+            x + col * scaleX,
+            this.y + row * scaleY,
+            scaleX,
+            scaleY,
+          );
+        }
+      }
+    }
+
+    this.y += rows * scaleY;
+    this.annotate(`raster image ${bytesPerRow * 8}x${rows} dots`);
+  }
+
+  /**
+   * Print the buffered line. An LF with an empty buffer feeds one line.
+   */
+  private flushLine(feedIfEmpty: boolean): void {
+    if (this.line.length === 0) {
+      if (feedIfEmpty) {
+        this.y += CELL_HEIGHT + LINE_SPACING;
+        this.dump.push("");
+      }
+      return;
+    }
+
+    // Wrap onto further lines when the text is wider than the print area
+    const available = this.printWidth - this.leftMargin;
+    const rows: PrintedChar[][] = [[]];
+    let rowWidth = 0;
+    for (const char of this.line) {
+      const width = CELL_WIDTH * char.widthScale;
+      if (rowWidth + width > available && rows[rows.length - 1].length > 0) {
+        rows.push([]);
+        rowWidth = 0;
+      }
+      rows[rows.length - 1].push(char);
+      rowWidth += width;
+    }
+
+    if (rows.length > 1) {
+      this.annotate(`line wrapped (${this.line.length} columns)`);
+    }
+
+    for (const row of rows) {
+      this.drawRow(row);
+    }
+
+    this.line = [];
+  }
+
+  /**
+   * Draw one row of characters, bottom-aligned, at the current alignment
+   */
+  private drawRow(row: PrintedChar[]): void {
+    const rowWidth = row.reduce((w, c) => w + CELL_WIDTH * c.widthScale, 0);
+    const rowHeight = Math.max(...row.map((c) => CELL_HEIGHT * c.heightScale));
+    let x = this.alignX(rowWidth);
+
+    for (const char of row) {
+      const top = this.y + rowHeight - CELL_HEIGHT * char.heightScale;
+      this.drawChar(char, x, top);
+      x += CELL_WIDTH * char.widthScale;
+    }
+
+    this.y += rowHeight + LINE_SPACING;
+
+    // Pad the dump to the same alignment, in character columns
+    const columns = Math.floor(
+      (this.printWidth - this.leftMargin) / CELL_WIDTH,
+    );
+    const text = this.toText(row);
+    const used = row.reduce((w, c) => w + c.widthScale, 0);
+    const pad =
+      this.alignment === "center"
+        ? Math.floor((columns - used) / 2)
+        : this.alignment === "right"
+          ? columns - used
+          : 0;
+    this.dump.push(" ".repeat(Math.max(0, pad)) + text);
+  }
+
+  /**
+   * Draw a character cell: ASCII from the bitmap font, block elements as
+   * filled areas, anything else as an empty box
+   */
+  private drawChar(char: PrintedChar, x: number, y: number): void {
+    const w = CELL_WIDTH * char.widthScale;
+    const h = CELL_HEIGHT * char.heightScale;
+
+    switch (char.char) {
+      case "█":
+        this.canvas.fillRect(x, y, w, h);
+        return;
+      case "▀":
+        this.canvas.fillRect(x, y, w, h / 2);
+        return;
+      case "▄":
+        this.canvas.fillRect(x, y + h / 2, w, h / 2);
+        return;
+      case "▌":
+        this.canvas.fillRect(x, y, w / 2, h);
+        return;
+      case "▐":
+        this.canvas.fillRect(x + w / 2, y, w / 2, h);
+        return;
+    }
+
+    // Accented letters are drawn without their accents
+    const base = char.char.normalize("NFD").charAt(0);
+    const glyph = getGlyph(base.charCodeAt(0));
+    if (!glyph) {
+      // No glyph in the emulator font: draw a hollow box
+      this.canvas.fillRect(x + 2, y + 2, w - 4, 1);
+      this.canvas.fillRect(x + 2, y + h - 3, w - 4, 1);
+      this.canvas.fillRect(x + 2, y + 2, 1, h - 4);
+      this.canvas.fillRect(x + w - 3, y + 2, 1, h - 4);
+      return;
+    }
+
+    // Scale the 5x8 glyph into the 12x24 cell (2x3 dots per font pixel)
+    const dotW = 2 * char.widthScale;
+    const dotH = 3 * char.heightScale;
+    const offsetX = x + char.widthScale;
+    const offsetY = y;
+
+    for (let col = 0; col < GLYPH_WIDTH; col++) {
+      for (let row = 0; row < GLYPH_HEIGHT; row++) {
+        if (glyph[col] & (1 << row)) {
+          const px = offsetX + col * dotW;
+          const py = offsetY + row * dotH;
+          this.canvas.fillRect(px, py, dotW, dotH);
+          if (char.bold) {
+            this.canvas.fillRect(px + 1, py, dotW, dotH);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Draw a dashed cut line across the paper
+   */
+  private drawCut(): void {
+    this.y += LINE_SPACING;
+    for (let x = 0; x < this.canvas.width; x += 12) {
+      this.canvas.fillRect(x, this.y, 6, 2);
+    }
+    this.y += LINE_SPACING * 2;
+  }
+
+  /**
+   * X position of something this wide at the current alignment
+   */
+  private alignX(width: number): number {
+    const available = this.printWidth - this.leftMargin;
+    const offset =
+      this.alignment === "center"
+        ? (available - width) / 2
+        : this.alignment === "right"
+          ? available - width
+          : 0;
+    return PAPER_PADDING + this.leftMargin + Math.max(0, Math.floor(offset));
+  }
+
+  /**
+   * Switch character tables (numbered per the command set)
+   */
+  private selectCodePage(n: number): void {
+    const page = findCodePage(this.commandSet, n);
+    if (page) {
+      this.codePage = page;
+      this.annotate(`code page ${page.displayName}`);
+    } else {
+      this.annotate(`unknown code page ${n}`);
+    }
+  }
+
+  /**
+   * Add a command annotation to the text dump
+   */
+  private annotate(note: string): void {
+    this.dump.push(`[${note}]`);
+  }
+
+  /**
+   * Convert printed characters to Unicode text for the dump
+   */
+  private toText(chars: PrintedChar[]): string {
+    return chars.map((c) => c.char).join("");
+  }
+
+  /**
+   * Describe the current ESC ! print mode
+   */
+  private describeMode(): string {
+    const parts: string[] = [];
+    if (this.emphasized) parts.push("emphasized");
+    if (this.heightScale > 1) parts.push("double height");
+    if (this.widthScale > 1) parts.push("double width");
+    return parts.join(", ") || "normal";
+  }
+
+  /**
+   * Format a byte as two hex digits
+   */
+  private hex(byte: number | undefined): string {
+    return (byte ?? 0).toString(16).padStart(2, "0");
+  }
+}
@@ -1,10 +1,9 @@
 import type { ReceiptData } from "./receipt-generator.js";
-import {
-  formatCurrency,
-  formatNumber,
-  formatDateTime,
-  formatDuration,
-} from "../utils/formatting.js";
+import type { TokenCosts } from "../types/pricing.js";
+import type { ZReportData } from "../types/report.js";
+import type { ReceiptDocument } from "../types/receipt-document.js";
+import { ReceiptDocumentBuilder } from "./receipt-document.js";
+import { formatCurrency } from "../utils/formatting.js";
 
 // Shareable receipt data structure (matches worker/src/types.ts)
 export interface ShareableReceiptData {
@@ -25,15 +24,19 @@ export interface ShareableReceiptData {
     cacheCreationTokens?: number;
     cacheReadTokens?: number;
     cost: number;
+    tokenCosts?: TokenCosts;
   }>;
   userMessageCount: number;
   assistantMessageCount: number;
   totalMessages: number;
+  receiptNumber?: number;
 }
 
 const SHARE_API_URL = "https://receipts.chrishutchinson.dev";
 
 export class HtmlRenderer {
+  private documentBuilder = new ReceiptDocumentBuilder();
+
   /**
    * Extract shareable data from receipt data (excludes sensitive fields)
    */
@@ -56,10 +59,12 @@ export class HtmlRenderer {
         cacheCreationTokens: m.cacheCreationTokens,
         cacheReadTokens: m.cacheReadTokens,
         cost: m.cost,
+        tokenCosts: m.tokenCosts,
       })),
       userMessageCount: data.transcriptData.userMessageCount,
       assistantMessageCount: data.transcriptData.assistantMessageCount,
       totalMessages: data.transcriptData.totalMessages,
+      receiptNumber: data.receiptNumber,
     };
   }
 
@@ -68,15 +73,179 @@ export class HtmlRenderer {
    */
   generateHtml(data: ReceiptData, receiptText: string): string {
     const shareableData = this.getShareableData(data);
+    const doc = this.documentBuilder.buildReceipt(data);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${this.escapeHtml(doc.title)}</title>
+  <style>
+${this.getStyles()}${doc.theme.htmlStyles}  </style>
+</head>
+<body>
+  <div class="receipt-container">
+${this.renderDocument(doc)}
+
+    <div class="share-section">
+      <button class="share-btn" id="share-btn" onclick="shareReceipt()">
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+          <circle cx="18" cy="5" r="3"></circle>
+          <circle cx="6" cy="12" r="3"></circle>
+          <circle cx="18" cy="19" r="3"></circle>
+          <line x1="8.59" y1="13.51" x2="15.42" y2="17.49"></line>
+          <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"></line>
+        </svg>
+        <span id="share-btn-text">Share Publicly</span>
+      </button>
+
+      <div class="share-result" id="share-result">
+        <div class="share-url" id="share-url"></div>
+        <button class="copy-btn" id="copy-btn" onclick="copyShareLink()">
+          Copy Link
+        </button>
+      </div>
+
+      <div class="share-error" id="share-error"></div>
+    </div>
+  </div>
+
+  <!-- Embedded receipt data for sharing -->
+  <script id="receipt-data" type="application/json">
+${JSON.stringify(shareableData, null, 2)}
+  </script>
+
+  <script>
+    const SHARE_API_URL = '${SHARE_API_URL}';
+    let sharedUrl = null;
+
+    // Add keyboard shortcut to close window
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        window.close();
+      }
+    });
+
+    // Log receipt info
+    console.log('Claude Receipt Generated!');
+    console.log('Session:', '${this.escapeHtml(data.transcriptData.sessionSlug)}');
+    console.log('Cost:', '${formatCurrency(data.sessionData.totalCost)}');
+    console.log('Press ESC to close');
+
+    async function shareReceipt() {
+      const btn = document.getElementById('share-btn');
+      const btnText = document.getElementById('share-btn-text');
+      const resultDiv = document.getElementById('share-result');
+      const urlDiv = document.getElementById('share-url');
+      const errorDiv = document.getElementById('share-error');
+
+      // Reset state
+      resultDiv.classList.remove('visible');
+      errorDiv.textContent = '';
+      errorDiv.style.display = 'none';
+
+      // Get receipt data
+      const dataScript = document.getElementById('receipt-data');
+      const receiptData = JSON.parse(dataScript.textContent);
+
+      // Disable button and show loading
+      btn.disabled = true;
+      btnText.textContent = 'Sharing...';
+
+      try {
+        const response = await fetch(SHARE_API_URL + '/api/receipts', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(receiptData),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.message || result.error || 'Failed to share receipt');
+        }
+
+        // Success
+        sharedUrl = result.url;
+        urlDiv.innerHTML = '<a href="' + sharedUrl + '" target="_blank">' + sharedUrl + '</a>';
+        resultDiv.classList.add('visible');
+
+        btn.classList.add('success');
+        btnText.textContent = 'Shared!';
+
+        // Keep button disabled since already shared
+        console.log('Receipt shared:', sharedUrl);
+
+      } catch (error) {
+        console.error('Share error:', error);
+
+        btn.classList.add('error');
+        btnText.textContent = 'Share Failed';
+        errorDiv.textContent = error.message;
+        errorDiv.style.display = 'block';
+
+        // Re-enable button after error
+        setTimeout(() => {
+          btn.disabled = false;
+          btn.classList.remove('error');
+          btnText.textContent = 'Share Publicly';
+        }, 3000);
+      }
+    }
+
+    function copyShareLink() {
+      if (!sharedUrl) return;
+
+      const copyBtn = document.getElementById('copy-btn');
+
+      navigator.clipboard.writeText(sharedUrl).then(() => {
+        copyBtn.classList.add('copied');
+        copyBtn.textContent = 'Copied!';
+
+        setTimeout(() => {
+          copyBtn.classList.remove('copied');
+          copyBtn.textContent = 'Copy Link';
+        }, 2000);
+      }).catch(err => {
+        console.error('Copy failed:', err);
+      });
+    }
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Generate an end-of-period Z-report page with embedded CSS
+   */
+  generateZReportHtml(report: ZReportData): string {
+    const doc = this.documentBuilder.buildZReport(report);
 
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Claude Receipt - ${data.transcriptData.sessionSlug}</title>
+  <title>${this.escapeHtml(doc.title)}</title>
   <style>
-    * {
+${this.getStyles()}${doc.theme.htmlStyles}  </style>
+</head>
+<body>
+  <div class="receipt-container">
+${this.renderDocument(doc)}
+  </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Shared receipt CSS
+   */
+  private getStyles(): string {
+    return `    * {
       margin: 0;
       padding: 0;
       box-sizing: border-box;
@@ -165,6 +334,18 @@ export class HtmlRenderer {
       margin: 10px 0;
     }
 
+    .duplicate-stamp {
+      display: inline-block;
+      margin-top: 15px;
+      padding: 6px 12px;
+      border: 3px double #c0392b;
+      color: #c0392b;
+      font-weight: bold;
+      text-transform: uppercase;
+      letter-spacing: 2px;
+      transform: rotate(-4deg);
+    }
+
     .separator {
       border-bottom: 2px solid #333;
       margin: 15px 0;
@@ -183,12 +364,24 @@ export class HtmlRenderer {
     }
 
     .line-item {
-      display: flex;
-      justify-content: space-between;
+      display: grid;
+      grid-template-columns: 1fr auto 6em;
+      gap: 10px;
       padding: 3px 0;
       color: #555;
     }
 
+    .line-item .price {
+      text-align: right;
+    }
+
+    .line-item.column-header {
+      font-weight: bold;
+      color: #333;
+      border-bottom: 1px solid #333;
+      margin-bottom: 5px;
+    }
+
     .model-header {
       display: flex;
       justify-content: space-between;
@@ -224,6 +417,56 @@ export class HtmlRenderer {
       margin: 10px 0;
     }
 
+    .subtotal {
+      display: flex;
+      justify-content: space-between;
+      margin: 5px 0;
+      color: #555;
+    }
+
+    .built {
+      margin-top: 20px;
+      padding-top: 15px;
+      border-top: 1px dashed #999;
+    }
+
+    .built-title {
+      font-weight: bold;
+      text-align: center;
+      margin-bottom: 8px;
+    }
+
+    .chart {
+      margin-top: 20px;
+      text-align: center;
+    }
+
+    .chart-bars {
+      display: flex;
+      align-items: flex-end;
+      gap: 2px;
+      height: 60px;
+      margin-top: 8px;
+      border-bottom: 2px solid #333;
+    }
+
+    .chart-bar {
+      flex: 1;
+      background: #999;
+      border-top: 2px solid #333;
+    }
+
+    .chart-bar.empty {
+      border-top: none;
+    }
+
+    .chart-labels {
+      display: flex;
+      justify-content: space-between;
+      font-size: 0.8em;
+      color: #666;
+    }
+
     .footer {
       text-align: center;
       margin-top: 20px;
@@ -397,262 +640,172 @@ export class HtmlRenderer {
         display: none;
       }
     }
-  </style>
-</head>
-<body>
-  <div class="receipt-container">
-    <div class="receipt">
-      <div class="header">
-        <div class="logo"> ▐▛███▜▌
- ▝▜█████▛▘
- ▘▘ ▝▝
-</div>
-        <div class="meta">
-          <div class="meta-row">
-            <div>Location</div><div class="dots">....................</div><div class="value">${this.escapeHtml(data.location)}</div>
-          </div>
-          <div class="meta-row">
-            <div>Session</div><div class="dots">....................</div><div class="value">${this.escapeHtml(data.transcriptData.sessionSlug)}</div>
-          </div>
-          <div class="meta-row">
-            <div>Date</div><div class="dots">....................</div><div class="value">${formatDateTime(data.transcriptData.endTime, data.config.timezone)}</div>
-          </div>
-        </div>
-      </div>
-
-      <div class="separator"></div>
-
-      ${this.renderLineItems(data)}
-
-      <div class="total-section">
-        <div class="total">
-          <span>TOTAL</span>
-          <span>${formatCurrency(data.sessionData.totalCost)}</span>
-        </div>
-      </div>
-
-      <div class="footer">
-        <div>CASHIER: ${this.getMainModel(data)}</div>
-        <div class="footer-message">Thank you for building!</div>
-        <div class="generated-by">
-          Print your own <strong>Claude receipts</strong> with<br>
-          <a href="https://github.com/chrishutchinson/claude-receipts" style="color: #333;">github.com/chrishutchinson/claude-receipts</a>
-        </div>
-      </div>
-    </div>
-
-    <div class="share-section">
-      <button class="share-btn" id="share-btn" onclick="shareReceipt()">
-        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-          <circle cx="18" cy="5" r="3"></circle>
-          <circle cx="6" cy="12" r="3"></circle>
-          <circle cx="18" cy="19" r="3"></circle>
-          <line x1="8.59" y1="13.51" x2="15.42" y2="17.49"></line>
-          <line x1="15.41" y1="6.51" x2="8.59" y2="10.49"></line>
-        </svg>
-        <span id="share-btn-text">Share Publicly</span>
-      </button>
-
-      <div class="share-result" id="share-result">
-        <div class="share-url" id="share-url"></div>
-        <button class="copy-btn" id="copy-btn" onclick="copyShareLink()">
-          Copy Link
-        </button>
-      </div>
-
-      <div class="share-error" id="share-error"></div>
-    </div>
-  </div>
-
-  <!-- Embedded receipt data for sharing -->
-  <script id="receipt-data" type="application/json">
-${JSON.stringify(shareableData, null, 2)}
-  </script>
-
-  <script>
-    const SHARE_API_URL = '${SHARE_API_URL}';
-    let sharedUrl = null;
-
-    // Add keyboard shortcut to close window
-    document.addEventListener('keydown', (e) => {
-      if (e.key === 'Escape') {
-        window.close();
-      }
-    });
-
-    // Log receipt info
-    console.log('Claude Receipt Generated!');
-    console.log('Session:', '${this.escapeHtml(data.transcriptData.sessionSlug)}');
-    console.log('Cost:', '${formatCurrency(data.sessionData.totalCost)}');
-    console.log('Press ESC to close');
-
-    async function shareReceipt() {
-      const btn = document.getElementById('share-btn');
-      const btnText = document.getElementById('share-btn-text');
-      const resultDiv = document.getElementById('share-result');
-      const urlDiv = document.getElementById('share-url');
-      const errorDiv = document.getElementById('share-error');
-
-      // Reset state
-      resultDiv.classList.remove('visible');
-      errorDiv.textContent = '';
-      errorDiv.style.display = 'none';
-
-      // Get receipt data
-      const dataScript = document.getElementById('receipt-data');
-      const receiptData = JSON.parse(dataScript.textContent);
-
-      // Disable button and show loading
-      btn.disabled = true;
-      btnText.textContent = 'Sharing...';
 
-      try {
-        const response = await fetch(SHARE_API_URL + '/api/receipts', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(receiptData),
-        });
-
-        const result = await response.json();
-
-        if (!response.ok) {
-          throw new Error(result.message || result.error || 'Failed to share receipt');
-        }
-
-        // Success
-        sharedUrl = result.url;
-        urlDiv.innerHTML = '<a href="' + sharedUrl + '" target="_blank">' + sharedUrl + '</a>';
-        resultDiv.classList.add('visible');
-
-        btn.classList.add('success');
-        btnText.textContent = 'Shared!';
-
-        // Keep button disabled since already shared
-        console.log('Receipt shared:', sharedUrl);
-
-      } catch (error) {
-        console.error('Share error:', error);
-
-        btn.classList.add('error');
-        btnText.textContent = 'Share Failed';
-        errorDiv.textContent = error.message;
-        errorDiv.style.display = 'block';
-
-        // Re-enable button after error
-        setTimeout(() => {
-          btn.disabled = false;
-          btn.classList.remove('error');
-          btnText.textContent = 'Share Publicly';
-        }, 3000);
-      }
+    .report-title {
+      text-align: center;
+      font-weight: bold;
+      letter-spacing: 2px;
+      margin-bottom: 5px;
     }
 
-    function copyShareLink() {
-      if (!sharedUrl) return;
-
-      const copyBtn = document.getElementById('copy-btn');
-
-      navigator.clipboard.writeText(sharedUrl).then(() => {
-        copyBtn.classList.add('copied');
-        copyBtn.textContent = 'Copied!';
-
-        setTimeout(() => {
-          copyBtn.classList.remove('copied');
-          copyBtn.textContent = 'Copy Link';
-        }, 2000);
-      }).catch(err => {
-        console.error('Copy failed:', err);
-      });
+    .section-title {
+      font-weight: bold;
+      color: #333;
+      padding: 8px 0 4px 0;
+      margin-top: 10px;
+      border-bottom: 1px dashed #ccc;
     }
-  </script>
-</body>
-</html>`;
+`;
   }
 
   /**
-   * Render line items HTML
-   * Shows token counts and model subtotals (not per-token-type costs, which would be inaccurate)
+   * Render a receipt document as the receipt card markup
    */
-  private renderLineItems(data: ReceiptData): string {
-    let html = '<div style="margin: 20px 0;">';
-
-    if (
-      data.sessionData.modelBreakdowns &&
-      data.sessionData.modelBreakdowns.length > 0
-    ) {
-      for (const model of data.sessionData.modelBreakdowns) {
-        // Model name with its subtotal cost
-        html += `<div class="model-header">
-          <span class="model-name">${this.escapeHtml(this.getModelName(model.modelName))}</span>
-          <span class="model-cost">${formatCurrency(model.cost)}</span>
-        </div>`;
-
-        html += `<div class="line-item">
-          <span>  Input tokens</span>
-          <span>${formatNumber(model.inputTokens)}</span>
+  private renderDocument(doc: ReceiptDocument): string {
+    const e = (text: string) => this.escapeHtml(text);
+
+    const titles = [
+      doc.header.title && `*** ${doc.header.title} ***`,
+      doc.header.subtitle,
+    ]
+      .filter((t): t is string => !!t)
+      .map((t) => `\n        <div class="report-title">${e(t)}</div>`)
+      .join("");
+
+    const meta = doc.info
+      .map(
+        (row) => `
+          <div class="meta-row">
+            <div>${e(row.label)}</div><div class="dots">....................</div><div class="value">${e(row.value)}</div>
+          </div>`,
+      )
+      .join("");
+
+    const stamp = doc.stamp
+      ? `
+        <div class="duplicate-stamp">${doc.stamp.map(e).join("<br>")}</div>`
+      : "";
+
+    const lineItem = (
+      label: string,
+      quantity: string | undefined,
+      price: string | undefined,
+      className = "line-item",
+    ) => `<div class="${className}">
+          <span>${e(label)}</span>
+          <span>${e(quantity || "")}</span>
+          <span class="price">${e(price || "")}</span>
         </div>`;
 
-        html += `<div class="line-item">
-          <span>  Output tokens</span>
-          <span>${formatNumber(model.outputTokens)}</span>
+    let items = "";
+    if (doc.columns) {
+      items += lineItem(...doc.columns, "line-item column-header");
+    }
+    for (const section of doc.sections) {
+      if (section.title) {
+        items += `<div class="model-header">
+          <span class="model-name">${e(section.title)}</span>
+          <span class="model-cost">${e(section.total || "")}</span>
         </div>`;
-
-        if (model.cacheCreationTokens && model.cacheCreationTokens > 0) {
-          html += `<div class="line-item">
-            <span>  Cache write</span>
-            <span>${formatNumber(model.cacheCreationTokens)}</span>
-          </div>`;
-        }
-
-        if (model.cacheReadTokens && model.cacheReadTokens > 0) {
-          html += `<div class="line-item">
-            <span>  Cache read</span>
-            <span>${formatNumber(model.cacheReadTokens)}</span>
-          </div>`;
-        }
+      } else if (items) {
+        items += `<div class="light-separator"></div>`;
+      }
+      const indent = section.title ? "  " : "";
+      for (const item of section.items) {
+        items += lineItem(`${indent}${item.label}`, item.quantity, item.price);
       }
     }
 
-    html += "</div>";
-    return html;
-  }
+    const totals = doc.totals
+      .map(
+        (row) => `
+        <div class="${row.grand ? "total" : "subtotal"}">
+          <span>${e(row.label)}</span>
+          <span>${e(row.value)}</span>
+        </div>`,
+      )
+      .join("");
+
+    const built = doc.built
+      ? `
+      <div class="built">
+        <div class="built-title">${e(doc.built.title)}</div>${doc.built.rows
+          .map(
+            (row) => `
+        <div class="subtotal">
+          <span>${e(row.label)}</span>
+          <span>${e(row.value)}</span>
+        </div>`,
+          )
+          .join("")}
+      </div>
+`
+      : "";
+
+    const chart = doc.chart
+      ? `
+      <div class="chart">
+        <div>${e(doc.chart.title)}</div>
+        <div class="chart-bars">${this.renderChartBars(doc.chart.values)}
+        </div>
+        <div class="chart-labels">${doc.chart.labels.map((label) => `<span>${e(label)}</span>`).join("")}</div>
+      </div>
+`
+      : "";
+
+    const footer = [
+      ...doc.footer.notes.map((note) => `\n        <div>${e(note)}</div>`),
+      ...doc.footer.messages.map(
+        (message) =>
+          `\n        <div class="footer-message">${e(message)}</div>`,
+      ),
+    ].join("");
+
+    const promo = doc.qr
+      ? `
+        <div class="generated-by">
+          ${e(doc.qr.caption)} with<br>
+          <a href="${e(doc.qr.data)}" style="color: #333;">${e(doc.qr.data.replace(/^https?:\/\//, ""))}</a>
+        </div>`
+      : "";
+
+    return `    <div class="receipt theme-${doc.theme.name}">
+      <div class="header">${
+        doc.header.logo
+          ? `
+        <div class="logo"> ▐▛███▜▌
+ ▝▜█████▛▘
+ ▘▘ ▝▝
+</div>`
+          : ""
+      }${titles}
+        <div class="meta">${meta}
+        </div>${stamp}
+      </div>
 
-  /**
-   * Get clean model name
-   */
-  private getModelName(model: string): string {
-    const cleaned = model.replace(/-\d{8}$/, "");
-
-    const modelMap: Record<string, string> = {
-      "claude-sonnet-4-5": "Claude Sonnet 4.5",
-      "claude-opus-4-5": "Claude Opus 4.5",
-      "claude-3-5-sonnet": "Claude 3.5 Sonnet",
-      "claude-3-opus": "Claude 3 Opus",
-      "claude-3-haiku": "Claude 3 Haiku",
-      "claude-haiku-4-5": "Claude Haiku 4.5",
-    };
+      <div class="separator"></div>
+
+      <div style="margin: 20px 0;">${items}</div>
 
-    return modelMap[cleaned] || model;
+      <div class="total-section">${totals}
+      </div>
+${built}${chart}
+      <div class="footer">${footer}${promo}
+      </div>
+    </div>`;
   }
 
   /**
-   * Get main model
+   * Render chart values as bars sized relative to the largest value
    */
-  private getMainModel(data: ReceiptData): string {
-    if (
-      data.sessionData.modelBreakdowns &&
-      data.sessionData.modelBreakdowns.length > 0
-    ) {
-      return this.getModelName(data.sessionData.modelBreakdowns[0].modelName);
-    }
-
-    if (data.sessionData.modelsUsed && data.sessionData.modelsUsed.length > 0) {
-      return this.getModelName(data.sessionData.modelsUsed[0]);
-    }
-
-    return "Claude";
+  private renderChartBars(values: number[]): string {
+    const max = Math.max(...values, 1);
+    return values
+      .map(
+        (value) => `
+          <div class="chart-bar${value > 0 ? "" : " empty"}" style="height: ${Math.round((value / max) * 100)}%"></div>`,
+      )
+      .join("");
   }
 
   /**
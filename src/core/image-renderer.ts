@@ -0,0 +1,789 @@
+import type { ReceiptData } from "./receipt-generator.js";
+import type { ReceiptConfig } from "../types/config.js";
+import type { ReceiptDocument } from "../types/receipt-document.js";
+import type { GreyscaleImage, UnicodeFont } from "../types/image.js";
+import { ReceiptDocumentBuilder } from "./receipt-document.js";
+import { getCodePage } from "./code-pages.js";
+import { CLAUDE_MASCOT } from "../utils/ascii-art.js";
+import { code128Widths, encodeCode128 } from "../utils/barcode.js";
+import { getGlyph, GLYPH_HEIGHT, GLYPH_WIDTH } from "../utils/bitmap-font.js";
+import { resizeImage } from "../utils/dither.js";
+import { spreadLabels } from "../utils/formatting.js";
+import { drawPixelArt, drawQrCode } from "../utils/graphics.js";
+import { encodeRgbPng } from "../utils/png.js";
+import { transliterate } from "../utils/text-encoding.js";
+
+// Sizes are in image units: pixels at scale 1
+export const DEFAULT_IMAGE_SCALE = 2;
+export const MAX_IMAGE_SCALE = 4;
+
+const COLUMNS = 36;
+const CELL_WIDTH = 12;
+const CELL_HEIGHT = 24;
+const LINE_HEIGHT = 30;
+const PADDING_X = 24;
+const PADDING_Y = 36;
+// Backdrop around the paper, like the HTML page behind the receipt
+const MARGIN = 40;
+// Depth and spacing of the torn edge's teeth
+const TOOTH_DEPTH = 10;
+const TOOTH_SPACING = 20;
+
+const TEXT_WIDTH = COLUMNS * CELL_WIDTH;
+const PAPER_WIDTH = TEXT_WIDTH + 2 * PADDING_X;
+
+const BACKDROP = "#3a3a3a";
+const STAMP_COLOUR = "#c0392b";
+const FONT_FAMILY = "'Courier New', Courier, monospace";
+// Courier's advance is 0.6em, so this fills the character cell
+const FONT_SIZE = 20;
+const BASELINE = 19;
+
+const LOGO_MAX_WIDTH = 240;
+const MASCOT_CELL = 6;
+const QR_CELL = 4;
+const CHART_HEIGHT = 60;
+const BARCODE_MODULE = 2;
+const BARCODE_HEIGHT = 56;
+
+export interface ImageOptions {
+  // Multiplier on the receipt's natural size (1-4)
+  scale?: number;
+  // Shared copy of the receipt, linked from the QR code
+  shareUrl?: string;
+}
+
+type Anchor = "start" | "middle" | "end";
+
+// Everything on the paper is drawn as one of these, so the SVG and PNG
+// renderers lay the receipt out identically
+type Mark =
+  | {
+      type: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      colour: string;
+    }
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      text: string;
+      anchor: Anchor;
+      bold: boolean;
+      colour: string;
+    };
+
+interface Layout {
+  width: number;
+  height: number;
+  paper: { top: number; bottom: number; colour: string; tornEdges: boolean };
+  marks: Mark[];
+}
+
+type Rgb = [number, number, number];
+
+export class ImageRenderer {
+  private documentBuilder = new ReceiptDocumentBuilder();
+
+  /**
+   * Render a receipt as a standalone SVG image
+   */
+  async generateSvg(
+    data: ReceiptData,
+    options: ImageOptions = {},
+  ): Promise<string> {
+    const layout = await this.layoutReceipt(data, options.shareUrl);
+    return this.renderSvg(layout, this.getScale(options));
+  }
+
+  /**
+   * Render a receipt as a PNG image, drawing the text with the built-in
+   * bitmap font (and the configured Unicode font, if any)
+   */
+  async generatePng(
+    data: ReceiptData,
+    options: ImageOptions = {},
+  ): Promise<Buffer> {
+    const font = await this.loadFont(data.config);
+    const layout = await this.layoutReceipt(data, options.shareUrl);
+    return this.renderPng(layout, this.getScale(options), font);
+  }
+
+  private getScale(options: ImageOptions): number {
+    const scale = options.scale ?? DEFAULT_IMAGE_SCALE;
+    if (!(scale >= 1 && scale <= MAX_IMAGE_SCALE)) {
+      throw new Error(
+        `Invalid image scale: ${scale}. Use a number from 1 to ${MAX_IMAGE_SCALE}`,
+      );
+    }
+    return scale;
+  }
+
+  private async layoutReceipt(
+    data: ReceiptData,
+    shareUrl: string | undefined,
+  ): Promise<Layout> {
+    const doc = this.documentBuilder.buildReceipt(data, shareUrl);
+    const logo = doc.header.logo ? await this.loadLogo(data.config) : null;
+    return this.layoutDocument(doc, logo);
+  }
+
+  /**
+   * Lay out a receipt document as rectangles and lines of text on the
+   * paper, top to bottom
+   */
+  private layoutDocument(
+    doc: ReceiptDocument,
+    logo: { image: GreyscaleImage; cellSize: number } | null,
+  ): Layout {
+    const { paper, ink, tornEdges } = doc.theme.image;
+    const faint = mix(parseColour(ink), parseColour(paper), 0.5);
+    const marks: Mark[] = [];
+    const left = MARGIN + PADDING_X;
+    const right = left + TEXT_WIDTH;
+    const centre = left + TEXT_WIDTH / 2;
+    let y = MARGIN + PADDING_Y;
+
+    const text = (
+      content: string,
+      anchor: Anchor,
+      bold = false,
+      colour = ink,
+    ) => {
+      const x = anchor === "start" ? left : anchor === "end" ? right : centre;
+      marks.push({ type: "text", x, y, text: content, anchor, bold, colour });
+    };
+
+    // Centred or left-aligned text, wrapped at word boundaries
+    const line = (
+      content: string,
+      anchor: Anchor = "start",
+      bold = false,
+      colour = ink,
+    ) => {
+      for (const part of wrap(content, COLUMNS)) {
+        text(part, anchor, bold, colour);
+        y += LINE_HEIGHT;
+      }
+    };
+
+    // Left-aligned label and right-aligned value on one line
+    const leftRight = (label: string, value: string, bold = false) => {
+      if (label.length + value.length >= COLUMNS) {
+        line(`${label} ${value}`, "start", bold);
+        return;
+      }
+      text(label, "start", bold);
+      text(value, "end", bold);
+      y += LINE_HEIGHT;
+    };
+
+    const columns = (
+      label: string,
+      quantity: string,
+      price: string,
+      bold = false,
+    ) => leftRight(label, `${quantity}${price.padStart(9)}`, bold);
+
+    const blank = () => {
+      y += LINE_HEIGHT / 2;
+    };
+
+    const rect = (
+      x: number,
+      top: number,
+      width: number,
+      height: number,
+      colour: string,
+    ) => {
+      marks.push({ type: "rect", x, y: top, width, height, colour });
+    };
+
+    const rule = (heavy: boolean) => {
+      const middle = y + LINE_HEIGHT / 2;
+      if (heavy) {
+        rect(left, middle - 1, TEXT_WIDTH, 2, ink);
+      } else {
+        for (let x = left; x < right; x += 10) {
+          rect(x, middle, Math.min(6, right - x), 1, faint);
+        }
+      }
+      y += LINE_HEIGHT;
+    };
+
+    // Greyscale image, centred, drawn as runs of like-coloured cells
+    const image = (img: GreyscaleImage, cellSize: number) => {
+      const x0 = centre - (img.width * cellSize) / 2;
+      const shade = (value: number) => value >> 4;
+      for (let row = 0; row < img.height; row++) {
+        let start = 0;
+        for (let col = 1; col <= img.width; col++) {
+          const value = img.pixels[row * img.width + start];
+          if (
+            col < img.width &&
+            shade(img.pixels[row * img.width + col]) === shade(value)
+          ) {
+            continue;
+          }
+          if (shade(value) < 15) {
+            rect(
+              x0 + start * cellSize,
+              y + row * cellSize,
+              (col - start) * cellSize,
+              cellSize,
+              mix(parseColour(ink), parseColour(paper), value / 255),
+            );
+          }
+          start = col;
+        }
+      }
+      y += img.height * cellSize;
+    };
+
+    // --- Header ---
+    if (logo) {
+      image(logo.image, logo.cellSize);
+      blank();
+    }
+    if (doc.header.title) {
+      line(`*** ${doc.header.title} ***`, "middle", true);
+    }
+    if (doc.header.subtitle) {
+      line(doc.header.subtitle, "middle", true);
+    }
+    if (doc.header.title || doc.header.subtitle) {
+      blank();
+    }
+
+    // --- Info ---
+    for (const row of doc.info) {
+      line(`${row.label}: ${row.value}`, "middle");
+    }
+
+    // --- Stamp: a red double-bordered box, like a rubber stamp ---
+    if (doc.stamp) {
+      blank();
+      const lines = doc.stamp.flatMap((s) => wrap(s, COLUMNS - 4));
+      const boxWidth =
+        (Math.max(...lines.map((s) => s.length)) + 3) * CELL_WIDTH;
+      const boxHeight = lines.length * LINE_HEIGHT + 12;
+      const boxLeft = centre - boxWidth / 2;
+      const boxTop = y;
+      for (const inset of [0, 4]) {
+        const x0 = boxLeft + inset;
+        const y0 = boxTop + inset;
+        const w = boxWidth - 2 * inset;
+        const h = boxHeight - 2 * inset;
+        rect(x0, y0, w, 2, STAMP_COLOUR);
+        rect(x0, y0 + h - 2, w, 2, STAMP_COLOUR);
+        rect(x0, y0, 2, h, STAMP_COLOUR);
+        rect(x0 + w - 2, y0, 2, h, STAMP_COLOUR);
+      }
+      y += 6 + (LINE_HEIGHT - CELL_HEIGHT) / 2;
+      lines.forEach((s, i) => line(s, "middle", i === 0, STAMP_COLOUR));
+      y = boxTop + boxHeight;
+    }
+    blank();
+
+    // --- Line items ---
+    rule(true);
+    if (doc.columns) {
+      columns(...doc.columns, true);
+      rule(false);
+    }
+    doc.sections.forEach((section, index) => {
+      if (index > 0) {
+        rule(false);
+      }
+      if (section.title) {
+        leftRight(section.title, section.total || "", true);
+      }
+      const indent = section.title ? "  " : "";
+      for (const item of section.items) {
+        columns(
+          `${indent}${item.label}`,
+          item.quantity || "",
+          item.price || "",
+        );
+      }
+    });
+
+    // --- Totals ---
+    rule(true);
+    doc.totals.forEach((row, index) => {
+      if (row.grand && index > 0) {
+        rule(false);
+      }
+      leftRight(row.label, row.value, !!row.grand);
+    });
+    rule(true);
+    blank();
+
+    // --- What the session built ---
+    if (doc.built) {
+      line(doc.built.title, "middle", true);
+      rule(false);
+      for (const row of doc.built.rows) {
+        leftRight(row.label, row.value);
+      }
+      rule(true);
+      blank();
+    }
+
+    // --- Chart: grey bars with a solid cap, on a baseline ---
+    if (doc.chart) {
+      line(doc.chart.title, "middle", true);
+      const values = doc.chart.values;
+      const max = Math.max(...values, 1);
+      const slot = TEXT_WIDTH / Math.max(values.length, 1);
+      const gap = Math.max(1, Math.round(slot / 5));
+      values.forEach((value, i) => {
+        if (value <= 0) return;
+        const barHeight = Math.max(
+          2,
+          Math.round(((CHART_HEIGHT - 2) * value) / max),
+        );
+        const x = left + Math.round(i * slot) + gap;
+        const width = Math.round(slot) - 2 * gap;
+        const top = y + CHART_HEIGHT - 2 - barHeight;
+        rect(x, top, width, barHeight, faint);
+        rect(x, top, width, 2, ink);
+      });
+      rect(left, y + CHART_HEIGHT - 2, TEXT_WIDTH, 2, ink);
+      y += CHART_HEIGHT + 4;
+      text(spreadLabels(doc.chart.labels, COLUMNS), "start", false, faint);
+      y += LINE_HEIGHT;
+      blank();
+    }
+
+    // --- Footer ---
+    for (const note of doc.footer.notes) {
+      line(note);
+    }
+    if (doc.footer.notes.length > 0) {
+      blank();
+    }
+    for (const message of doc.footer.messages) {
+      line(message, "middle");
+    }
+    blank();
+
+    // --- Barcode, with its text underneath ---
+    if (doc.barcode) {
+      const widths = code128Widths(encodeCode128(doc.barcode));
+      const total = widths.reduce((sum, w) => sum + w, 0) * BARCODE_MODULE;
+      let x = centre - total / 2;
+      widths.forEach((w, i) => {
+        // Widths alternate bar, space, starting with a bar
+        if (i % 2 === 0) {
+          rect(x, y, w * BARCODE_MODULE, BARCODE_HEIGHT, ink);
+        }
+        x += w * BARCODE_MODULE;
+      });
+      y += BARCODE_HEIGHT + 4;
+      line(doc.barcode, "middle");
+      blank();
+    }
+
+    // --- QR code ---
+    if (doc.qr) {
+      line(`${doc.qr.caption}:`, "middle");
+      image(drawQrCode(doc.qr.data, 1), QR_CELL);
+      for (const part of wrapUrl(
+        doc.qr.data.replace(/^https?:\/\//, ""),
+        COLUMNS,
+      )) {
+        line(part, "middle");
+      }
+    }
+
+    const bottom = y + PADDING_Y - LINE_HEIGHT / 2;
+
+    return {
+      width: PAPER_WIDTH + 2 * MARGIN,
+      height: bottom + MARGIN,
+      paper: { top: MARGIN, bottom, colour: paper, tornEdges },
+      marks,
+    };
+  }
+
+  /**
+   * Draw a layout as SVG: the paper (with a drop shadow, noise texture and
+   * torn edges) and then its marks
+   */
+  private renderSvg(layout: Layout, scale: number): string {
+    const { width, height, paper } = layout;
+    const x0 = MARGIN;
+    const x1 = MARGIN + PAPER_WIDTH;
+
+    let outline: string;
+    if (paper.tornEdges) {
+      const top: string[] = [];
+      const bottom: string[] = [];
+      for (let i = 0; i <= PAPER_WIDTH / TOOTH_SPACING; i++) {
+        const x = x0 + i * TOOTH_SPACING;
+        top.push(`${x},${paper.top - TOOTH_DEPTH}`);
+        bottom.unshift(`${x},${paper.bottom + TOOTH_DEPTH}`);
+        if (x < x1) {
+          top.push(`${x + TOOTH_SPACING / 2},${paper.top}`);
+          bottom.unshift(`${x + TOOTH_SPACING / 2},${paper.bottom}`);
+        }
+      }
+      outline = `M${top.join(" L")} L${bottom.join(" L")} Z`;
+    } else {
+      outline = `M${x0},${paper.top} H${x1} V${paper.bottom} H${x0} Z`;
+    }
+
+    const marks = layout.marks.map((mark) => {
+      if (mark.type === "rect") {
+        return `    <rect x="${mark.x}" y="${mark.y}" width="${mark.width}" height="${mark.height}" fill="${mark.colour}"/>`;
+      }
+      return `    <text x="${mark.x}" y="${mark.y + BASELINE}" text-anchor="${mark.anchor}"${mark.bold ? ' font-weight="bold"' : ""} fill="${mark.colour}">${escapeXml(mark.text)}</text>`;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(height * scale)}" viewBox="0 0 ${width} ${height}">
+  <defs>
+    <filter id="shadow" x="-20%" y="-20%" width="140%" height="140%">
+      <feDropShadow dx="0" dy="12" stdDeviation="14" flood-color="#000" flood-opacity="0.35"/>
+    </filter>
+    <filter id="paper-texture" x="0" y="0" width="100%" height="100%">
+      <feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="3" seed="7"/>
+      <feColorMatrix type="saturate" values="0"/>
+      <feComponentTransfer>
+        <feFuncA type="table" tableValues="0 0.12"/>
+      </feComponentTransfer>
+      <feComposite in2="SourceGraphic" operator="in"/>
+    </filter>
+    <clipPath id="paper-shape">
+      <path d="${outline}"/>
+    </clipPath>
+  </defs>
+  <rect width="${width}" height="${height}" fill="${BACKDROP}"/>
+  <path d="${outline}" fill="${paper.colour}" filter="url(#shadow)"/>
+  <rect x="${x0}" y="${paper.top - TOOTH_DEPTH}" width="${PAPER_WIDTH}" height="${paper.bottom - paper.top + 2 * TOOTH_DEPTH}" fill="#000" filter="url(#paper-texture)" clip-path="url(#paper-shape)"/>
+  <g font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" xml:space="preserve">
+${marks.join("\n")}
+  </g>
+</svg>
+`;
+  }
+
+  /**
+   * Rasterize a layout as an RGB PNG. Text is drawn from the 5x7 bitmap
+   * font at 2x3 units per dot, falling back to the Unicode font.
+   */
+  private renderPng(
+    layout: Layout,
+    scale: number,
+    font: UnicodeFont | undefined,
+  ): Buffer {
+    const width = Math.round(layout.width * scale);
+    const height = Math.round(layout.height * scale);
+    const pixels = new Uint8Array(width * height * 3);
+    const { paper } = layout;
+
+    const set = (px: number, py: number, [r, g, b]: Rgb) => {
+      const i = (py * width + px) * 3;
+      pixels[i] = r;
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+    };
+
+    const fillRect = (
+      x: number,
+      y: number,
+      w: number,
+      h: number,
+      colour: Rgb,
+    ) => {
+      const px0 = Math.max(0, Math.round(x * scale));
+      const px1 = Math.min(width, Math.round((x + w) * scale));
+      const py0 = Math.max(0, Math.round(y * scale));
+      const py1 = Math.min(height, Math.round((y + h) * scale));
+      for (let py = py0; py < py1; py++) {
+        for (let px = px0; px < px1; px++) {
+          set(px, py, colour);
+        }
+      }
+    };
+
+    // Backdrop, and a soft shadow below the paper
+    const backdrop = parseColour(BACKDROP);
+    fillRect(0, 0, layout.width, layout.height, backdrop);
+    for (let spread = 12; spread > 0; spread -= 4) {
+      fillRect(
+        MARGIN - spread,
+        paper.top + 12 - spread,
+        PAPER_WIDTH + 2 * spread,
+        paper.bottom - paper.top + 2 * spread,
+        parseColour(mix(backdrop, [0, 0, 0], 0.1 + (12 - spread) / 40)),
+      );
+    }
+
+    // Paper, with its torn edges and a faint grain
+    const colour = parseColour(paper.colour);
+    let seed = 7;
+    const noise = () => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return (seed / 0x7fffffff - 0.5) * 8;
+    };
+    for (
+      let px = Math.round(MARGIN * scale);
+      px < (MARGIN + PAPER_WIDTH) * scale;
+      px++
+    ) {
+      const offset = (px / scale - MARGIN) % TOOTH_SPACING;
+      const depth = paper.tornEdges
+        ? (TOOTH_DEPTH * Math.abs(offset - TOOTH_SPACING / 2) * 2) /
+          TOOTH_SPACING
+        : 0;
+      const py0 = Math.round((paper.top - depth) * scale);
+      const py1 = Math.round((paper.bottom + depth) * scale);
+      for (let py = py0; py < py1; py++) {
+        const grain = noise();
+        set(px, py, colour.map((c) => clamp(c + grain)) as Rgb);
+      }
+    }
+
+    for (const mark of layout.marks) {
+      if (mark.type === "rect") {
+        fillRect(
+          mark.x,
+          mark.y,
+          mark.width,
+          mark.height,
+          parseColour(mark.colour),
+        );
+        continue;
+      }
+
+      // The bitmap font only has ASCII (and accented letters, drawn without
+      // their accents): transliterate what the Unicode font can't draw
+      const chars = [
+        ...transliterate(mark.text, getCodePage("cp437"), (char) =>
+          Boolean(font?.glyphs.has(char.codePointAt(0)!)),
+        ),
+      ];
+      const cells = chars.map((char) => {
+        const glyph = getGlyph(baseChar(char).charCodeAt(0));
+        return glyph || !font
+          ? 1
+          : (font.glyphs.get(char.codePointAt(0)!)?.width ?? 8) / 8;
+      });
+      const textWidth = cells.reduce((sum, c) => sum + c, 0) * CELL_WIDTH;
+      let x =
+        mark.anchor === "start"
+          ? mark.x
+          : mark.anchor === "end"
+            ? mark.x - textWidth
+            : mark.x - textWidth / 2;
+      const ink = parseColour(mark.colour);
+
+      chars.forEach((char, i) => {
+        this.drawChar(char, x, mark.y, mark.bold, ink, font, fillRect);
+        x += cells[i] * CELL_WIDTH;
+      });
+    }
+
+    return encodeRgbPng(width, height, pixels);
+  }
+
+  /**
+   * Draw one character cell: the 5x7 glyph scaled 2x3, or the Unicode
+   * font's glyph, or a hollow box if neither has it
+   */
+  private drawChar(
+    char: string,
+    x: number,
+    y: number,
+    bold: boolean,
+    ink: Rgb,
+    font: UnicodeFont | undefined,
+    fillRect: (x: number, y: number, w: number, h: number, colour: Rgb) => void,
+  ): void {
+    const glyph = getGlyph(baseChar(char).charCodeAt(0));
+    if (glyph) {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+          if (glyph[col] & (1 << row)) {
+            fillRect(x + 1 + col * 2, y + row * 3, bold ? 3 : 2, 3, ink);
+          }
+        }
+      }
+      return;
+    }
+
+    const unicode = font?.glyphs.get(char.codePointAt(0)!);
+    if (unicode && font) {
+      const dotW = CELL_WIDTH / 8;
+      const dotH = CELL_HEIGHT / font.height;
+      unicode.rows.forEach((bits, row) => {
+        for (let col = 0; col < unicode.width; col++) {
+          if ((bits >> (unicode.width - 1 - col)) & 1) {
+            fillRect(
+              x + col * dotW,
+              y + row * dotH,
+              dotW * (bold ? 1.5 : 1),
+              dotH,
+              ink,
+            );
+          }
+        }
+      });
+      return;
+    }
+
+    if (char.trim()) {
+      fillRect(x + 2, y + 2, CELL_WIDTH - 4, 1, ink);
+      fillRect(x + 2, y + CELL_HEIGHT - 3, CELL_WIDTH - 4, 1, ink);
+      fillRect(x + 2, y + 2, 1, CELL_HEIGHT - 4, ink);
+      fillRect(x + CELL_WIDTH - 3, y + 2, 1, CELL_HEIGHT - 4, ink);
+    }
+  }
+
+  /**
+   * Load the header logo: the configured team logo PNG, scaled to fit, or
+   * the Claude mascot
+   */
+  private async loadLogo(
+    config: ReceiptConfig,
+  ): Promise<{ image: GreyscaleImage; cellSize: number }> {
+    if (!config.logo) {
+      return { image: drawPixelArt(CLAUDE_MASCOT, 1), cellSize: MASCOT_CELL };
+    }
+
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { decodePng } = await import("../utils/png.js");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const path = resolve(config.logo.replace(/^~(?=\/|$)/, home));
+
+    let image;
+    try {
+      image = decodePng(await readFile(path));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load logo ${path}: ${reason}`);
+    }
+
+    if (image.width > LOGO_MAX_WIDTH) {
+      image = resizeImage(image, LOGO_MAX_WIDTH);
+    }
+    return { image, cellSize: 1 };
+  }
+
+  /**
+   * Load the configured GNU Unifont file, if any, for text the bitmap font
+   * can't draw
+   */
+  private async loadFont(
+    config: ReceiptConfig,
+  ): Promise<UnicodeFont | undefined> {
+    if (!config.unicodeFont) {
+      return undefined;
+    }
+
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { parseUnifontHex } = await import("../utils/unifont.js");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const path = resolve(config.unicodeFont.replace(/^~(?=\/|$)/, home));
+
+    try {
+      return parseUnifontHex(await readFile(path, "utf-8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load Unicode font ${path}: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Parse a "#rrggbb" colour
+ */
+function parseColour(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Blend two colours: 0 gives the first, 1 the second
+ */
+function mix(a: Rgb, b: Rgb, amount: number): string {
+  return `#${a
+    .map((c, i) => clamp(c + (b[i] - c) * amount))
+    .map((c) => c.toString(16).padStart(2, "0"))
+    .join("")}`;
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+/**
+ * The letter without its accents, which the bitmap font doesn't have
+ */
+function baseChar(char: string): string {
+  return char.normalize("NFD").charAt(0);
+}
+
+/**
+ * Wrap text to lines of at most `width` characters at spaces, splitting
+ * words that are longer than a line
+ */
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= width) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    while (current.length > width) {
+      lines.push(current.slice(0, width));
+      current = current.slice(width);
+    }
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+/**
+ * Break a URL across lines at slashes
+ */
+function wrapUrl(url: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const part of url.split(/(?=\/)/)) {
+    if (current && current.length + part.length > width) {
+      lines.push(current);
+      current = "";
+    }
+    current += part;
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  const map: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+  };
+  return text.replace(/[&<>"]/g, (m) => map[m]);
+}
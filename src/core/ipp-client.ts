@@ -0,0 +1,203 @@
+import { hostname } from "os";
+import {
+  isUnreachableCode,
+  PrinterUnavailableError,
+} from "./printer-errors.js";
+
+// Default IPP port, for ipp:// URIs without one
+const IPP_PORT = 631;
+// Printers can be slow to accept a job while warming up
+const IPP_TIMEOUT_MS = 30000;
+
+// Operation IDs
+const PRINT_JOB = 0x0002;
+
+// Delimiter tags
+const OPERATION_ATTRIBUTES = 0x01;
+const END_OF_ATTRIBUTES = 0x03;
+
+// Value tags
+const INTEGER = 0x21;
+const NAME_WITHOUT_LANGUAGE = 0x42;
+const URI = 0x45;
+const CHARSET = 0x47;
+const NATURAL_LANGUAGE = 0x48;
+const MIME_MEDIA_TYPE = 0x49;
+
+// Explanations for status codes a receipt printer is likely to return
+const STATUS_MESSAGES: Record<number, string> = {
+  0x0400: "bad request",
+  0x0401: "forbidden",
+  0x0402: "authentication required",
+  0x0406: "no such printer (check the path after the host)",
+  0x040a:
+    "it doesn't accept raw printer data over IPP (try tcp://host instead)",
+  0x0502: "service unavailable",
+  0x0506: "not accepting jobs",
+  0x0507: "printer busy",
+};
+
+// Statuses that mean try again later: unavailable, not accepting jobs, busy
+const RETRY_LATER_STATUSES = new Set([0x0502, 0x0506, 0x0507]);
+
+interface IppAttribute {
+  tag: number;
+  name: string;
+  value: Buffer;
+}
+
+interface IppResponse {
+  status: number;
+  attributes: IppAttribute[];
+}
+
+/**
+ * Send a job to an IPP printer ("ipp://host[:port]/printers/name") with a
+ * Print-Job request, passing the printer commands through untouched as
+ * application/octet-stream.
+ *
+ * @returns The printer's job ID, when it reports one
+ */
+export async function printViaIpp(
+  buffer: Buffer,
+  printerUri: string,
+  jobName: string,
+): Promise<number | undefined> {
+  const url = new URL(printerUri);
+  const endpoint = `http://${url.hostname}:${url.port || IPP_PORT}${url.pathname}${url.search}`;
+
+  const request = Buffer.concat([
+    header(PRINT_JOB, 1),
+    Buffer.from([OPERATION_ATTRIBUTES]),
+    attribute(CHARSET, "attributes-charset", "utf-8"),
+    attribute(NATURAL_LANGUAGE, "attributes-natural-language", "en"),
+    attribute(URI, "printer-uri", printerUri),
+    attribute(NAME_WITHOUT_LANGUAGE, "requesting-user-name", userName()),
+    attribute(NAME_WITHOUT_LANGUAGE, "job-name", jobName),
+    attribute(MIME_MEDIA_TYPE, "document-format", "application/octet-stream"),
+    Buffer.from([END_OF_ATTRIBUTES]),
+    buffer,
+  ]);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/ipp" },
+      body: request,
+      signal: AbortSignal.timeout(IPP_TIMEOUT_MS),
+    });
+  } catch (err) {
+    const cause = (err as Error & { cause?: NodeJS.ErrnoException }).cause;
+    const message = `IPP printer connection failed: ${cause?.message || (err as Error).message}`;
+    // Timeouts abort the request
+    throw (err as Error).name === "TimeoutError" ||
+      isUnreachableCode(cause?.code)
+      ? new PrinterUnavailableError(message)
+      : new Error(message);
+  }
+
+  if (!response.ok) {
+    const message = `IPP printer refused the job: HTTP ${response.status} ${response.statusText}`;
+    throw response.status === 503
+      ? new PrinterUnavailableError(message)
+      : new Error(message);
+  }
+
+  const { status, attributes } = parseResponse(
+    Buffer.from(await response.arrayBuffer()),
+  );
+
+  // 0x0000-0x00ff are successful-ok variants
+  if (status > 0x00ff) {
+    const message = attributes.find((a) => a.name === "status-message");
+    const reason =
+      STATUS_MESSAGES[status] ||
+      message?.value.toString("utf-8") ||
+      `status 0x${status.toString(16).padStart(4, "0")}`;
+    const refusal = `IPP printer refused the job: ${reason}`;
+    throw RETRY_LATER_STATUSES.has(status)
+      ? new PrinterUnavailableError(refusal)
+      : new Error(refusal);
+  }
+
+  const jobId = attributes.find(
+    (a) => a.name === "job-id" && a.tag === INTEGER,
+  );
+  return jobId?.value.length === 4 ? jobId.value.readInt32BE(0) : undefined;
+}
+
+/**
+ * IPP/1.1 message header: version, operation, request ID
+ */
+function header(operation: number, requestId: number): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeUInt8(1, 0);
+  bytes.writeUInt8(1, 1);
+  bytes.writeUInt16BE(operation, 2);
+  bytes.writeInt32BE(requestId, 4);
+  return bytes;
+}
+
+/**
+ * Encode one single-valued attribute
+ */
+function attribute(tag: number, name: string, value: string): Buffer {
+  const nameBytes = Buffer.from(name, "utf-8");
+  const valueBytes = Buffer.from(value, "utf-8");
+
+  const bytes = Buffer.alloc(5 + nameBytes.length + valueBytes.length);
+  let offset = bytes.writeUInt8(tag, 0);
+  offset = bytes.writeUInt16BE(nameBytes.length, offset);
+  offset += nameBytes.copy(bytes, offset);
+  offset = bytes.writeUInt16BE(valueBytes.length, offset);
+  valueBytes.copy(bytes, offset);
+  return bytes;
+}
+
+/**
+ * Read the status code and attributes from an IPP response. Additional
+ * values of multi-valued attributes (sent with an empty name) are skipped.
+ */
+function parseResponse(body: Buffer): IppResponse {
+  if (body.length < 8) {
+    throw new Error("IPP printer sent an invalid response");
+  }
+
+  const status = body.readUInt16BE(2);
+  const attributes: IppAttribute[] = [];
+  let offset = 8;
+
+  while (offset < body.length) {
+    const tag = body[offset++];
+    if (tag === END_OF_ATTRIBUTES) {
+      break;
+    }
+    // Delimiter tags start a new group
+    if (tag <= 0x0f) {
+      continue;
+    }
+
+    if (offset + 2 > body.length) break;
+    const nameLength = body.readUInt16BE(offset);
+    offset += 2;
+    const name = body.toString("utf-8", offset, offset + nameLength);
+    offset += nameLength;
+
+    if (offset + 2 > body.length) break;
+    const valueLength = body.readUInt16BE(offset);
+    offset += 2;
+    const value = body.subarray(offset, offset + valueLength);
+    offset += valueLength;
+
+    if (name) {
+      attributes.push({ tag, name, value });
+    }
+  }
+
+  return { status, attributes };
+}
+
+function userName(): string {
+  return process.env.USER || process.env.USERNAME || hostname();
+}
@@ -0,0 +1,125 @@
+import type { ReceiptData } from "./receipt-generator.js";
+import type {
+  ReceiptJson,
+  ReceiptJsonSession,
+  ReceiptJsonTranscript,
+} from "../types/receipt-json.js";
+import type { CcusageSession } from "../types/ccusage.js";
+import type { ParsedTranscript } from "../types/transcript.js";
+import {
+  formatCurrency,
+  formatDuration,
+  formatReceiptNumber,
+} from "../utils/formatting.js";
+import { getMainModel, getModelName } from "../utils/models.js";
+
+// Bump for breaking changes to the JSON output, publishing a new schema
+// file alongside the old one
+export const RECEIPT_SCHEMA_VERSION = 1;
+export const RECEIPT_SCHEMA_URL = `https://raw.githubusercontent.com/chrishutchinson/claude-receipts/main/schema/receipt.v${RECEIPT_SCHEMA_VERSION}.json`;
+
+export class JsonRenderer {
+  /**
+   * Build the JSON receipt: the receipt data plus the values derived from
+   * it for display, described by the published schema. Only documented
+   * fields are copied, so local paths and the rest of the config stay out
+   * of output that's meant to be shared.
+   */
+  getReceiptJson(data: ReceiptData): ReceiptJson {
+    const { sessionData, transcriptData } = data;
+    const totalCost = sessionData.totalCost;
+
+    return {
+      $schema: RECEIPT_SCHEMA_URL,
+      schemaVersion: RECEIPT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      receipt: {
+        sessionData: this.getSession(sessionData),
+        transcriptData: this.getTranscript(transcriptData),
+        location: data.location,
+        config: {
+          version: data.config.version,
+          timezone: data.config.timezone,
+          theme: data.config.theme,
+        },
+        receiptNumber: data.receiptNumber,
+        duplicate: data.duplicate,
+      },
+      derived: {
+        receiptNumber:
+          data.receiptNumber !== undefined
+            ? formatReceiptNumber(data.receiptNumber)
+            : undefined,
+        durationSeconds: Math.floor(
+          (transcriptData.endTime.getTime() -
+            transcriptData.startTime.getTime()) /
+            1000,
+        ),
+        duration: formatDuration(
+          transcriptData.startTime,
+          transcriptData.endTime,
+        ),
+        mainModel: getMainModel(sessionData),
+        totalCost: formatCurrency(totalCost),
+        models: (sessionData.modelBreakdowns || []).map((model) => ({
+          model: model.modelName,
+          name: getModelName(model.modelName),
+          totalTokens:
+            model.inputTokens +
+            model.outputTokens +
+            (model.cacheCreationTokens || 0) +
+            (model.cacheReadTokens || 0),
+          cost: formatCurrency(model.cost),
+          costShare: totalCost > 0 ? model.cost / totalCost : 0,
+        })),
+      },
+    };
+  }
+
+  private getSession(session: CcusageSession): ReceiptJsonSession {
+    return {
+      sessionId: session.sessionId,
+      inputTokens: session.inputTokens,
+      outputTokens: session.outputTokens,
+      cacheCreationTokens: session.cacheCreationTokens,
+      cacheReadTokens: session.cacheReadTokens,
+      totalTokens: session.totalTokens,
+      totalCost: session.totalCost,
+      lastActivity: session.lastActivity,
+      modelsUsed: session.modelsUsed,
+      modelBreakdowns: session.modelBreakdowns,
+      agentBreakdowns: session.agentBreakdowns,
+      projectPath: session.projectPath,
+      pricingVersion: session.pricingVersion,
+    };
+  }
+
+  private getTranscript(transcript: ParsedTranscript): ReceiptJsonTranscript {
+    return {
+      sessionSlug: transcript.sessionSlug,
+      firstPrompt: transcript.firstPrompt,
+      startTime: transcript.startTime.toISOString(),
+      endTime: transcript.endTime.toISOString(),
+      userMessageCount: transcript.userMessageCount,
+      assistantMessageCount: transcript.assistantMessageCount,
+      totalMessages: transcript.totalMessages,
+      cwd: transcript.cwd,
+      gitBranch: transcript.gitBranch,
+      toolUsage: transcript.toolUsage,
+      codeChanges: transcript.codeChanges,
+      skippedLines: transcript.skippedLines,
+      subAgents: transcript.subAgents?.map((agent) => ({
+        agentId: agent.agentId,
+        description: agent.description,
+        agentType: agent.agentType,
+      })),
+    };
+  }
+
+  /**
+   * The JSON receipt as pretty-printed text
+   */
+  generateJson(data: ReceiptData): string {
+    return `${JSON.stringify(this.getReceiptJson(data), null, 2)}\n`;
+  }
+}
@@ -0,0 +1,129 @@
+import { hostname } from "os";
+import { openTcpConnection } from "./printer-connection.js";
+import type { PrinterConnection } from "./printer-connection.js";
+import { PrinterUnavailableError } from "./printer-errors.js";
+
+// Default LPD port, for lpd:// URIs without one
+const LPD_PORT = 515;
+// How long to wait for the printer to acknowledge each step
+const ACK_TIMEOUT_MS = 30000;
+
+// Commands and subcommands (RFC 1179)
+const RECEIVE_JOB = 0x02;
+const RECEIVE_CONTROL_FILE = 0x02;
+const RECEIVE_DATA_FILE = 0x03;
+
+/**
+ * Send a job to an LPD printer ("lpd://host[:port]/queue") as described
+ * in RFC 1179. The data file is marked for printing with control
+ * characters left in, so printer commands pass through untouched.
+ */
+export async function printViaLpd(
+  buffer: Buffer,
+  printerUri: string,
+  jobName: string,
+): Promise<void> {
+  const url = new URL(printerUri);
+  const queue = getLpdQueue(printerUri);
+
+  // Host names in LPD file names are limited to 31 characters
+  const host =
+    hostname()
+      .replace(/[^\w.-]/g, "")
+      .slice(0, 31) || "localhost";
+  const user = process.env.USER || process.env.USERNAME || "root";
+  const jobNumber = String(Math.floor(Math.random() * 1000)).padStart(3, "0");
+  const dataFile = `dfA${jobNumber}${host}`;
+  const controlFile = `cfA${jobNumber}${host}`;
+
+  const control = Buffer.from(
+    [
+      `H${host}`,
+      `P${user.slice(0, 31)}`,
+      `J${jobName.slice(0, 99)}`,
+      `l${dataFile}`,
+      `U${dataFile}`,
+      `N${jobName.slice(0, 131)}`,
+      "",
+    ].join("\n"),
+    "utf-8",
+  );
+
+  const connection = await openTcpConnection(
+    `tcp://${url.hostname}:${url.port || LPD_PORT}`,
+  );
+
+  try {
+    await command(connection, RECEIVE_JOB, queue, `queue "${queue}"`);
+    await sendFile(connection, RECEIVE_CONTROL_FILE, controlFile, control);
+    await sendFile(connection, RECEIVE_DATA_FILE, dataFile, buffer);
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * The queue name from an "lpd://host/queue" URI
+ */
+export function getLpdQueue(printerUri: string): string {
+  const queue = decodeURIComponent(
+    new URL(printerUri).pathname.replace(/^\/+/, ""),
+  );
+  if (!queue) {
+    throw new Error(
+      'LPD printer needs a queue name, e.g. "lpd://192.168.1.50/raw"',
+    );
+  }
+  return queue;
+}
+
+/**
+ * Send a subcommand carrying a file, then the file itself
+ */
+async function sendFile(
+  connection: PrinterConnection,
+  subcommand: number,
+  name: string,
+  contents: Buffer,
+): Promise<void> {
+  await command(
+    connection,
+    subcommand,
+    `${contents.length} ${name}`,
+    `file ${name}`,
+  );
+  // A zero byte ends the file
+  await connection.write(Buffer.concat([contents, Buffer.from([0])]));
+  await acknowledge(connection, `file ${name}`);
+}
+
+async function command(
+  connection: PrinterConnection,
+  code: number,
+  operand: string,
+  what: string,
+): Promise<void> {
+  await connection.write(
+    Buffer.concat([Buffer.from([code]), Buffer.from(`${operand}\n`, "utf-8")]),
+  );
+  await acknowledge(connection, what);
+}
+
+/**
+ * Wait for the printer's one-byte reply: zero to carry on, anything else
+ * to refuse
+ */
+async function acknowledge(
+  connection: PrinterConnection,
+  what: string,
+): Promise<void> {
+  const reply = await connection.read(1, ACK_TIMEOUT_MS);
+  if (!reply) {
+    throw new PrinterUnavailableError(
+      `LPD printer didn't respond (waiting to accept ${what})`,
+    );
+  }
+  if (reply[0] !== 0) {
+    throw new Error(`LPD printer refused ${what}`);
+  }
+}
@@ -0,0 +1,157 @@
+import type { ReceiptData } from "./receipt-generator.js";
+import type {
+  ReceiptDocument,
+  ReceiptSection,
+} from "../types/receipt-document.js";
+import { ReceiptDocumentBuilder } from "./receipt-document.js";
+
+export class MarkdownRenderer {
+  private documentBuilder = new ReceiptDocumentBuilder();
+
+  /**
+   * Render a receipt as GitHub-flavoured Markdown, for pasting into pull
+   * requests and issues: a summary table per model, with each model's
+   * token breakdown in a collapsible section
+   */
+  generateMarkdown(data: ReceiptData, shareUrl?: string): string {
+    const doc = this.documentBuilder.buildReceipt(data, shareUrl);
+    const lines: string[] = [`### 🧾 ${escapeMarkdown(doc.title)}`, ""];
+
+    if (doc.stamp) {
+      lines.push(`> **${doc.stamp.map(escapeMarkdown).join(" — ")}**`, "");
+    }
+
+    lines.push(
+      ...table(
+        ["", ""],
+        doc.info.map((row) => [{ bold: row.label }, row.value]),
+        ["left", "left"],
+      ),
+      "",
+    );
+
+    const models = doc.sections.filter(
+      (section) => section.title && !section.outsideTotal,
+    );
+    lines.push(
+      ...table(
+        [doc.columns?.[0] || "Model", doc.columns?.[2] || "Cost"],
+        [
+          ...models.map((section) => [section.title!, section.total || ""]),
+          ...doc.totals.map((row) =>
+            row.grand
+              ? [{ bold: row.label }, { bold: row.value }]
+              : [row.label, row.value],
+          ),
+        ],
+        ["left", "right"],
+      ),
+      "",
+    );
+
+    if (doc.built) {
+      lines.push(
+        `**${escapeMarkdown(doc.built.title)}**`,
+        "",
+        ...table(
+          ["", ""],
+          doc.built.rows.map((row) => [row.label, row.value]),
+          ["left", "right"],
+        ),
+        "",
+      );
+    }
+
+    // Model breakdowns, then extras such as cost by sub-agent and tool calls
+    for (const section of [
+      ...models,
+      ...doc.sections.filter(
+        (section) => section.title && section.outsideTotal,
+      ),
+    ]) {
+      lines.push(...this.renderDetails(doc, section), "");
+    }
+
+    const notes = [...doc.footer.notes, ...doc.footer.messages];
+    if (notes.length > 0) {
+      lines.push(notes.map(escapeMarkdown).join(" · "), "");
+    }
+    if (doc.qr) {
+      lines.push(`<sub>[${doc.qr.caption}](${doc.qr.data})</sub>`, "");
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * A section's line items in a <details> block, collapsed by default
+   */
+  private renderDetails(
+    doc: ReceiptDocument,
+    section: ReceiptSection,
+  ): string[] {
+    // Tool calls, agent costs and themes without token prices have one
+    // number per item, in either column
+    const priced = section.items.some((item) => item.quantity && item.price);
+    let single = section.outsideTotal ? doc.columns?.[1] || "Qty" : "Tokens";
+    if (section.costs) {
+      single = doc.columns?.[2] || "Cost";
+    }
+    const header = priced
+      ? doc.columns || ["Item", "Qty", "Price"]
+      : [doc.columns?.[0] || "Item", single];
+    const rows = section.items.map((item) =>
+      priced
+        ? [item.label, item.quantity || "", item.price || ""]
+        : [item.label, item.quantity || item.price || ""],
+    );
+
+    return [
+      "<details>",
+      `<summary>${escapeHtml(section.title!)} — ${escapeHtml(section.total || "")}</summary>`,
+      "",
+      ...table(
+        header,
+        rows,
+        header.map((_, i) => (i === 0 ? "left" : "right")),
+      ),
+      "",
+      "</details>",
+    ];
+  }
+}
+
+// A table cell's text, optionally in bold
+type Cell = string | { bold: string };
+
+/**
+ * A Markdown table, escaping Markdown in cells
+ */
+function table(
+  header: Cell[],
+  rows: Cell[][],
+  align: Array<"left" | "right">,
+): string[] {
+  const cell = (value: Cell) =>
+    typeof value === "string"
+      ? escapeMarkdown(value)
+      : `**${escapeMarkdown(value.bold)}**`;
+  const row = (cells: Cell[]) => `| ${cells.map(cell).join(" | ")} |`;
+
+  return [
+    row(header),
+    `|${align.map((a) => (a === "right" ? " ---: " : " --- ")).join("|")}|`,
+    ...rows.map(row),
+  ];
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>|])/g, "\\$1");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
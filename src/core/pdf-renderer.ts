@@ -0,0 +1,553 @@
+import type { ReceiptData } from "./receipt-generator.js";
+import type { PdfPageSize } from "../types/config.js";
+import { PricingRegistry } from "./pricing.js";
+import { buildPdf, PAGE_SIZES, PdfPage, textWidth } from "./pdf-writer.js";
+import type { PdfFont } from "./pdf-writer.js";
+import {
+  formatCurrency,
+  formatDateTime,
+  formatDuration,
+  formatNumber,
+  formatPrice,
+  formatReceiptNumber,
+  formatToolName,
+} from "../utils/formatting.js";
+import { getAgentDescription, getModelName } from "../utils/models.js";
+
+export const PDF_PAGE_SIZES: PdfPageSize[] = ["a4", "letter", "receipt"];
+
+// 80mm receipt roll, in points
+const ROLL_WIDTH = 226.77;
+const ROLL_MARGIN = 14;
+
+const INVOICE_MARGIN = 56;
+const MUTED = "#666666";
+const SHADED = "#eeeeee";
+const CREATOR = "claude-receipts";
+
+interface ToolItem {
+  name: string;
+  calls: string;
+  // e.g. "2 failed, 1 rejected"
+  outcome: string;
+}
+
+// A model and its token types, or a sub-agent and its models
+interface LineItemGroup {
+  model: string;
+  amount: string;
+  items: Array<{ label: string; tokens: string; amount: string }>;
+}
+
+export class PdfRenderer {
+  private pricing = new PricingRegistry();
+
+  /**
+   * Render a receipt as a PDF: an invoice on A4 or Letter paper, or a
+   * receipt the width of an 80mm roll and as long as it needs to be
+   */
+  generatePdf(data: ReceiptData, pageSize: PdfPageSize = "a4"): Buffer {
+    const title = `Claude Code session ${data.transcriptData.sessionSlug}`;
+    const pages =
+      pageSize === "receipt"
+        ? [this.renderRoll(data)]
+        : this.renderInvoice(data, PAGE_SIZES[pageSize]);
+    return buildPdf(pages, { title, creator: CREATOR });
+  }
+
+  /**
+   * Lay out an invoice, starting new pages as the line items need them
+   */
+  private renderInvoice(
+    data: ReceiptData,
+    size: { width: number; height: number },
+  ): PdfPage[] {
+    const left = INVOICE_MARGIN;
+    const right = size.width - INVOICE_MARGIN;
+    const bottom = size.height - INVOICE_MARGIN - 24;
+    const tokensRight = right - 110;
+    const pages = [new PdfPage(size.width, size.height)];
+    let page = pages[0];
+    let y = INVOICE_MARGIN;
+
+    const tableHeader = () => {
+      page.rect(left, y, right - left, 20, SHADED);
+      page.text(left + 6, y + 14, "Description", { font: "bold", size: 9 });
+      page.text(tokensRight, y + 14, "Tokens", {
+        font: "bold",
+        size: 9,
+        align: "right",
+      });
+      page.text(right - 6, y + 14, "Amount", {
+        font: "bold",
+        size: 9,
+        align: "right",
+      });
+      y += 36;
+    };
+
+    // Start a new page if the next rows won't fit on this one
+    const ensureSpace = (height: number, inTable: boolean) => {
+      if (y + height <= bottom) return;
+      page = new PdfPage(size.width, size.height);
+      pages.push(page);
+      y = INVOICE_MARGIN;
+      if (inTable) tableHeader();
+    };
+
+    // --- Heading ---
+    y += 24;
+    page.text(left, y, "INVOICE", { font: "bold", size: 24 });
+    page.text(right, y - 12, this.reference(data), {
+      font: "bold",
+      size: 11,
+      align: "right",
+    });
+    page.text(
+      right,
+      y + 2,
+      `Issued ${formatDateTime(new Date(), data.config.timezone)}`,
+      {
+        size: 9,
+        colour: MUTED,
+        align: "right",
+      },
+    );
+    y += 18;
+    page.text(left, y, "Claude Code session usage", {
+      size: 10,
+      colour: MUTED,
+    });
+    y += 14;
+    page.rule(left, right, y, 1);
+    y += 22;
+
+    // --- Session details ---
+    const labelWidth = 90;
+    for (const [label, value] of this.details(data)) {
+      const lines = wrapToWidth(
+        value,
+        "regular",
+        10,
+        right - left - labelWidth,
+      );
+      ensureSpace(lines.length * 14, false);
+      page.text(left, y, label, { font: "bold", size: 9, colour: MUTED });
+      for (const line of lines) {
+        page.text(left + labelWidth, y, line, { size: 10 });
+        y += 14;
+      }
+    }
+    y += 16;
+
+    // --- Line items ---
+    ensureSpace(60, false);
+    tableHeader();
+    this.lineItems(data).forEach((group, index) => {
+      ensureSpace(16 + group.items.length * 14, true);
+      if (index > 0) {
+        page.rule(left, right, y - 10, 0.5, "#cccccc");
+      }
+      page.text(left + 6, y, group.model, { font: "bold", size: 10 });
+      page.text(right - 6, y, group.amount, {
+        font: "bold",
+        size: 10,
+        align: "right",
+      });
+      y += 16;
+      for (const item of group.items) {
+        page.text(left + 20, y, item.label, { size: 9 });
+        page.text(tokensRight, y, item.tokens, { size: 9, align: "right" });
+        page.text(right - 6, y, item.amount, { size: 9, align: "right" });
+        y += 14;
+      }
+      y += 10;
+    });
+
+    // --- Totals ---
+    const total = formatCurrency(data.sessionData.totalCost);
+    ensureSpace(60, false);
+    page.rule(left, right, y - 6, 1);
+    y += 12;
+    page.text(tokensRight, y, "Subtotal", { size: 10, align: "right" });
+    page.text(right - 6, y, total, { size: 10, align: "right" });
+    y += 22;
+    page.rect(tokensRight - 120, y - 16, right - tokensRight + 120, 24, SHADED);
+    page.text(tokensRight, y, "Total (USD)", {
+      font: "bold",
+      size: 12,
+      align: "right",
+    });
+    page.text(right - 6, y, total, { font: "bold", size: 12, align: "right" });
+
+    // --- Cost by agent (included in the total above) ---
+    const agents = this.agentItems(data);
+    if (agents.length > 0) {
+      y += 40;
+      ensureSpace(50, false);
+      page.text(left, y, "Cost by agent", { font: "bold", size: 10 });
+      page.text(tokensRight, y, "Tokens", {
+        font: "bold",
+        size: 9,
+        align: "right",
+      });
+      y += 6;
+      page.rule(left, right, y, 0.5, "#cccccc");
+      y += 14;
+      for (const agent of agents) {
+        ensureSpace(14 + agent.items.length * 14, false);
+        page.text(left + 6, y, agent.model, { font: "bold", size: 9 });
+        page.text(right - 6, y, agent.amount, {
+          font: "bold",
+          size: 9,
+          align: "right",
+        });
+        y += 14;
+        for (const item of agent.items) {
+          page.text(left + 20, y, item.label, { size: 9 });
+          page.text(tokensRight, y, item.tokens, { size: 9, align: "right" });
+          page.text(right - 6, y, item.amount, {
+            size: 9,
+            colour: MUTED,
+            align: "right",
+          });
+          y += 14;
+        }
+      }
+    }
+
+    // --- Tool usage (not charged separately) ---
+    const tools = this.toolItems(data);
+    if (tools.length > 0) {
+      y += 40;
+      ensureSpace(50, false);
+      page.text(left, y, "Tool usage", { font: "bold", size: 10 });
+      page.text(tokensRight, y, "Calls", {
+        font: "bold",
+        size: 9,
+        align: "right",
+      });
+      y += 6;
+      page.rule(left, right, y, 0.5, "#cccccc");
+      y += 14;
+      for (const tool of tools) {
+        ensureSpace(14, false);
+        page.text(left + 6, y, tool.name, { size: 9 });
+        page.text(tokensRight, y, tool.calls, { size: 9, align: "right" });
+        page.text(right - 6, y, tool.outcome, {
+          size: 9,
+          colour: MUTED,
+          align: "right",
+        });
+        y += 14;
+      }
+    }
+
+    // --- Footer on every page ---
+    pages.forEach((p, i) => {
+      const footerY = size.height - INVOICE_MARGIN;
+      p.rule(left, right, footerY - 14, 0.5, "#cccccc");
+      p.text(left, footerY, this.footnote(data), { size: 8, colour: MUTED });
+      p.text(right, footerY, `Page ${i + 1} of ${pages.length}`, {
+        size: 8,
+        colour: MUTED,
+        align: "right",
+      });
+    });
+
+    return pages;
+  }
+
+  /**
+   * Lay out a receipt-roll PDF in a monospaced font, one page tall
+   */
+  private renderRoll(data: ReceiptData): PdfPage {
+    const page = new PdfPage(ROLL_WIDTH, 0);
+    const left = ROLL_MARGIN;
+    const right = ROLL_WIDTH - ROLL_MARGIN;
+    const centre = ROLL_WIDTH / 2;
+    const size = 7.5;
+    const lineHeight = 10;
+    const width = right - left;
+    let y = ROLL_MARGIN + 10;
+
+    const font = (bold: boolean): PdfFont => (bold ? "monoBold" : "mono");
+
+    const line = (
+      text: string,
+      align: "left" | "center" = "left",
+      bold = false,
+    ) => {
+      for (const part of wrapToWidth(text, font(bold), size, width)) {
+        page.text(align === "center" ? centre : left, y, part, {
+          font: font(bold),
+          size,
+          align,
+        });
+        y += lineHeight;
+      }
+    };
+
+    // Label on the left and value on the right, or on the next line if
+    // they don't both fit
+    const leftRight = (label: string, value: string, bold = false) => {
+      line(label, "left", bold);
+      if (textWidth(`${label} ${value}`, font(bold), size) <= width) {
+        y -= lineHeight;
+      }
+      page.text(right, y, value, { font: font(bold), size, align: "right" });
+      y += lineHeight;
+    };
+
+    const rule = (heavy: boolean) => {
+      page.rule(
+        left,
+        right,
+        y - 3,
+        heavy ? 1 : 0.4,
+        heavy ? "#000000" : "#999999",
+      );
+      y += lineHeight * 0.8;
+    };
+
+    line("CLAUDE CODE SESSION", "center", true);
+    line(this.reference(data), "center");
+    y += lineHeight / 2;
+    rule(true);
+
+    for (const [label, value] of this.details(data)) {
+      page.text(left, y, `${label}:`, { font: "monoBold", size });
+      const indent = textWidth(`${label}: `, "mono", size);
+      for (const part of wrapToWidth(value, "mono", size, width - indent)) {
+        page.text(left + indent, y, part, { font: "mono", size });
+        y += lineHeight;
+      }
+    }
+
+    rule(true);
+    this.lineItems(data).forEach((group, index) => {
+      if (index > 0) rule(false);
+      leftRight(group.model, group.amount, true);
+      for (const item of group.items) {
+        leftRight(
+          `  ${item.label}`,
+          `${item.tokens}  ${item.amount.padStart(7)}`,
+        );
+      }
+    });
+
+    rule(true);
+    const total = formatCurrency(data.sessionData.totalCost);
+    leftRight("SUBTOTAL", total);
+    leftRight("TOTAL (USD)", total, true);
+    rule(true);
+
+    const agents = this.agentItems(data);
+    if (agents.length > 0) {
+      line("BY AGENT", "left", true);
+      for (const agent of agents) {
+        leftRight(`  ${agent.model}`, agent.amount);
+        for (const item of agent.items) {
+          leftRight(
+            `    ${item.label}`,
+            `${item.tokens}  ${item.amount.padStart(7)}`,
+          );
+        }
+      }
+      rule(true);
+    }
+
+    const tools = this.toolItems(data);
+    if (tools.length > 0) {
+      line("TOOL CALLS", "left", true);
+      for (const tool of tools) {
+        leftRight(`  ${tool.name}`, tool.calls);
+        if (tool.outcome) {
+          line(`    ${tool.outcome}`);
+        }
+      }
+      rule(true);
+    }
+
+    y += lineHeight / 2;
+    for (const part of wrapToWidth(this.footnote(data), "mono", 6, width)) {
+      page.text(centre, y, part, {
+        font: "mono",
+        size: 6,
+        align: "center",
+        colour: MUTED,
+      });
+      y += 8;
+    }
+    y += ROLL_MARGIN;
+
+    page.height = y;
+    return page;
+  }
+
+  /**
+   * Receipt number, or the session ID when the receipt wasn't numbered
+   */
+  private reference(data: ReceiptData): string {
+    return data.receiptNumber !== undefined
+      ? `Receipt #${formatReceiptNumber(data.receiptNumber)}`
+      : `Session ${data.sessionData.sessionId.slice(0, 8)}`;
+  }
+
+  /**
+   * Session details shown above the line items
+   */
+  private details(data: ReceiptData): Array<[string, string]> {
+    const { transcriptData, sessionData, config } = data;
+    const project =
+      transcriptData.cwd ||
+      sessionData.projectPath?.replace(/\/[^/]*$/, "") ||
+      "Unknown project";
+
+    return [
+      ["Session", transcriptData.sessionSlug],
+      ["Session ID", sessionData.sessionId],
+      ["Project", project],
+      ["Git branch", transcriptData.gitBranch || "-"],
+      ["Started", formatDateTime(transcriptData.startTime, config.timezone)],
+      ["Ended", formatDateTime(transcriptData.endTime, config.timezone)],
+      [
+        "Duration",
+        formatDuration(transcriptData.startTime, transcriptData.endTime),
+      ],
+      [
+        "Messages",
+        `${transcriptData.userMessageCount} from you, ${transcriptData.assistantMessageCount} from Claude`,
+      ],
+      ["Location", data.location],
+    ];
+  }
+
+  /**
+   * One group of line items per model: its token counts and their cost
+   */
+  private lineItems(data: ReceiptData): LineItemGroup[] {
+    return (data.sessionData.modelBreakdowns || []).map((model) => {
+      const costs = model.tokenCosts;
+      const items = [
+        ["Input tokens", model.inputTokens, costs?.input],
+        ["Output tokens", model.outputTokens, costs?.output],
+        ["Cache write tokens", model.cacheCreationTokens, costs?.cacheWrite],
+        ["Cache read tokens", model.cacheReadTokens, costs?.cacheRead],
+      ] as const;
+
+      return {
+        model: getModelName(model.modelName),
+        amount: formatPrice(model.cost),
+        items: items
+          .filter(([, tokens], i) => i < 2 || (tokens && tokens > 0))
+          .map(([label, tokens, cost]) => ({
+            label,
+            tokens: formatNumber(tokens || 0),
+            amount: formatPrice(cost),
+          })),
+      };
+    });
+  }
+
+  /**
+   * One group per agent, main thread first, with its tokens and cost per
+   * model. Empty when no sub-agents were used.
+   */
+  private agentItems(data: ReceiptData): LineItemGroup[] {
+    const agents = (data.sessionData.agentBreakdowns || []).filter(
+      (agent) => agent.modelBreakdowns.length > 0,
+    );
+    if (!agents.some((agent) => agent.agentId)) {
+      return [];
+    }
+
+    return agents.map((agent) => {
+      let name = "Main thread";
+      if (agent.agentId) {
+        const description = getAgentDescription(
+          agent,
+          data.transcriptData.subAgents,
+        );
+        name = description ? `Sub-agent: ${description}` : "Sub-agent";
+      }
+
+      return {
+        model: name,
+        amount: formatPrice(agent.cost),
+        items: agent.modelBreakdowns.map((model) => ({
+          label: getModelName(model.modelName),
+          tokens: formatNumber(
+            model.inputTokens +
+              model.outputTokens +
+              (model.cacheCreationTokens || 0) +
+              (model.cacheReadTokens || 0),
+          ),
+          amount: formatPrice(model.cost),
+        })),
+      };
+    });
+  }
+
+  /**
+   * Calls per tool, with how many failed or were rejected
+   */
+  private toolItems(data: ReceiptData): ToolItem[] {
+    return (data.transcriptData.toolUsage || []).map((tool) => ({
+      name: formatToolName(tool.name),
+      calls: formatNumber(tool.calls),
+      outcome: [
+        tool.errors > 0 ? `${formatNumber(tool.errors)} failed` : "",
+        tool.rejected > 0 ? `${formatNumber(tool.rejected)} rejected` : "",
+      ]
+        .filter(Boolean)
+        .join(", "),
+    }));
+  }
+
+  private footnote(data: ReceiptData): string {
+    // Receipts record the table that priced them, which a reprint may
+    // no longer bundle
+    const version =
+      data.sessionData.pricingVersion || this.pricing.getVersion();
+    return `Generated locally by ${CREATOR}. USD at API list prices (pricing ${version}).`;
+  }
+}
+
+/**
+ * Wrap text to fit a width, breaking at spaces and slashes (for paths),
+ * and mid-word only when a single word is too wide
+ */
+function wrapToWidth(
+  text: string,
+  font: PdfFont,
+  size: number,
+  width: number,
+): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const part of text.split(/(?<=[ /])/)) {
+    if (!current || textWidth(current + part, font, size) <= width) {
+      current += part;
+      continue;
+    }
+    lines.push(current.trimEnd());
+    current = part;
+  }
+
+  // Break anything still too wide character by character
+  return [...lines, current.trimEnd()].flatMap((line) => {
+    const pieces: string[] = [];
+    let piece = "";
+    for (const char of line) {
+      if (piece && textWidth(piece + char, font, size) > width) {
+        pieces.push(piece);
+        piece = "";
+      }
+      piece += char;
+    }
+    pieces.push(piece);
+    return pieces;
+  });
+}
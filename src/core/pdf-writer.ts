@@ -0,0 +1,312 @@
+import { getCodePage } from "./code-pages.js";
+import { encodeText, transliterate } from "../utils/text-encoding.js";
+
+// Page sizes in points (1/72 inch)
+export const PAGE_SIZES = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+export type PdfFont = "regular" | "bold" | "mono" | "monoBold";
+
+// PDF's built-in fonts need no embedding; text uses WinAnsiEncoding
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+  mono: "Courier",
+  monoBold: "Courier-Bold",
+};
+
+// Advance widths (per 1000 em) of printable ASCII, from the Adobe font
+// metrics. Other characters are assumed to be as wide as a digit.
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+type PdfOperation =
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      text: string;
+      font: PdfFont;
+      size: number;
+      colour: string;
+    }
+  | {
+      type: "rect";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      colour: string;
+    };
+
+/**
+ * Text as the built-in fonts will show it: characters outside
+ * WinAnsiEncoding (Windows-1252) are transliterated
+ */
+export function pdfText(text: string): string {
+  return transliterate(text, getCodePage("cp1252"));
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  if (font === "mono" || font === "monoBold") {
+    return [...pdfText(text)].length * 0.6 * size;
+  }
+
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+  for (const char of pdfText(text)) {
+    width += widths[char.charCodeAt(0) - 32] ?? 556;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * One page of a PDF, drawn with coordinates in points from the top-left
+ * corner. The page height can be set after drawing, for pages (like a
+ * receipt roll) that grow to fit their content.
+ */
+export class PdfPage {
+  private operations: PdfOperation[] = [];
+
+  constructor(
+    public width: number,
+    public height: number,
+  ) {}
+
+  /**
+   * Draw text with its baseline at y, aligned to x
+   */
+  text(
+    x: number,
+    y: number,
+    text: string,
+    options: {
+      font?: PdfFont;
+      size?: number;
+      colour?: string;
+      align?: "left" | "center" | "right";
+    } = {},
+  ): this {
+    const font = options.font || "regular";
+    const size = options.size || 10;
+    const width = textWidth(text, font, size);
+    const left =
+      options.align === "right"
+        ? x - width
+        : options.align === "center"
+          ? x - width / 2
+          : x;
+    this.operations.push({
+      type: "text",
+      x: left,
+      y,
+      text: pdfText(text),
+      font,
+      size,
+      colour: options.colour || "#000000",
+    });
+    return this;
+  }
+
+  /** Fill a rectangle (top-left corner at x, y). */
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    colour: string,
+  ): this {
+    this.operations.push({ type: "rect", x, y, width, height, colour });
+    return this;
+  }
+
+  /** Draw a horizontal rule. */
+  rule(x1: number, x2: number, y: number, weight = 0.5, colour = "#000000") {
+    return this.rect(x1, y - weight / 2, x2 - x1, weight, colour);
+  }
+
+  /**
+   * The page's content stream, flipped into PDF's bottom-up coordinates
+   */
+  contentStream(): Buffer {
+    const parts: Buffer[] = [];
+    const number = (n: number) => String(Math.round(n * 100) / 100);
+    const flip = (y: number) => number(this.height - y);
+
+    for (const op of this.operations) {
+      const [r, g, b] = parseColour(op.colour).map((c) => number(c / 255));
+      if (op.type === "rect") {
+        parts.push(
+          Buffer.from(
+            `${r} ${g} ${b} rg ${number(op.x)} ${flip(op.y + op.height)} ${number(op.width)} ${number(op.height)} re f\n`,
+            "latin1",
+          ),
+        );
+      } else {
+        parts.push(
+          Buffer.from(
+            `BT ${r} ${g} ${b} rg /${fontResource(op.font)} ${number(op.size)} Tf ${number(op.x)} ${flip(op.y)} Td (`,
+            "latin1",
+          ),
+          escapeString(encodeText(op.text, getCodePage("cp1252"))),
+          Buffer.from(") Tj ET\n", "latin1"),
+        );
+      }
+    }
+
+    return Buffer.concat(parts);
+  }
+}
+
+/**
+ * Assemble pages into a PDF file
+ */
+export function buildPdf(
+  pages: PdfPage[],
+  info: { title: string; creator: string },
+): Buffer {
+  const fonts = Object.keys(FONT_NAMES) as PdfFont[];
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then fonts, then a
+  // page and its content stream for each page
+  const fontObject = (i: number) => 4 + i;
+  const pageObject = (i: number) => 4 + fonts.length + i * 2;
+  const objects: Buffer[] = [];
+
+  objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"));
+  objects.push(
+    Buffer.from(
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObject(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    ),
+  );
+  objects.push(
+    Buffer.concat([
+      Buffer.from("<< /Title ("),
+      escapeString(encodeText(pdfText(info.title), getCodePage("cp1252"))),
+      Buffer.from(") /Creator ("),
+      escapeString(encodeText(pdfText(info.creator), getCodePage("cp1252"))),
+      Buffer.from(`) /CreationDate (D:${pdfDate(new Date())}) >>`),
+    ]),
+  );
+
+  for (const font of fonts) {
+    objects.push(
+      Buffer.from(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`,
+      ),
+    );
+  }
+
+  const fontResources = fonts
+    .map((font, i) => `/${fontResource(font)} ${fontObject(i)} 0 R`)
+    .join(" ");
+
+  pages.forEach((page, i) => {
+    const size = (n: number) => String(Math.round(n * 100) / 100);
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${size(page.width)} ${size(page.height)}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageObject(i) + 1} 0 R >>`,
+      ),
+    );
+    const content = page.contentStream();
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} >>\nstream\n`),
+        content,
+        Buffer.from("\nendstream"),
+      ]),
+    );
+  });
+
+  // Header, with a comment of high bytes marking the file as binary
+  const chunks: Buffer[] = [
+    Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1"),
+  ];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, i) => {
+    const object = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`),
+      body,
+      Buffer.from("\nendobj\n"),
+    ]);
+    offsets.push(offset);
+    chunks.push(object);
+    offset += object.length;
+  });
+
+  // Cross-reference table: every entry is exactly 20 bytes
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f \n" +
+      offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join(""),
+  ].join("\n");
+  chunks.push(
+    Buffer.from(
+      `${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+    ),
+  );
+
+  return Buffer.concat(chunks);
+}
+
+function fontResource(font: PdfFont): string {
+  return `F${(Object.keys(FONT_NAMES) as PdfFont[]).indexOf(font) + 1}`;
+}
+
+/**
+ * Escape the delimiters in a PDF literal string
+ */
+function escapeString(bytes: Buffer): Buffer {
+  const escaped: number[] = [];
+  for (const byte of bytes) {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      escaped.push(0x5c);
+    }
+    escaped.push(byte);
+  }
+  return Buffer.from(escaped);
+}
+
+/**
+ * Date in PDF's D:YYYYMMDDHHmmSSZ format (UTC)
+ */
+function pdfDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:T]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+}
+
+/**
+ * Parse a "#rrggbb" colour
+ */
+function parseColour(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
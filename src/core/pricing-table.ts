@@ -0,0 +1,111 @@
+import type { PricingEntry } from "../types/pricing.js";
+
+/**
+ * Bundled Anthropic API list prices (USD per million tokens).
+ * Bump the version whenever rows are added or changed.
+ */
+export const PRICING_TABLE_VERSION = "2026.02.05";
+
+export const PRICING_TABLE: PricingEntry[] = [
+  // Claude 4.5+ family
+  {
+    model: "claude-opus-4-6",
+    effectiveFrom: "2026-02-05",
+    input: 5,
+    output: 25,
+    cacheWrite: 6.25,
+    cacheRead: 0.5,
+  },
+  {
+    model: "claude-opus-4-5",
+    effectiveFrom: "2025-11-24",
+    input: 5,
+    output: 25,
+    cacheWrite: 6.25,
+    cacheRead: 0.5,
+  },
+  {
+    model: "claude-sonnet-4-5",
+    effectiveFrom: "2025-09-29",
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  {
+    model: "claude-haiku-4-5",
+    effectiveFrom: "2025-10-15",
+    input: 1,
+    output: 5,
+    cacheWrite: 1.25,
+    cacheRead: 0.1,
+  },
+
+  // Claude 4 family
+  {
+    model: "claude-opus-4-1",
+    effectiveFrom: "2025-08-05",
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  {
+    model: "claude-opus-4",
+    effectiveFrom: "2025-05-22",
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  {
+    model: "claude-sonnet-4",
+    effectiveFrom: "2025-05-22",
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+
+  // Claude 3 family
+  {
+    model: "claude-3-7-sonnet",
+    effectiveFrom: "2025-02-24",
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  {
+    model: "claude-3-5-sonnet",
+    effectiveFrom: "2024-06-20",
+    input: 3,
+    output: 15,
+    cacheWrite: 3.75,
+    cacheRead: 0.3,
+  },
+  {
+    model: "claude-3-5-haiku",
+    effectiveFrom: "2024-11-04",
+    input: 0.8,
+    output: 4,
+    cacheWrite: 1,
+    cacheRead: 0.08,
+  },
+  {
+    model: "claude-3-opus",
+    effectiveFrom: "2024-03-04",
+    input: 15,
+    output: 75,
+    cacheWrite: 18.75,
+    cacheRead: 1.5,
+  },
+  {
+    model: "claude-3-haiku",
+    effectiveFrom: "2024-03-13",
+    input: 0.25,
+    output: 1.25,
+    cacheWrite: 0.3,
+    cacheRead: 0.03,
+  },
+];
@@ -0,0 +1,171 @@
+import { PRICING_TABLE, PRICING_TABLE_VERSION } from "./pricing-table.js";
+import type { ModelBreakdown } from "../types/ccusage.js";
+import type {
+  ModelRates,
+  PricingEntry,
+  PricingOverrides,
+  TokenCosts,
+} from "../types/pricing.js";
+import type { UsageEntry } from "../types/usage.js";
+
+/**
+ * Looks up per-token-type rates for a model at a point in time, with user
+ * overrides from the config layered over the bundled table.
+ */
+export class PricingRegistry {
+  private overrides: PricingOverrides;
+  private table: PricingEntry[];
+
+  constructor(
+    overrides: PricingOverrides = {},
+    table: PricingEntry[] = PRICING_TABLE,
+  ) {
+    this.overrides = overrides;
+    this.table = table;
+  }
+
+  /**
+   * Version of the bundled pricing table
+   */
+  getVersion(): string {
+    return PRICING_TABLE_VERSION;
+  }
+
+  /**
+   * Get the rates for a model, or null if the model isn't priced
+   */
+  getRates(model: string, at: Date = new Date()): ModelRates | null {
+    const base = this.findTableEntry(model, at);
+    const overrideKey = this.findKey(model, Object.keys(this.overrides));
+    const override = overrideKey ? this.overrides[overrideKey] : undefined;
+
+    if (!base && !override) {
+      return null;
+    }
+
+    return {
+      input: override?.input ?? base?.input ?? 0,
+      output: override?.output ?? base?.output ?? 0,
+      cacheWrite: override?.cacheWrite ?? base?.cacheWrite ?? 0,
+      cacheRead: override?.cacheRead ?? base?.cacheRead ?? 0,
+    };
+  }
+
+  /**
+   * Price each token type for a model, or null if the model isn't priced
+   */
+  calculateCosts(
+    model: string,
+    tokens: {
+      inputTokens: number;
+      outputTokens: number;
+      cacheCreationTokens?: number;
+      cacheReadTokens?: number;
+    },
+    at: Date = new Date(),
+  ): TokenCosts | null {
+    const rates = this.getRates(model, at);
+    if (!rates) return null;
+
+    return {
+      input: (tokens.inputTokens * rates.input) / 1_000_000,
+      output: (tokens.outputTokens * rates.output) / 1_000_000,
+      cacheWrite:
+        ((tokens.cacheCreationTokens || 0) * rates.cacheWrite) / 1_000_000,
+      cacheRead: ((tokens.cacheReadTokens || 0) * rates.cacheRead) / 1_000_000,
+    };
+  }
+
+  /**
+   * Aggregate usage entries into per-model breakdowns whose cost is the sum
+   * of their per-token-type costs. Entries for unpriced models fall back to
+   * any cost recorded alongside them.
+   */
+  buildBreakdowns(entries: UsageEntry[]): ModelBreakdown[] {
+    const modelMap = new Map<string, ModelBreakdown>();
+
+    for (const entry of entries) {
+      const existing = modelMap.get(entry.model) || {
+        modelName: entry.model,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        cost: 0,
+      };
+
+      existing.inputTokens += entry.inputTokens;
+      existing.outputTokens += entry.outputTokens;
+      existing.cacheCreationTokens! += entry.cacheCreationTokens;
+      existing.cacheReadTokens! += entry.cacheReadTokens;
+
+      const costs = this.calculateCosts(
+        entry.model,
+        entry,
+        new Date(entry.timestamp),
+      );
+
+      if (costs) {
+        const tokenCosts = existing.tokenCosts || {
+          input: 0,
+          output: 0,
+          cacheWrite: 0,
+          cacheRead: 0,
+        };
+        tokenCosts.input += costs.input;
+        tokenCosts.output += costs.output;
+        tokenCosts.cacheWrite += costs.cacheWrite;
+        tokenCosts.cacheRead += costs.cacheRead;
+        existing.tokenCosts = tokenCosts;
+        existing.cost +=
+          costs.input + costs.output + costs.cacheWrite + costs.cacheRead;
+      } else {
+        existing.cost += entry.costUSD ?? 0;
+      }
+
+      modelMap.set(entry.model, existing);
+    }
+
+    return [...modelMap.values()];
+  }
+
+  /**
+   * Find the table row for a model in effect at the given time. Falls back
+   * to the newest row if none is in effect (e.g. pre-release usage).
+   */
+  private findTableEntry(model: string, at: Date): PricingEntry | null {
+    const key = this.findKey(
+      model,
+      this.table.map((e) => e.model),
+    );
+    if (!key) return null;
+
+    const rows = this.table
+      .filter((e) => e.model === key)
+      .sort((a, b) =>
+        (b.effectiveFrom || "").localeCompare(a.effectiveFrom || ""),
+      );
+
+    const time = at.getTime();
+    const effective = rows.find(
+      (e) =>
+        (!e.effectiveFrom || new Date(e.effectiveFrom).getTime() <= time) &&
+        (!e.effectiveTo || new Date(e.effectiveTo).getTime() > time),
+    );
+
+    return effective || rows[0];
+  }
+
+  /**
+   * Find the key for a model id, ignoring a trailing release date (e.g.
+   * "claude-opus-4-5-20251101"). Nothing else is stripped: a newer model
+   * must not pick up an older family's rates (claude-opus-4-7 isn't
+   * claude-opus-4), so models without their own key are unpriced.
+   */
+  private findKey(model: string, keys: string[]): string | null {
+    if (keys.includes(model)) return model;
+
+    const undated = model.replace(/-\d{8}$/, "");
+    return keys.includes(undated) ? undated : null;
+  }
+}
@@ -0,0 +1,398 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rmdir,
+  stat,
+  unlink,
+  writeFile,
+} from "fs/promises";
+import { randomBytes } from "crypto";
+import { join } from "path";
+import { ThermalPrinterRenderer } from "./thermal-printer.js";
+import { ReceiptLedger } from "./receipt-ledger.js";
+import { getPrinterProfile } from "./printer-profiles.js";
+import { isTransientPrintError } from "./printer-errors.js";
+import type { PrinterProfile, PrintResult } from "../types/printer.js";
+import type { LedgerUpdate } from "../types/ledger.js";
+import type {
+  NewSpoolJob,
+  SpoolFlushResult,
+  SpoolJob,
+} from "../types/spool.js";
+
+// First retry after a minute, doubling up to an hour between attempts
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Stop retrying automatically after about a day
+const MAX_ATTEMPTS = 30;
+// A claim older than this was left behind by a crashed process
+const CLAIM_STALE_MS = 2 * 60 * 1000;
+
+/**
+ * Durable spool for print jobs that couldn't reach the printer, stored
+ * under ~/.claude-receipts/spool as <id>.bin (the printer commands) and
+ * <id>.json (the job's metadata). Jobs are retried with exponential
+ * backoff, and each printer's jobs print in the order they were spooled.
+ */
+export class PrintSpool {
+  private spoolDir: string;
+  private printer = new ThermalPrinterRenderer();
+  private ledger = new ReceiptLedger();
+
+  constructor() {
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    this.spoolDir = join(home, ".claude-receipts", "spool");
+  }
+
+  /**
+   * Send a built job to the printer, spooling it if the printer can't be
+   * reached or isn't ready. Jobs already spooled for the same printer are
+   * retried first, and a new job waits behind any that still fail. Errors
+   * that retrying won't fix (such as an invalid interface) are thrown.
+   *
+   * Only printers we talk to directly (tcp://, usb, serial:, ipp:// and
+   * lpd://) are spooled: the emulator can't be offline, and CUPS keeps its
+   * own queue.
+   */
+  async print(
+    buffer: Buffer,
+    printerInterface: string,
+    profile: PrinterProfile,
+    job: Omit<NewSpoolJob, "printer" | "profile">,
+  ): Promise<PrintResult> {
+    if (!this.canSpool(printerInterface)) {
+      return this.printer.send(buffer, printerInterface, profile);
+    }
+
+    const spoolJob: NewSpoolJob = {
+      ...job,
+      printer: printerInterface,
+      profile: profile.name,
+    };
+
+    const waiting = (await this.list()).filter(
+      (j) => j.printer === printerInterface && j.state === "queued",
+    );
+    const earlier = await this.retry(waiting);
+    const blocked = earlier.failed.find((j) => j.state === "queued");
+    if (blocked) {
+      return {
+        warnings: earlier.warnings,
+        spooled: await this.add(
+          buffer,
+          spoolJob,
+          blocked.lastError || "Printer unavailable",
+        ),
+      };
+    }
+
+    try {
+      const result = await this.printer.send(buffer, printerInterface, profile);
+      return {
+        ...result,
+        warnings: [...earlier.warnings, ...result.warnings],
+      };
+    } catch (error) {
+      if (!isTransientPrintError(error)) {
+        throw error;
+      }
+      return {
+        warnings: earlier.warnings,
+        spooled: await this.add(buffer, spoolJob, this.describe(error)),
+      };
+    }
+  }
+
+  /**
+   * Retry spooled jobs. By default only queued jobs whose backoff has
+   * expired are tried; with force, every job is tried straight away,
+   * including those that have run out of automatic attempts.
+   */
+  async flush(options: { force?: boolean } = {}): Promise<SpoolFlushResult> {
+    const now = Date.now();
+    const jobs = (await this.list()).filter(
+      (job) =>
+        options.force ||
+        (job.state === "queued" &&
+          new Date(job.nextAttemptAt || 0).getTime() <= now),
+    );
+    return this.retry(jobs);
+  }
+
+  /**
+   * List spooled jobs, oldest first
+   */
+  async list(): Promise<SpoolJob[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.spoolDir);
+    } catch {
+      return [];
+    }
+
+    const jobs: SpoolJob[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+      try {
+        jobs.push(
+          JSON.parse(await readFile(join(this.spoolDir, file), "utf-8")),
+        );
+      } catch {
+        // Removed by another process, or a partial write
+      }
+    }
+
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Remove a job from the spool without printing it
+   */
+  async drop(id: string): Promise<SpoolJob> {
+    const job = (await this.list()).find((j) => j.id === id);
+    if (!job) {
+      throw new Error(`Job ${id} not found in the print spool`);
+    }
+
+    await this.remove(job);
+    await this.updateLedger(job, {
+      printStatus: "failed",
+      printError: "Dropped from the print spool",
+    });
+    return job;
+  }
+
+  /**
+   * Get the spool directory path
+   */
+  getSpoolPath(): string {
+    return this.spoolDir;
+  }
+
+  /**
+   * Persist a job that couldn't be printed, scheduling its first retry
+   */
+  private async add(
+    buffer: Buffer,
+    job: NewSpoolJob,
+    error: string,
+  ): Promise<SpoolJob> {
+    const now = new Date();
+    const spooled: SpoolJob = {
+      ...job,
+      id: randomBytes(4).toString("hex"),
+      createdAt: now.toISOString(),
+      size: buffer.length,
+      state: "queued",
+      attempts: 1,
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: new Date(now.getTime() + this.backoff(1)).toISOString(),
+      lastError: error,
+    };
+
+    await mkdir(this.spoolDir, { recursive: true });
+    // Write the data first: a job only becomes visible once its metadata
+    // exists
+    await writeFile(this.dataPath(spooled), buffer);
+    await this.save(spooled);
+    return spooled;
+  }
+
+  /**
+   * Retry jobs in order. A printer's remaining jobs are skipped after one
+   * of its jobs fails, so they can't print out of order.
+   */
+  private async retry(jobs: SpoolJob[]): Promise<SpoolFlushResult> {
+    const result: SpoolFlushResult = { printed: [], failed: [], warnings: [] };
+    const unavailable = new Set<string>();
+
+    for (const listed of jobs) {
+      if (unavailable.has(listed.printer) || !(await this.claim(listed))) {
+        continue;
+      }
+
+      // Another run may have printed or dropped it since it was listed
+      const job = await this.load(listed.id);
+      if (!job) {
+        await this.release(listed);
+        continue;
+      }
+
+      try {
+        const buffer = await readFile(this.dataPath(job));
+        const sent = await this.printer.send(
+          buffer,
+          job.printer,
+          getPrinterProfile(job.profile),
+        );
+
+        await this.remove(job);
+        await this.updateLedger(job, {
+          printStatus: "printed",
+          printError: undefined,
+        });
+        result.printed.push(job);
+        result.warnings.push(...sent.warnings);
+      } catch (error) {
+        const failed = await this.recordFailure(
+          job,
+          this.describe(error),
+          !isTransientPrintError(error),
+        );
+        result.failed.push(failed);
+        unavailable.add(job.printer);
+      } finally {
+        await this.release(job);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Schedule the next retry after a failed attempt, or give up once the
+   * job has used all its automatic attempts or failed in a way retrying
+   * won't fix
+   */
+  private async recordFailure(
+    job: SpoolJob,
+    error: string,
+    permanent: boolean,
+  ): Promise<SpoolJob> {
+    const now = new Date();
+    const attempts = job.attempts + 1;
+    const gaveUp = permanent || attempts >= MAX_ATTEMPTS;
+
+    const updated: SpoolJob = {
+      ...job,
+      state: gaveUp ? "failed" : "queued",
+      attempts,
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: gaveUp
+        ? undefined
+        : new Date(now.getTime() + this.backoff(attempts)).toISOString(),
+      lastError: error,
+    };
+    await this.save(updated);
+
+    if (gaveUp && job.state === "queued") {
+      await this.updateLedger(job, {
+        printStatus: "failed",
+        printError: error,
+      });
+    }
+    return updated;
+  }
+
+  /**
+   * Delay before the next attempt: 1, 2, 4 ... minutes, capped at an hour
+   */
+  private backoff(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  }
+
+  /**
+   * Take a job so that concurrent runs (e.g. two sessions ending at once)
+   * can't print it twice. Returns false if another process has it.
+   */
+  private async claim(job: SpoolJob): Promise<boolean> {
+    const lockPath = this.lockPath(job);
+
+    try {
+      await mkdir(lockPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    // Break claims left behind by a crashed process
+    try {
+      const { mtimeMs } = await stat(lockPath);
+      if (Date.now() - mtimeMs <= CLAIM_STALE_MS) {
+        return false;
+      }
+      await rmdir(lockPath);
+      await mkdir(lockPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async release(job: SpoolJob): Promise<void> {
+    await rmdir(this.lockPath(job)).catch(() => {});
+  }
+
+  private async load(id: string): Promise<SpoolJob | undefined> {
+    try {
+      return JSON.parse(
+        await readFile(join(this.spoolDir, `${id}.json`), "utf-8"),
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a job's metadata atomically
+   */
+  private async save(job: SpoolJob): Promise<void> {
+    const path = this.metadataPath(job);
+    await writeFile(`${path}.tmp`, JSON.stringify(job, null, 2), "utf-8");
+    await rename(`${path}.tmp`, path);
+  }
+
+  private async remove(job: SpoolJob): Promise<void> {
+    await unlink(this.metadataPath(job)).catch(() => {});
+    await unlink(this.dataPath(job)).catch(() => {});
+  }
+
+  /**
+   * Record a spooled receipt's print status in the ledger. Ledger failures
+   * never affect the spool.
+   */
+  private async updateLedger(
+    job: SpoolJob,
+    changes: LedgerUpdate,
+  ): Promise<void> {
+    if (job.receiptNumber === undefined) {
+      return;
+    }
+
+    try {
+      await this.ledger.update(job.receiptNumber, changes);
+    } catch {
+      // The receipt may predate the ledger, or the ledger is unreadable
+    }
+  }
+
+  private canSpool(printerInterface: string): boolean {
+    return (
+      printerInterface.startsWith("tcp://") ||
+      printerInterface === "usb" ||
+      printerInterface.startsWith("usb:") ||
+      printerInterface.startsWith("serial:") ||
+      printerInterface.startsWith("ipp://") ||
+      printerInterface.startsWith("lpd://")
+    );
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private dataPath(job: SpoolJob): string {
+    return join(this.spoolDir, `${job.id}.bin`);
+  }
+
+  private metadataPath(job: SpoolJob): string {
+    return join(this.spoolDir, `${job.id}.json`);
+  }
+
+  private lockPath(job: SpoolJob): string {
+    return join(this.spoolDir, `${job.id}.lock`);
+  }
+}
@@ -0,0 +1,500 @@
+import type { MonochromeBitmap, UnicodeFont } from "../types/image.js";
+import type {
+  CodePage,
+  CodePageName,
+  PrinterProfile,
+} from "../types/printer.js";
+import { getCodePage } from "./code-pages.js";
+import { ditherImage } from "../utils/dither.js";
+import { drawQrCode, drawText } from "../utils/graphics.js";
+import { code128Set } from "../utils/barcode.js";
+import {
+  canEncode,
+  encodeText,
+  transliterate,
+} from "../utils/text-encoding.js";
+
+export const CHAR_WIDTH_DOTS = 12; // Font A
+export const CHAR_HEIGHT_DOTS = 24;
+
+// Tallest raster band per command; some printers drop larger images
+const RASTER_BAND_HEIGHT = 256;
+
+// Narrowest bar of a Code128 barcode, in dots
+const BARCODE_MODULE_DOTS = 2;
+
+// Command bytes
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type Alignment = "left" | "center" | "right";
+
+/**
+ * Buffer builder for printer commands, laid out for a printer profile.
+ * Text layout helpers are shared; each printer family implements the
+ * formatting, image, barcode, QR code and cut commands in its own
+ * dialect.
+ *
+ * Text is encoded in the selected code page. Characters it doesn't have
+ * are transliterated, unless a Unicode font is given: then lines using
+ * them (e.g. CJK) are printed as images instead.
+ */
+export abstract class PrinterCommandBuilder {
+  protected chunks: Buffer[] = [];
+  protected encoding: CodePage;
+  // Text style, for drawing image lines to match
+  protected emphasized = false;
+  protected doubled = false;
+
+  constructor(
+    protected profile: PrinterProfile,
+    protected font?: UnicodeFont,
+  ) {
+    this.encoding = getCodePage(profile.codePage);
+  }
+
+  /** Append raw bytes. */
+  raw(...bytes: number[]): this {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  /** Append a string in the current code page (no newline). */
+  text(s: string): this {
+    this.chunks.push(
+      encodeText(transliterate(s, this.encoding), this.encoding),
+    );
+    return this;
+  }
+
+  /** Append a string followed by LF. */
+  line(s: string = ""): this {
+    const printable = this.printable(s);
+    if (!canEncode(printable, this.encoding)) {
+      return this.textImage(printable);
+    }
+    return this.text(printable).raw(LF);
+  }
+
+  /** Print a full line of a repeated character. */
+  drawLine(char: string = "="): this {
+    return this.line(char.repeat(this.profile.charsPerLine));
+  }
+
+  /** Print a two-column row: left-aligned label, right-aligned value. */
+  leftRight(left: string, right: string): this {
+    left = this.printable(left);
+    right = this.printable(right);
+    const gap =
+      this.profile.charsPerLine - this.columnsOf(left) - this.columnsOf(right);
+    if (gap < 1) {
+      return this.line(`${left} ${right}`);
+    }
+    return this.line(`${left}${" ".repeat(gap)}${right}`);
+  }
+
+  /**
+   * Print a three-column row: label, right-aligned quantity and a
+   * right-aligned price in a fixed-width final column.
+   */
+  columns(left: string, middle: string, right: string): this {
+    const priceWidth = 9;
+    return this.leftRight(left, `${middle}${right.padStart(priceWidth)}`);
+  }
+
+  /** Return the complete buffer. */
+  build(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  /** Reset the printer to its power-on state. */
+  abstract init(): this;
+
+  /** Select the character code table used for text from here on. */
+  abstract codePage(name: CodePageName): this;
+
+  /** Set the left margin in dots. */
+  abstract leftMargin(dots: number): this;
+
+  /** Bold on/off. */
+  abstract bold(on: boolean): this;
+
+  /** Text, image and QR code alignment. */
+  abstract align(mode: Alignment): this;
+
+  /** Double-height + double-width text. */
+  abstract doubleSize(): this;
+
+  /** Reset to normal size. */
+  abstract normalSize(): this;
+
+  /** Print a raster bit image at the current alignment. */
+  abstract image(bitmap: MonochromeBitmap): this;
+
+  /** Print a QR code (model 2, error correction M). */
+  abstract qrCode(data: string, cellSize?: number): this;
+
+  /** Print a Code128 barcode with its text beneath. */
+  abstract barcode(data: string, height?: number): this;
+
+  /** Cut (or feed for tearing off) as the profile allows. */
+  abstract cut(): this;
+
+  /**
+   * Split a bitmap into bands of at most RASTER_BAND_HEIGHT rows
+   */
+  protected bands(
+    bitmap: MonochromeBitmap,
+    emit: (rows: number, data: Buffer) => void,
+  ): this {
+    const { bytesPerRow } = bitmap;
+
+    for (let top = 0; top < bitmap.height; top += RASTER_BAND_HEIGHT) {
+      const rows = Math.min(RASTER_BAND_HEIGHT, bitmap.height - top);
+      emit(
+        rows,
+        Buffer.from(
+          bitmap.data.subarray(top * bytesPerRow, (top + rows) * bytesPerRow),
+        ),
+      );
+    }
+
+    return this;
+  }
+
+  /**
+   * Print a QR code as a raster image, for printers without native support
+   */
+  protected rasterQrCode(data: string, cellSize: number): this {
+    return this.image(ditherImage(drawQrCode(data, cellSize), "threshold"));
+  }
+
+  /**
+   * Text made printable: transliterated into the code page, keeping
+   * characters the Unicode font can draw
+   */
+  protected printable(s: string): string {
+    const font = this.font;
+    return transliterate(
+      s,
+      this.encoding,
+      font && ((char) => font.glyphs.has(char.codePointAt(0)!)),
+    );
+  }
+
+  /**
+   * Character columns printable text takes up (full-width glyphs take two)
+   */
+  protected columnsOf(s: string): number {
+    let columns = 0;
+    for (const char of s) {
+      const glyph = canEncode(char, this.encoding)
+        ? undefined
+        : this.font?.glyphs.get(char.codePointAt(0)!);
+      columns += glyph && glyph.width > 8 ? 2 : 1;
+    }
+    return columns;
+  }
+
+  /**
+   * Print a line the code page can't encode as an image drawn with the
+   * Unicode font, in the current text style
+   */
+  protected textImage(s: string): this {
+    const scale = this.doubled ? 2 : 1;
+    const image = drawText(s, this.font!, CHAR_WIDTH_DOTS, CHAR_HEIGHT_DOTS, {
+      bold: this.emphasized,
+      scale,
+    });
+    return this.image(ditherImage(image, "threshold"));
+  }
+}
+
+/** Epson ESC/POS (also spoken by most generic thermal printers). */
+export class EscPosBuilder extends PrinterCommandBuilder {
+  /** ESC @ — initialize printer. */
+  init(): this {
+    return this.raw(ESC, 0x40);
+  }
+
+  /** ESC t n — select character code table. */
+  codePage(name: CodePageName): this {
+    this.encoding = getCodePage(name);
+    return this.raw(ESC, 0x74, this.encoding.escpos);
+  }
+
+  /** GS L nL nH — set left margin in motion units (1/203 inch). */
+  leftMargin(dots: number): this {
+    return this.raw(GS, 0x4c, dots & 0xff, (dots >> 8) & 0xff);
+  }
+
+  /** ESC E n — bold on/off. */
+  bold(on: boolean): this {
+    this.emphasized = on;
+    return this.raw(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /** ESC a n — alignment (0=left, 1=center, 2=right). */
+  align(mode: Alignment): this {
+    const n = mode === "left" ? 0 : mode === "center" ? 1 : 2;
+    return this.raw(ESC, 0x61, n);
+  }
+
+  /**
+   * ESC ! n — select print mode.
+   *   bit 3 = bold, bit 4 = double height, bit 5 = double width
+   *   0x00 = normal, 0x30 = double-height + double-width
+   */
+  printMode(n: number): this {
+    this.emphasized = (n & 0x08) !== 0;
+    this.doubled = (n & 0x30) === 0x30;
+    return this.raw(ESC, 0x21, n);
+  }
+
+  /** Convenience: double-height + double-width text. */
+  doubleSize(): this {
+    return this.printMode(0x30);
+  }
+
+  /** Convenience: reset to normal size. */
+  normalSize(): this {
+    return this.printMode(0x00);
+  }
+
+  /** GS v 0 m xL xH yL yH d1...dk — print a raster bit image. */
+  image(bitmap: MonochromeBitmap): this {
+    const { bytesPerRow } = bitmap;
+
+    return this.bands(bitmap, (rows, data) => {
+      this.raw(
+        GS,
+        0x76,
+        0x30,
+        0,
+        bytesPerRow & 0xff,
+        (bytesPerRow >> 8) & 0xff,
+        rows & 0xff,
+        (rows >> 8) & 0xff,
+      );
+      this.chunks.push(data);
+    });
+  }
+
+  /**
+   * QR code via GS ( k commands (Epson model 2).
+   *   1) Select model 2
+   *   2) Set cell size
+   *   3) Set error correction (M)
+   *   4) Store data
+   *   5) Print stored data
+   * Printers without QR support get the symbol as a raster image instead.
+   */
+  qrCode(data: string, cellSize: number = 6): this {
+    if (!this.profile.qrCode) {
+      return this.rasterQrCode(data, cellSize);
+    }
+
+    const d = Buffer.from(data, "utf-8");
+
+    // Function 165 — select QR model 2
+    this.raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 50, 0);
+    // Function 167 — set cell size
+    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, cellSize);
+    // Function 169 — error correction level M (49)
+    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 49);
+    // Function 180 — store data
+    const storeLen = d.length + 3;
+    this.raw(
+      GS,
+      0x28,
+      0x6b,
+      storeLen & 0xff,
+      (storeLen >> 8) & 0xff,
+      0x31,
+      0x50,
+      0x30,
+    );
+    this.chunks.push(d);
+    // Function 181 — print
+    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+
+    return this;
+  }
+
+  /**
+   * Code128 barcode via GS k.
+   *   1) GS h n — bar height in dots
+   *   2) GS w n — module width in dots
+   *   3) GS H 2 — print the text below the bars, GS f 0 in Font A
+   *   4) GS k 73 n d1...dn — data, prefixed with the code set ("{B" or
+   *      "{C", digit pairs then sent as single bytes)
+   */
+  barcode(data: string, height: number = 64): this {
+    const set = code128Set(data);
+    const d =
+      set === "C"
+        ? Buffer.from((data.match(/\d\d/g) || []).map((p) => parseInt(p, 10)))
+        : // A literal "{" is sent as "{{"
+          Buffer.from(data.replace(/\{/g, "{{"), "ascii");
+
+    this.raw(GS, 0x68, height);
+    this.raw(GS, 0x77, BARCODE_MODULE_DOTS);
+    this.raw(GS, 0x48, 2);
+    this.raw(GS, 0x66, 0);
+    this.raw(GS, 0x6b, 73, d.length + 2, 0x7b, set.charCodeAt(0));
+    this.chunks.push(d);
+
+    return this;
+  }
+
+  /**
+   * GS V 66 3 (partial) or GS V 65 3 (full), both with feed. Without a
+   * cutter, ESC d 4 feeds the receipt past the tear bar.
+   */
+  cut(): this {
+    switch (this.profile.cut) {
+      case "partial":
+        return this.raw(GS, 0x56, 0x42, 3);
+      case "full":
+        return this.raw(GS, 0x56, 0x41, 3);
+      case "none":
+        return this.raw(ESC, 0x64, 4);
+    }
+  }
+}
+
+/** Star Line Mode (Star TSP100, TSP650 and friends). */
+export class StarLineBuilder extends PrinterCommandBuilder {
+  /** ESC @ — initialize printer. */
+  init(): this {
+    return this.raw(ESC, 0x40);
+  }
+
+  /** ESC GS t n — select code page (1 = CP437). */
+  codePage(name: CodePageName): this {
+    const page = getCodePage(name);
+    if (page.star === undefined) {
+      throw new Error(
+        `${this.profile.displayName} has no ${page.displayName} code page. Try cp858 instead.`,
+      );
+    }
+    this.encoding = page;
+    return this.raw(ESC, GS, 0x74, page.star);
+  }
+
+  /** ESC l n — left margin, in whole characters. */
+  leftMargin(dots: number): this {
+    return this.raw(ESC, 0x6c, Math.round(dots / CHAR_WIDTH_DOTS));
+  }
+
+  /** ESC E / ESC F — emphasized printing on/off. */
+  bold(on: boolean): this {
+    this.emphasized = on;
+    return this.raw(ESC, on ? 0x45 : 0x46);
+  }
+
+  /** ESC GS a n — alignment (0=left, 1=center, 2=right). */
+  align(mode: Alignment): this {
+    const n = mode === "left" ? 0 : mode === "center" ? 1 : 2;
+    return this.raw(ESC, GS, 0x61, n);
+  }
+
+  /** ESC i n1 n2 — character expansion (height, width multiplier - 1). */
+  doubleSize(): this {
+    this.doubled = true;
+    return this.raw(ESC, 0x69, 1, 1);
+  }
+
+  /** ESC i 0 0 — normal size. */
+  normalSize(): this {
+    this.doubled = false;
+    return this.raw(ESC, 0x69, 0, 0);
+  }
+
+  /** ESC GS S 1 xL xH yL yH 0 d1...dk — print monochrome raster data. */
+  image(bitmap: MonochromeBitmap): this {
+    const { bytesPerRow } = bitmap;
+
+    return this.bands(bitmap, (rows, data) => {
+      this.raw(
+        ESC,
+        GS,
+        0x53,
+        1,
+        bytesPerRow & 0xff,
+        (bytesPerRow >> 8) & 0xff,
+        rows & 0xff,
+        (rows >> 8) & 0xff,
+        0,
+      );
+      this.chunks.push(data);
+    });
+  }
+
+  /**
+   * QR code via ESC GS y commands.
+   *   1) ESC GS y S 0 n — model 2
+   *   2) ESC GS y S 1 n — error correction M
+   *   3) ESC GS y S 2 n — cell size (1-8)
+   *   4) ESC GS y D 1 0 nL nH d — store data (automatic mode)
+   *   5) ESC GS y P — print
+   */
+  qrCode(data: string, cellSize: number = 6): this {
+    if (!this.profile.qrCode) {
+      return this.rasterQrCode(data, cellSize);
+    }
+
+    const d = Buffer.from(data, "utf-8");
+
+    this.raw(ESC, GS, 0x79, 0x53, 0x30, 2);
+    this.raw(ESC, GS, 0x79, 0x53, 0x31, 1);
+    this.raw(ESC, GS, 0x79, 0x53, 0x32, Math.min(8, Math.max(1, cellSize)));
+    this.raw(ESC, GS, 0x79, 0x44, 0x31, 0, d.length & 0xff, d.length >> 8);
+    this.chunks.push(d);
+    this.raw(ESC, GS, 0x79, 0x50);
+
+    return this;
+  }
+
+  /**
+   * ESC b n1 n2 n3 n4 d1...dk RS — Code128 barcode (n1 = 6) with the text
+   * beneath and a line feed (n2 = 2), 2-dot modules (n3 = 1) and n4 dots
+   * high. The printer picks the code sets.
+   */
+  barcode(data: string, height: number = 64): this {
+    this.raw(ESC, 0x62, 0x36, 0x32, 0x31, height);
+    this.chunks.push(Buffer.from(data, "ascii"));
+    return this.raw(0x1e);
+  }
+
+  /**
+   * ESC d 3 (partial) or ESC d 2 (full), both after feeding to the
+   * cutter. Without a cutter, ESC a 4 feeds past the tear bar.
+   */
+  cut(): this {
+    switch (this.profile.cut) {
+      case "partial":
+        return this.raw(ESC, 0x64, 3);
+      case "full":
+        return this.raw(ESC, 0x64, 2);
+      case "none":
+        return this.raw(ESC, 0x61, 4);
+    }
+  }
+}
+
+/**
+ * Create a command builder for the profile's printer family
+ */
+export function createCommandBuilder(
+  profile: PrinterProfile,
+  font?: UnicodeFont,
+): PrinterCommandBuilder {
+  switch (profile.commandSet) {
+    case "star-line":
+      return new StarLineBuilder(profile, font);
+    case "escpos":
+      return new EscPosBuilder(profile, font);
+  }
+}
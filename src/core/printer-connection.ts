@@ -0,0 +1,558 @@
+import { createConnection } from "net";
+import { execFile } from "child_process";
+import { constants, readSync } from "fs";
+import { open } from "fs/promises";
+import { isatty } from "tty";
+import { promisify } from "util";
+import type { InEndpoint, OutEndpoint } from "usb";
+import type {
+  PrinterProfile,
+  SerialFlowControl,
+  SerialParity,
+  SerialSettings,
+} from "../types/printer.js";
+import {
+  isUnreachableCode,
+  PrinterUnavailableError,
+} from "./printer-errors.js";
+
+const execFileAsync = promisify(execFile);
+
+// Give up on unreachable hosts well before the OS connect timeout
+const CONNECT_TIMEOUT_MS = 10000;
+
+// Speeds stty accepts that receipt printers commonly use
+const SERIAL_BAUD_RATES = [1200, 2400, 4800, 9600, 19200, 38400, 57600, 115200];
+const SERIAL_PARITIES: SerialParity[] = ["none", "even", "odd"];
+const SERIAL_FLOW_CONTROLS: SerialFlowControl[] = ["none", "rtscts", "xonxoff"];
+// How often a serial port is checked for room to write or data to read
+const SERIAL_POLL_MS = 10;
+// How long a serial printer may hold off (CTS low or XOFF) before we
+// give up, e.g. while it's out of paper
+const SERIAL_STALL_TIMEOUT_MS = 30000;
+
+/**
+ * A two-way byte stream to a printer
+ */
+export interface PrinterConnection {
+  write(data: Buffer): Promise<void>;
+  /**
+   * Read exactly `length` bytes, or undefined if they don't arrive in time
+   * (or the connection can't read at all)
+   */
+  read(length: number, timeoutMs: number): Promise<Buffer | undefined>;
+  /** Drop anything received but not yet read. */
+  discardInput(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Connect to a network printer ("tcp://host:port", port defaults to 9100)
+ */
+export async function openTcpConnection(
+  address: string,
+): Promise<PrinterConnection> {
+  const url = new URL(address);
+  const host = url.hostname;
+  const port = parseInt(url.port || "9100", 10);
+
+  const socket = createConnection({ host, port });
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(
+        new PrinterUnavailableError(
+          `TCP printer connection failed: no answer from ${host}:${port}`,
+        ),
+      );
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.once("connect", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    socket.once("error", (err: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      const message = `TCP printer connection failed: ${err.message}`;
+      reject(
+        isUnreachableCode(err.code)
+          ? new PrinterUnavailableError(message)
+          : new Error(message),
+      );
+    });
+  });
+
+  let received = Buffer.alloc(0);
+  let failure: Error | undefined;
+  let notify: (() => void) | undefined;
+
+  socket.on("data", (chunk) => {
+    received = Buffer.concat([received, chunk]);
+    notify?.();
+  });
+  // Once connected, a failure means the printer went away mid-job
+  socket.on("error", (err) => {
+    failure = new PrinterUnavailableError(
+      `TCP printer connection failed: ${err.message}`,
+    );
+    notify?.();
+  });
+  socket.on("close", () => notify?.());
+
+  return {
+    write(data) {
+      return new Promise((resolve, reject) => {
+        if (failure) return reject(failure);
+        socket.write(data, (err) =>
+          err
+            ? reject(
+                new PrinterUnavailableError(
+                  `TCP printer write failed: ${err.message}`,
+                ),
+              )
+            : resolve(),
+        );
+      });
+    },
+
+    async read(length, timeoutMs) {
+      const deadline = Date.now() + timeoutMs;
+
+      while (received.length < length) {
+        if (failure) throw failure;
+        const remaining = deadline - Date.now();
+        if (remaining <= 0 || socket.destroyed) return undefined;
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, remaining);
+          notify = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        notify = undefined;
+      }
+
+      const data = received.subarray(0, length);
+      received = received.subarray(length);
+      return data;
+    },
+
+    discardInput() {
+      received = Buffer.alloc(0);
+    },
+
+    close() {
+      return new Promise((resolve) => {
+        socket.end(() => {
+          socket.destroy();
+          resolve();
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Open a USB printer via libusb.
+ *
+ * @param spec "usb" for the profile's device, or "usb:VID:PID" for a
+ *   specific device
+ */
+export async function openUsbConnection(
+  spec: string,
+  profile: PrinterProfile,
+): Promise<PrinterConnection> {
+  const { findByIds, getDeviceList, InEndpoint, OutEndpoint } =
+    await import("usb");
+
+  let vid = profile.usb?.vendorId;
+  let pid = profile.usb?.productId;
+
+  // Parse "usb:VID:PID" if provided
+  if (spec.startsWith("usb:")) {
+    const parts = spec.split(":");
+    if (parts.length >= 3) {
+      vid = parseInt(parts[1], 16);
+      pid = parseInt(parts[2], 16);
+    }
+  }
+
+  if (vid === undefined || pid === undefined) {
+    throw new Error(
+      `The ${profile.displayName} profile has no default USB device. Use --printer usb:VID:PID (hex IDs).`,
+    );
+  }
+
+  const device = findByIds(vid, pid);
+  if (!device) {
+    // List what USB devices we can see to help debug
+    const devices = getDeviceList();
+    const summary = devices
+      .slice(0, 10)
+      .map(
+        (d) =>
+          `  ${d.deviceDescriptor.idVendor.toString(16)}:${d.deviceDescriptor.idProduct.toString(16)}`,
+      )
+      .join("\n");
+
+    // Most often the printer is switched off or unplugged
+    throw new PrinterUnavailableError(
+      `USB printer not found (looking for ${vid.toString(16)}:${pid.toString(16)}).\n` +
+        `Visible USB devices:\n${summary || "  (none)"}`,
+    );
+  }
+
+  device.open();
+
+  try {
+    const iface = device.interface(0);
+
+    // Detach kernel driver if active (e.g. macOS claiming the device)
+    if (iface.isKernelDriverActive()) {
+      iface.detachKernelDriver();
+    }
+
+    iface.claim();
+
+    // Bulk OUT to the printer, and IN (when present) for status replies
+    const outEndpoint = iface.endpoints.find(
+      (ep): ep is OutEndpoint => ep instanceof OutEndpoint,
+    );
+    const inEndpoint = iface.endpoints.find(
+      (ep): ep is InEndpoint => ep instanceof InEndpoint,
+    );
+
+    if (!outEndpoint) {
+      throw new Error(
+        "No OUT endpoint found on USB interface 0. " +
+          `Endpoints: ${iface.endpoints.map((e) => `${e.address} (${e.direction})`).join(", ")}`,
+      );
+    }
+
+    let received = Buffer.alloc(0);
+
+    return {
+      async write(data) {
+        try {
+          await outEndpoint.transferAsync(data);
+        } catch (err) {
+          throw new PrinterUnavailableError(
+            `USB printer write failed: ${(err as Error).message}`,
+          );
+        }
+      },
+
+      async read(length, timeoutMs) {
+        if (!inEndpoint) return undefined;
+        const deadline = Date.now() + timeoutMs;
+
+        while (received.length < length) {
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) return undefined;
+
+          inEndpoint.timeout = remaining;
+          try {
+            const chunk = await inEndpoint.transferAsync(
+              inEndpoint.descriptor.wMaxPacketSize,
+            );
+            if (chunk) {
+              received = Buffer.concat([received, chunk]);
+            }
+          } catch {
+            // Timed out (or the printer doesn't answer on this endpoint)
+            return undefined;
+          }
+        }
+
+        const data = received.subarray(0, length);
+        received = received.subarray(length);
+        return data;
+      },
+
+      discardInput() {
+        received = Buffer.alloc(0);
+      },
+
+      async close() {
+        try {
+          await iface.releaseAsync();
+        } finally {
+          device.close();
+        }
+      },
+    };
+  } catch (error) {
+    device.close();
+    throw error;
+  }
+}
+
+/**
+ * Parse a "serial:/dev/ttyUSB0?baud=19200&flow=rtscts" interface. Settings
+ * default to 9600 baud, 8 data bits, no parity, 1 stop bit and no flow
+ * control.
+ */
+export function parseSerialInterface(spec: string): SerialSettings {
+  const [path, query = ""] = spec.slice("serial:".length).split("?", 2);
+  if (!path) {
+    throw new Error(
+      'Serial printer needs a device, e.g. "serial:/dev/ttyUSB0?baud=19200"',
+    );
+  }
+
+  const settings: SerialSettings = {
+    path,
+    baud: 9600,
+    dataBits: 8,
+    stopBits: 1,
+    parity: "none",
+    flow: "none",
+  };
+
+  for (const [key, value] of new URLSearchParams(query)) {
+    switch (key) {
+      case "baud":
+        settings.baud = parseInt(value, 10);
+        if (!SERIAL_BAUD_RATES.includes(settings.baud)) {
+          throw new Error(
+            `Invalid serial baud: ${value}. Valid rates: ${SERIAL_BAUD_RATES.join(", ")}`,
+          );
+        }
+        break;
+      case "bits":
+        if (value !== "7" && value !== "8") {
+          throw new Error(`Invalid serial bits: ${value}. Valid values: 7, 8`);
+        }
+        settings.dataBits = value === "7" ? 7 : 8;
+        break;
+      case "stop":
+        if (value !== "1" && value !== "2") {
+          throw new Error(`Invalid serial stop: ${value}. Valid values: 1, 2`);
+        }
+        settings.stopBits = value === "2" ? 2 : 1;
+        break;
+      case "parity":
+        if (!SERIAL_PARITIES.includes(value as SerialParity)) {
+          throw new Error(
+            `Invalid serial parity: ${value}. Valid values: ${SERIAL_PARITIES.join(", ")}`,
+          );
+        }
+        settings.parity = value as SerialParity;
+        break;
+      case "flow":
+        if (!SERIAL_FLOW_CONTROLS.includes(value as SerialFlowControl)) {
+          throw new Error(
+            `Invalid serial flow: ${value}. Valid values: ${SERIAL_FLOW_CONTROLS.join(", ")}`,
+          );
+        }
+        settings.flow = value as SerialFlowControl;
+        break;
+      default:
+        throw new Error(
+          `Unknown serial setting: ${key}. Valid settings: baud, bits, stop, parity, flow`,
+        );
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Open a serial (RS-232 or USB-CDC) printer and configure the line with
+ * stty.
+ *
+ * Flow control is left to the serial driver, which stops sending while
+ * the printer drops CTS ("rtscts") or after it sends XOFF until it sends
+ * XON ("xonxoff"), so long jobs don't overrun the printer's buffer.
+ */
+export async function openSerialConnection(
+  spec: string,
+): Promise<PrinterConnection> {
+  const settings = parseSerialInterface(spec);
+  const { path } = settings;
+
+  if (process.platform === "win32") {
+    throw new Error(
+      "Serial printers are configured with stty, which needs macOS or Linux",
+    );
+  }
+
+  let handle;
+  try {
+    // Non-blocking, so a stalled printer can't hang us, and without
+    // making the port our controlling terminal
+    handle = await open(
+      path,
+      constants.O_RDWR | constants.O_NOCTTY | constants.O_NONBLOCK,
+    );
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      throw new Error(`Serial port not found: ${path}`);
+    }
+    if (code === "EACCES") {
+      throw new Error(
+        `Permission denied opening ${path}. On Linux, add yourself to the dialout group.`,
+      );
+    }
+    throw new Error(
+      `Serial printer connection failed: ${(err as Error).message}`,
+    );
+  }
+
+  try {
+    if (!isatty(handle.fd)) {
+      throw new Error(`${path} is not a serial port`);
+    }
+
+    // Configure while we hold the port open, so the settings stick
+    const device = process.platform === "darwin" ? "-f" : "-F";
+    try {
+      await execFileAsync("stty", [device, path, ...sttyArgs(settings)]);
+    } catch (err) {
+      const { stderr } = err as { stderr?: string };
+      throw new Error(
+        `Could not configure serial port ${path} (does it support these settings?): ${stderr?.trim() || (err as Error).message}`,
+      );
+    }
+  } catch (error) {
+    await handle.close();
+    throw error;
+  }
+
+  const { fd } = handle;
+  let received = Buffer.alloc(0);
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+  const wouldBlock = (err: unknown) =>
+    (err as NodeJS.ErrnoException).code === "EAGAIN";
+
+  return {
+    async write(data) {
+      let offset = 0;
+      let lastProgress = Date.now();
+
+      while (offset < data.length) {
+        let written = 0;
+        try {
+          ({ bytesWritten: written } = await handle.write(
+            data,
+            offset,
+            data.length - offset,
+          ));
+        } catch (err) {
+          if (!wouldBlock(err)) {
+            throw new Error(
+              `Serial printer write failed: ${(err as Error).message}`,
+            );
+          }
+        }
+
+        if (written > 0) {
+          offset += written;
+          lastProgress = Date.now();
+          continue;
+        }
+
+        // The driver's buffer is full: the printer is holding us off
+        if (Date.now() - lastProgress > SERIAL_STALL_TIMEOUT_MS) {
+          throw new PrinterUnavailableError(
+            `Serial printer stopped accepting data for ${SERIAL_STALL_TIMEOUT_MS / 1000}s (busy, out of paper or offline?)`,
+          );
+        }
+        await wait(SERIAL_POLL_MS);
+      }
+    },
+
+    async read(length, timeoutMs) {
+      const deadline = Date.now() + timeoutMs;
+      const chunk = Buffer.alloc(64);
+
+      while (received.length < length) {
+        try {
+          const { bytesRead } = await handle.read(chunk, 0, chunk.length);
+          if (bytesRead === 0) {
+            // Hung up
+            return undefined;
+          }
+          received = Buffer.concat([received, chunk.subarray(0, bytesRead)]);
+          continue;
+        } catch (err) {
+          if (!wouldBlock(err)) {
+            throw new Error(
+              `Serial printer read failed: ${(err as Error).message}`,
+            );
+          }
+        }
+
+        if (Date.now() >= deadline) return undefined;
+        await wait(SERIAL_POLL_MS);
+      }
+
+      const data = received.subarray(0, length);
+      received = received.subarray(length);
+      return data;
+    },
+
+    discardInput() {
+      received = Buffer.alloc(0);
+
+      // Also drop anything waiting in the driver, such as a late reply
+      const scratch = Buffer.alloc(64);
+      try {
+        while (readSync(fd, scratch) > 0) {
+          // Discard
+        }
+      } catch {
+        // Nothing left to read
+      }
+    },
+
+    close() {
+      return handle.close();
+    },
+  };
+}
+
+/**
+ * stty arguments for raw 8-bit transfer with the given line settings
+ */
+function sttyArgs(settings: SerialSettings): string[] {
+  const args = [
+    String(settings.baud),
+    "raw",
+    "-echo",
+    "clocal",
+    "cread",
+    `cs${settings.dataBits}`,
+    settings.stopBits === 2 ? "cstopb" : "-cstopb",
+  ];
+
+  switch (settings.parity) {
+    case "none":
+      args.push("-parenb");
+      break;
+    case "even":
+      args.push("parenb", "-parodd");
+      break;
+    case "odd":
+      args.push("parenb", "parodd");
+      break;
+  }
+
+  switch (settings.flow) {
+    case "none":
+      args.push("-crtscts", "-ixon", "-ixoff");
+      break;
+    case "rtscts":
+      args.push("crtscts", "-ixon", "-ixoff");
+      break;
+    case "xonxoff":
+      // Only the printer sends XON/XOFF; any byte mustn't restart output
+      args.push("-crtscts", "ixon", "-ixany", "-ixoff");
+      break;
+  }
+
+  return args;
+}
@@ -0,0 +1,203 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { createConnection } from "net";
+import { networkInterfaces } from "os";
+import { PRINTER_PROFILES } from "./printer-profiles.js";
+import type { DiscoveredPrinter } from "../types/printer.js";
+
+const execAsync = promisify(exec);
+
+// USB vendor IDs of receipt printer makers
+export const RECEIPT_PRINTER_VENDORS: Record<number, string> = {
+  0x04b8: "Epson",
+  0x0519: "Star Micronics",
+  0x0416: "Xprinter",
+  0x0fe6: "ICS (generic POS-58/80)",
+  0x1504: "Bixolon",
+  0x154f: "SNBC",
+  0x1d90: "Citizen",
+  0x2730: "Citizen",
+  0x0dd4: "Custom",
+  0x20d1: "HPRT",
+};
+
+export const RAW_PRINT_PORT = 9100;
+
+// Connections attempted at once during a subnet scan
+const SCAN_CONCURRENCY = 64;
+const SCAN_TIMEOUT_MS = 500;
+// Largest subnet we'll scan (a /22 is 1022 hosts)
+const MIN_SCAN_PREFIX = 22;
+
+/**
+ * List connected USB devices from known receipt printer vendors
+ */
+export async function findUsbPrinters(): Promise<DiscoveredPrinter[]> {
+  const { getDeviceList } = await import("usb");
+
+  return getDeviceList()
+    .map((device) => device.deviceDescriptor)
+    .filter(({ idVendor }) => RECEIPT_PRINTER_VENDORS[idVendor] !== undefined)
+    .map(({ idVendor, idProduct }) => {
+      const profile = Object.values(PRINTER_PROFILES).find(
+        (p) => p.usb?.vendorId === idVendor && p.usb?.productId === idProduct,
+      );
+      const vid = idVendor.toString(16).padStart(4, "0");
+      const pid = idProduct.toString(16).padStart(4, "0");
+
+      return {
+        source: "usb" as const,
+        interface: `usb:${vid}:${pid}`,
+        name: profile?.displayName || RECEIPT_PRINTER_VENDORS[idVendor],
+        profile: profile?.name,
+      };
+    });
+}
+
+/**
+ * List CUPS destinations and their device URIs via `lpstat -v`. Returns
+ * nothing when CUPS isn't installed.
+ */
+export async function findCupsPrinters(): Promise<DiscoveredPrinter[]> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execAsync("lpstat -v"));
+  } catch {
+    return [];
+  }
+
+  // "device for EPSON_TM_T88V: usb://EPSON/TM-T88V?serial=..."
+  return stdout
+    .split("\n")
+    .map((line) => line.match(/^device for (.+?):\s*(.*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, name, uri]) => ({
+      source: "cups" as const,
+      interface: name,
+      name,
+      detail: uri || undefined,
+    }));
+}
+
+/**
+ * Find hosts on a subnet (e.g. "192.168.1.0/24") accepting connections on
+ * the raw printing port
+ */
+export async function scanNetwork(
+  subnet: string,
+  port: number = RAW_PRINT_PORT,
+  timeoutMs: number = SCAN_TIMEOUT_MS,
+): Promise<DiscoveredPrinter[]> {
+  const hosts = expandSubnet(subnet);
+  const found: string[] = [];
+
+  let next = 0;
+  const worker = async () => {
+    while (next < hosts.length) {
+      const host = hosts[next++];
+      if (await probe(host, port, timeoutMs)) {
+        found.push(host);
+      }
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(SCAN_CONCURRENCY, hosts.length) }, worker),
+  );
+
+  return found
+    .sort((a, b) => ipToNumber(a) - ipToNumber(b))
+    .map((host) => ({
+      source: "network" as const,
+      interface:
+        port === RAW_PRINT_PORT ? `tcp://${host}` : `tcp://${host}:${port}`,
+      name: host,
+    }));
+}
+
+/**
+ * The local IPv4 networks to scan by default. Anything larger than a /24
+ * is narrowed to the /24 around our own address.
+ */
+export function getLocalSubnets(): string[] {
+  const subnets = new Set<string>();
+
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family !== "IPv4" || address.internal || !address.cidr) {
+        continue;
+      }
+
+      const prefix = Math.max(24, parseInt(address.cidr.split("/")[1], 10));
+      const network = (ipToNumber(address.address) & prefixMask(prefix)) >>> 0;
+      subnets.add(`${numberToIp(network)}/${prefix}`);
+    }
+  }
+
+  return [...subnets];
+}
+
+/**
+ * Every host address in a CIDR range (without the network and broadcast
+ * addresses)
+ */
+function expandSubnet(subnet: string): string[] {
+  const match = subnet.match(/^(\d{1,3}(?:\.\d{1,3}){3})(?:\/(\d{1,2}))?$/);
+  const prefix = match ? parseInt(match[2] ?? "32", 10) : NaN;
+  if (
+    !match ||
+    prefix > 32 ||
+    match[1].split(".").some((octet) => parseInt(octet, 10) > 255)
+  ) {
+    throw new Error(
+      `Invalid subnet: ${subnet}. Use CIDR notation, e.g. 192.168.1.0/24`,
+    );
+  }
+  if (prefix < MIN_SCAN_PREFIX) {
+    throw new Error(
+      `Subnet ${subnet} is too large to scan. Use a /${MIN_SCAN_PREFIX} or smaller.`,
+    );
+  }
+
+  const network = (ipToNumber(match[1]) & prefixMask(prefix)) >>> 0;
+  const size = 2 ** (32 - prefix);
+  if (size <= 2) {
+    return Array.from({ length: size }, (_, i) => numberToIp(network + i));
+  }
+  return Array.from({ length: size - 2 }, (_, i) =>
+    numberToIp(network + i + 1),
+  );
+}
+
+/**
+ * Check whether a host accepts TCP connections on a port
+ */
+function probe(
+  host: string,
+  port: number,
+  timeoutMs: number,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = createConnection({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once("connect", () => done(true));
+    socket.once("error", () => done(false));
+  });
+}
+
+function prefixMask(prefix: number): number {
+  return prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+}
+
+function ipToNumber(ip: string): number {
+  return (
+    ip.split(".").reduce((n, octet) => n * 256 + parseInt(octet, 10), 0) >>> 0
+  );
+}
+
+function numberToIp(n: number): string {
+  return [24, 16, 8, 0].map((shift) => (n >>> shift) & 0xff).join(".");
+}
@@ -0,0 +1,125 @@
+import type { PrinterStatus } from "../types/printer.js";
+
+/**
+ * A printer reported a state that stops (or will soon stop) printing
+ */
+export class PrinterStatusError extends Error {
+  constructor(
+    message: string,
+    readonly status: PrinterStatus,
+  ) {
+    super(message);
+    this.name = "PrinterStatusError";
+  }
+}
+
+export class PrinterOfflineError extends PrinterStatusError {
+  constructor(status: PrinterStatus) {
+    super(
+      status.error
+        ? "Printer is offline with a hardware error (check the cutter and print head, then power cycle it)"
+        : "Printer is offline",
+      status,
+    );
+    this.name = "PrinterOfflineError";
+  }
+}
+
+export class CoverOpenError extends PrinterStatusError {
+  constructor(status: PrinterStatus) {
+    super("Printer cover is open", status);
+    this.name = "CoverOpenError";
+  }
+}
+
+export class PaperOutError extends PrinterStatusError {
+  constructor(status: PrinterStatus) {
+    super("Printer is out of paper", status);
+    this.name = "PaperOutError";
+  }
+}
+
+export class PaperLowError extends PrinterStatusError {
+  constructor(status: PrinterStatus) {
+    super("Printer paper is running low", status);
+    this.name = "PaperLowError";
+  }
+}
+
+/**
+ * The printer couldn't be reached or stopped responding, as when it's
+ * switched off, unplugged or busy. Unlike a mistake in the printer
+ * settings, this may clear up by itself, so the job is worth retrying.
+ */
+export class PrinterUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrinterUnavailableError";
+  }
+}
+
+/**
+ * The connection failed while the job was being sent, so some or all of
+ * the receipt may have printed. Retrying could print it twice, so the job
+ * isn't spooled.
+ */
+export class PrintInterruptedError extends Error {
+  constructor(cause: unknown) {
+    super(
+      `Printing was interrupted (${cause instanceof Error ? cause.message : cause}); the receipt may have printed in part`,
+    );
+    this.name = "PrintInterruptedError";
+  }
+}
+
+// Network errors from a printer that's switched off or briefly unreachable
+const UNREACHABLE_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EHOSTDOWN",
+  "EHOSTUNREACH",
+  "ENETDOWN",
+  "ENETUNREACH",
+  "EPIPE",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+]);
+
+/**
+ * Whether a network error code means the printer is unreachable for now
+ */
+export function isUnreachableCode(code: string | undefined): boolean {
+  return code !== undefined && UNREACHABLE_CODES.has(code);
+}
+
+/**
+ * Whether a failed print is worth retrying later: the printer was
+ * unreachable, or reported a state (offline, out of paper, cover open)
+ * that someone can fix. Anything else, such as an invalid interface or a
+ * permissions problem, will fail the same way every time.
+ */
+export function isTransientPrintError(error: unknown): boolean {
+  return (
+    error instanceof PrinterUnavailableError ||
+    error instanceof PrinterStatusError
+  );
+}
+
+/**
+ * Turn a status into errors, most serious first. Paper low is the only
+ * one that doesn't stop printing.
+ */
+export function getStatusErrors(status: PrinterStatus): PrinterStatusError[] {
+  const errors: PrinterStatusError[] = [];
+
+  if (status.coverOpen) errors.push(new CoverOpenError(status));
+  if (status.paperOut) errors.push(new PaperOutError(status));
+  if (errors.length === 0 && (!status.online || status.error)) {
+    errors.push(new PrinterOfflineError(status));
+  }
+  if (status.paperLow && !status.paperOut) {
+    errors.push(new PaperLowError(status));
+  }
+
+  return errors;
+}
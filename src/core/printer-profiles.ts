@@ -0,0 +1,123 @@
+import type { PrinterProfile, PrinterProfileName } from "../types/printer.js";
+import { getOwn } from "../utils/lookup.js";
+
+/**
+ * Epson TM-T88V on 80mm paper: 512 dots, 40 columns with a one character
+ * margin
+ */
+const TM_T88V: PrinterProfile = {
+  name: "tm-t88v",
+  displayName: "Epson TM-T88V (80mm)",
+  commandSet: "escpos",
+  charsPerLine: 40,
+  printWidthDots: 512,
+  leftMarginDots: 12,
+  codePage: "cp437",
+  cut: "partial",
+  qrCode: true,
+  usb: { vendorId: 0x04b8, productId: 0x0202 },
+};
+
+/**
+ * Any ESC/POS printer with a 72mm (576 dot) print head
+ */
+const GENERIC_80: PrinterProfile = {
+  name: "generic-80",
+  displayName: "Generic ESC/POS (80mm)",
+  commandSet: "escpos",
+  charsPerLine: 48,
+  printWidthDots: 576,
+  leftMarginDots: 0,
+  codePage: "cp437",
+  cut: "partial",
+  qrCode: true,
+};
+
+/**
+ * Any ESC/POS printer with a 48mm (384 dot) print head. Many have no
+ * cutter or QR support, so play it safe.
+ */
+const GENERIC_58: PrinterProfile = {
+  name: "generic-58",
+  displayName: "Generic ESC/POS (58mm)",
+  commandSet: "escpos",
+  charsPerLine: 32,
+  printWidthDots: 384,
+  leftMarginDots: 0,
+  codePage: "cp437",
+  cut: "none",
+  qrCode: false,
+};
+
+/**
+ * Xprinter XP-58 series: tear bar, no native QR codes
+ */
+const XPRINTER_58: PrinterProfile = {
+  name: "xprinter-58",
+  displayName: "Xprinter XP-58 (58mm)",
+  commandSet: "escpos",
+  charsPerLine: 32,
+  printWidthDots: 384,
+  leftMarginDots: 0,
+  codePage: "cp437",
+  cut: "none",
+  qrCode: false,
+  usb: { vendorId: 0x0416, productId: 0x5011 },
+};
+
+/**
+ * Star TSP143 on 80mm paper, in Star Line Mode
+ */
+const STAR_TSP143: PrinterProfile = {
+  name: "star-tsp143",
+  displayName: "Star TSP143 (80mm)",
+  commandSet: "star-line",
+  charsPerLine: 48,
+  printWidthDots: 576,
+  leftMarginDots: 0,
+  codePage: "cp437",
+  cut: "partial",
+  qrCode: true,
+  usb: { vendorId: 0x0519, productId: 0x0003 },
+};
+
+/**
+ * Star TSP650 on 80mm paper, in Star Line Mode
+ */
+const STAR_TSP650: PrinterProfile = {
+  name: "star-tsp650",
+  displayName: "Star TSP650 (80mm)",
+  commandSet: "star-line",
+  charsPerLine: 48,
+  printWidthDots: 576,
+  leftMarginDots: 0,
+  codePage: "cp437",
+  cut: "partial",
+  qrCode: true,
+};
+
+export const PRINTER_PROFILES: Record<PrinterProfileName, PrinterProfile> = {
+  "tm-t88v": TM_T88V,
+  "generic-80": GENERIC_80,
+  "generic-58": GENERIC_58,
+  "xprinter-58": XPRINTER_58,
+  "star-tsp143": STAR_TSP143,
+  "star-tsp650": STAR_TSP650,
+};
+
+export const DEFAULT_PRINTER_PROFILE: PrinterProfileName = "tm-t88v";
+
+/**
+ * Look up a printer profile by name (defaults to the Epson TM-T88V)
+ */
+export function getPrinterProfile(
+  name: string = DEFAULT_PRINTER_PROFILE,
+): PrinterProfile {
+  const profile = getOwn(PRINTER_PROFILES, name);
+  if (!profile) {
+    throw new Error(
+      `Unknown printer profile: ${name}. Valid profiles: ${Object.keys(PRINTER_PROFILES).join(", ")}`,
+    );
+  }
+  return profile;
+}
@@ -0,0 +1,120 @@
+import type { PrinterConnection } from "./printer-connection.js";
+import type { CommandSetName, PrinterStatus } from "../types/printer.js";
+
+// How long to wait for a real-time status reply
+const STATUS_TIMEOUT_MS = 2000;
+// How long a job may take to print before we stop waiting for it
+const JOB_TIMEOUT_MS = 30000;
+
+const DLE = 0x10;
+const EOT = 0x04;
+const ESC = 0x1b;
+const GS = 0x1d;
+const ACK = 0x06;
+const SOH = 0x01;
+
+/**
+ * Ask the printer for its real-time status. Returns undefined when the
+ * printer doesn't answer (one-way connections and many cheap printers).
+ */
+export async function queryStatus(
+  connection: PrinterConnection,
+  commandSet: CommandSetName,
+  timeoutMs: number = STATUS_TIMEOUT_MS,
+): Promise<PrinterStatus | undefined> {
+  connection.discardInput();
+
+  return commandSet === "star-line"
+    ? queryStarStatus(connection, timeoutMs)
+    : queryEscPosStatus(connection, timeoutMs);
+}
+
+/**
+ * Wait until the printer has worked through everything sent so far.
+ * ESC/POS processes GS r in order with the print data, so its reply
+ * arrives once the job has printed; it never arrives if the printer
+ * stopped part way (e.g. out of paper). Star Line Mode has no equivalent,
+ * so its status is read back straight away.
+ */
+export async function waitForJob(
+  connection: PrinterConnection,
+  commandSet: CommandSetName,
+  timeoutMs: number = JOB_TIMEOUT_MS,
+): Promise<boolean> {
+  if (commandSet === "star-line") {
+    return true;
+  }
+
+  connection.discardInput();
+  // GS r 1 — transmit paper sensor status
+  await connection.write(Buffer.from([GS, 0x72, 1]));
+  return (await connection.read(1, timeoutMs)) !== undefined;
+}
+
+/**
+ * DLE EOT 1-4: printer, offline cause, error cause and paper sensor status
+ * bytes
+ */
+async function queryEscPosStatus(
+  connection: PrinterConnection,
+  timeoutMs: number,
+): Promise<PrinterStatus | undefined> {
+  const bytes: number[] = [];
+
+  for (const n of [1, 2, 3, 4]) {
+    await connection.write(Buffer.from([DLE, EOT, n]));
+    const reply = await connection.read(1, timeoutMs);
+    // Every status byte has bits 1 and 4 set and bits 0 and 7 clear
+    if (!reply || (reply[0] & 0x93) !== 0x12) {
+      return undefined;
+    }
+    bytes.push(reply[0]);
+  }
+
+  const [printer, offline, error, paper] = bytes;
+
+  return {
+    online: (printer & 0x08) === 0,
+    coverOpen: (offline & 0x04) !== 0,
+    paperLow: (paper & 0x0c) !== 0,
+    paperOut: (offline & 0x20) !== 0 || (paper & 0x60) !== 0,
+    // Autocutter, unrecoverable or auto-recoverable error
+    error: (offline & 0x40) !== 0 || (error & 0x68) !== 0,
+  };
+}
+
+/**
+ * ESC ACK SOH: Star automatic status (header, version, then status bytes)
+ */
+async function queryStarStatus(
+  connection: PrinterConnection,
+  timeoutMs: number,
+): Promise<PrinterStatus | undefined> {
+  await connection.write(Buffer.from([ESC, ACK, SOH]));
+
+  const header = await connection.read(1, timeoutMs);
+  if (!header) {
+    return undefined;
+  }
+
+  // Header bits 1-3 and 5 hold the total status length
+  const length = ((header[0] >> 1) & 0x07) | ((header[0] >> 2) & 0x08);
+  if (length < 7) {
+    return undefined;
+  }
+
+  const rest = await connection.read(length - 1, timeoutMs);
+  if (!rest) {
+    return undefined;
+  }
+  const status = Buffer.concat([header, rest]);
+
+  return {
+    online: (status[2] & 0x08) === 0,
+    coverOpen: (status[2] & 0x20) !== 0,
+    paperLow: (status[5] & 0x04) !== 0,
+    paperOut: (status[5] & 0x08) !== 0,
+    // Mechanical, unrecoverable or cutter error
+    error: (status[3] & 0x28) !== 0 || (status[4] & 0x08) !== 0,
+  };
+}
@@ -0,0 +1,428 @@
+import { getTheme } from "./themes.js";
+import type { ReceiptData } from "./receipt-generator.js";
+import type { ZReportData } from "../types/report.js";
+import type {
+  ReceiptDocument,
+  ReceiptInfoRow,
+  ReceiptSection,
+  ReceiptTheme,
+  ReceiptTotalRow,
+} from "../types/receipt-document.js";
+import {
+  formatCurrency,
+  formatHour,
+  formatPrice,
+  formatReceiptNumber,
+  formatNumber,
+  formatDateTime,
+  formatToolName,
+  getReportTitle,
+} from "../utils/formatting.js";
+import {
+  getAgentDescription,
+  getMainModel,
+  getModelName,
+} from "../utils/models.js";
+
+const REPO_URL = "https://github.com/chrishutchinson/claude-receipts";
+// Most-used tools itemized on a receipt; the rest share one line
+const MAX_TOOL_ITEMS = 8;
+// Longest sub-agent label, so it fits beside its cost
+const MAX_AGENT_TITLE = 26;
+
+/**
+ * Builds the renderer-agnostic receipt document for a receipt or Z-report,
+ * applying the configured theme's labels and layout choices.
+ */
+export class ReceiptDocumentBuilder {
+  /**
+   * Build the document for a session receipt. With a share URL, the QR
+   * code links to the shared copy instead of the project.
+   */
+  buildReceipt(data: ReceiptData, shareUrl?: string): ReceiptDocument {
+    const theme = getTheme(data.config.theme);
+    const { labels } = theme;
+
+    const info = [
+      { label: labels.location, value: data.location },
+      { label: labels.session, value: data.transcriptData.sessionSlug },
+      {
+        label: labels.date,
+        value: formatDateTime(
+          data.transcriptData.endTime,
+          data.config.timezone,
+        ),
+      },
+    ];
+    if (data.receiptNumber !== undefined) {
+      info.push({
+        label: labels.receipt,
+        value: `#${formatReceiptNumber(data.receiptNumber)}`,
+      });
+    }
+
+    const sections: ReceiptSection[] = (
+      data.sessionData.modelBreakdowns || []
+    ).map((model) => {
+      // Without token prices the token count moves to the price column
+      const item = (label: string, tokens: number, cost?: number) =>
+        theme.showTokenPrices
+          ? { label, quantity: formatNumber(tokens), price: formatPrice(cost) }
+          : { label, price: formatNumber(tokens) };
+
+      const items = [
+        item(labels.input, model.inputTokens, model.tokenCosts?.input),
+        item(labels.output, model.outputTokens, model.tokenCosts?.output),
+      ];
+
+      if (model.cacheCreationTokens && model.cacheCreationTokens > 0) {
+        items.push(
+          item(
+            labels.cacheWrite,
+            model.cacheCreationTokens,
+            model.tokenCosts?.cacheWrite,
+          ),
+        );
+      }
+
+      if (model.cacheReadTokens && model.cacheReadTokens > 0) {
+        items.push(
+          item(
+            labels.cacheRead,
+            model.cacheReadTokens,
+            model.tokenCosts?.cacheRead,
+          ),
+        );
+      }
+
+      return {
+        title: getModelName(model.modelName),
+        total: formatPrice(model.cost),
+        items,
+      };
+    });
+
+    const agents = this.buildAgentSection(data, theme);
+    if (agents) {
+      sections.push(agents);
+    }
+
+    const tools = this.buildToolSection(data, theme);
+    if (tools) {
+      sections.push(tools);
+    }
+
+    const total = formatCurrency(data.sessionData.totalCost);
+    const totals: ReceiptTotalRow[] = [
+      ...(theme.showSubtotal ? [{ label: labels.subtotal, value: total }] : []),
+      ...theme.extraTotals,
+      { label: labels.total, value: total, grand: true },
+    ];
+
+    return this.applyCase(theme, {
+      theme,
+      title: `Claude Receipt - ${data.transcriptData.sessionSlug}`,
+      header: {
+        logo: theme.showLogo,
+        title: theme.title,
+        subtitle: theme.subtitle,
+      },
+      info,
+      stamp: data.duplicate
+        ? ["DUPLICATE", "REPRINT - NOT AN ORIGINAL"]
+        : undefined,
+      columns: theme.showColumnHeader
+        ? [labels.item, labels.quantity, labels.price]
+        : undefined,
+      sections,
+      totals,
+      built: this.buildBuiltSummary(data, theme),
+      footer: {
+        notes: theme.showCashier
+          ? [`${labels.cashier}: ${getMainModel(data.sessionData)}`]
+          : [],
+        messages: theme.footer,
+      },
+      qr: shareUrl
+        ? { data: shareUrl, caption: "View this receipt online" }
+        : { data: REPO_URL, caption: "Print your own Claude receipts" },
+      // The receipt number works with `claude-receipts reprint`. Without
+      // one there's no ledger entry to reprint, but the session ID prefix
+      // works with `claude-receipts generate --session`
+      barcode:
+        data.receiptNumber !== undefined
+          ? formatReceiptNumber(data.receiptNumber)
+          : data.sessionData.sessionId.slice(0, 8),
+    });
+  }
+
+  /**
+   * Itemize tool calls like menu items, each with its failed and rejected
+   * calls beneath it
+   */
+  private buildToolSection(
+    data: ReceiptData,
+    theme: ReceiptTheme,
+  ): ReceiptSection | undefined {
+    const usage = data.transcriptData.toolUsage || [];
+    if (usage.length === 0) {
+      return undefined;
+    }
+
+    const { labels } = theme;
+    // Counts go in the quantity column, or the price column if the theme
+    // doesn't price line items
+    const count = (label: string, calls: number) =>
+      theme.showTokenPrices
+        ? { label, quantity: formatNumber(calls) }
+        : { label, price: formatNumber(calls) };
+
+    const shown = usage.slice(0, MAX_TOOL_ITEMS);
+    const rest = usage.slice(MAX_TOOL_ITEMS);
+    if (rest.length > 0) {
+      shown.push({
+        name: `Other (${rest.length})`,
+        calls: rest.reduce((sum, tool) => sum + tool.calls, 0),
+        errors: rest.reduce((sum, tool) => sum + tool.errors, 0),
+        rejected: rest.reduce((sum, tool) => sum + tool.rejected, 0),
+      });
+    }
+
+    return {
+      title: labels.tools,
+      total: formatNumber(usage.reduce((sum, tool) => sum + tool.calls, 0)),
+      items: shown.flatMap((tool) => [
+        count(formatToolName(tool.name), tool.calls),
+        ...(tool.errors > 0
+          ? [count(`  ${labels.toolErrors}`, tool.errors)]
+          : []),
+        ...(tool.rejected > 0
+          ? [count(`  ${labels.toolRejected}`, tool.rejected)]
+          : []),
+      ]),
+      outsideTotal: true,
+    };
+  }
+
+  /**
+   * Subtotal the main thread and each sub-agent. The per-model split is
+   * already itemized above, so only each agent's cost is listed. Undefined
+   * when no sub-agents were used.
+   */
+  private buildAgentSection(
+    data: ReceiptData,
+    theme: ReceiptTheme,
+  ): ReceiptSection | undefined {
+    const agents = (data.sessionData.agentBreakdowns || []).filter(
+      (agent) => agent.modelBreakdowns.length > 0,
+    );
+    if (!agents.some((agent) => agent.agentId)) {
+      return undefined;
+    }
+
+    const { labels } = theme;
+    return {
+      title: labels.agents,
+      total: formatPrice(agents.reduce((sum, agent) => sum + agent.cost, 0)),
+      items: agents.map((agent) => {
+        let label = labels.mainThread;
+        if (agent.agentId) {
+          const description = getAgentDescription(
+            agent,
+            data.transcriptData.subAgents,
+          );
+          label = description
+            ? `${labels.subAgent}: ${description}`
+            : labels.subAgent;
+        }
+        if (label.length > MAX_AGENT_TITLE) {
+          label = `${label.slice(0, MAX_AGENT_TITLE - 3).trimEnd()}...`;
+        }
+
+        return { label, price: formatPrice(agent.cost) };
+      }),
+      outsideTotal: true,
+      costs: true,
+    };
+  }
+
+  /**
+   * Summarise what the session changed: files, lines (net of removals),
+   * commits and the cost per line changed
+   */
+  private buildBuiltSummary(
+    data: ReceiptData,
+    theme: ReceiptTheme,
+  ): ReceiptDocument["built"] {
+    const changes = data.transcriptData.codeChanges;
+    if (!changes || (changes.files.length === 0 && changes.commits === 0)) {
+      return undefined;
+    }
+
+    const { labels } = theme;
+    const { linesAdded, linesRemoved } = changes;
+    const net = linesAdded - linesRemoved;
+    const rows: ReceiptInfoRow[] = [
+      { label: labels.filesChanged, value: formatNumber(changes.files.length) },
+      {
+        label: labels.lines,
+        value: `+${formatNumber(linesAdded)} / -${formatNumber(linesRemoved)}`,
+      },
+      {
+        label: labels.netLines,
+        value: `${net < 0 ? "-" : "+"}${formatNumber(Math.abs(net))}`,
+      },
+    ];
+    if (changes.commits > 0) {
+      rows.push({
+        label: labels.commits,
+        value: formatNumber(changes.commits),
+      });
+    }
+    if (linesAdded + linesRemoved > 0) {
+      rows.push({
+        label: labels.costPerLine,
+        value: formatPrice(
+          data.sessionData.totalCost / (linesAdded + linesRemoved),
+        ),
+      });
+    }
+
+    return { title: labels.built, rows };
+  }
+
+  /**
+   * Build the document for an end-of-period Z-report
+   */
+  buildZReport(report: ZReportData): ReceiptDocument {
+    const theme = getTheme(report.config.theme);
+    const tz = report.config.timezone;
+
+    const sections: ReceiptSection[] = [
+      {
+        items: [
+          { label: "SESSIONS", price: formatNumber(report.sessionCount) },
+          { label: "TOKENS", price: formatNumber(report.totalTokens) },
+        ],
+      },
+      {
+        title: "BY PROJECT",
+        items: report.projects.map((project) => ({
+          label: project.name,
+          quantity: `(${project.sessions})`,
+          price: formatCurrency(project.cost),
+        })),
+      },
+      {
+        title: "BY MODEL",
+        items: report.models.map((model) => ({
+          label: getModelName(model.name),
+          quantity: `(${model.sessions})`,
+          price: formatCurrency(model.cost),
+        })),
+      },
+    ];
+
+    if (report.busiestHour) {
+      sections.push({
+        items: [
+          {
+            label: "BUSIEST HOUR",
+            quantity: `(${report.busiestHour.sessions})`,
+            price: formatHour(report.busiestHour.hour),
+          },
+        ],
+      });
+    }
+
+    const top = report.mostExpensiveSession;
+    if (top) {
+      sections.push({
+        title: "TOP SESSION",
+        items: [
+          {
+            label: top.slug || top.sessionId.slice(0, 8),
+            price: formatCurrency(top.cost),
+          },
+        ],
+      });
+    }
+
+    return this.applyCase(theme, {
+      theme,
+      title: `Claude Z-Report - ${getReportTitle(report.period)}`,
+      header: {
+        logo: theme.showLogo,
+        title: "Z-REPORT",
+        subtitle: getReportTitle(report.period),
+      },
+      info: [
+        { label: "Location", value: report.location },
+        { label: "From", value: formatDateTime(report.from, tz) },
+        { label: "To", value: formatDateTime(report.to, tz) },
+      ],
+      sections,
+      totals: [
+        {
+          label: "GRAND TOTAL",
+          value: formatCurrency(report.totalCost),
+          grand: true,
+        },
+      ],
+      chart: report.hourlySessions.some((count) => count > 0)
+        ? {
+            title: "SESSIONS BY HOUR",
+            values: report.hourlySessions,
+            labels: ["00", "06", "12", "18", "24"],
+          }
+        : undefined,
+      footer: {
+        notes: [`PRINTED: ${formatDateTime(report.generatedAt, tz)}`],
+        messages: ["Closing time. Great shift!"],
+      },
+    });
+  }
+
+  /**
+   * Upper-case every label and message for shouty themes
+   */
+  private applyCase(
+    theme: ReceiptTheme,
+    doc: ReceiptDocument,
+  ): ReceiptDocument {
+    if (!theme.uppercase) {
+      return doc;
+    }
+
+    const up = (s: string) => s.toUpperCase();
+    const upOptional = (s: string | undefined) => s && up(s);
+
+    return {
+      ...doc,
+      header: {
+        ...doc.header,
+        title: upOptional(doc.header.title),
+        subtitle: upOptional(doc.header.subtitle),
+      },
+      info: doc.info.map((row) => ({ ...row, label: up(row.label) })),
+      columns: doc.columns?.map(up) as ReceiptDocument["columns"],
+      sections: doc.sections.map((section) => ({
+        ...section,
+        title: upOptional(section.title),
+        items: section.items.map((item) => ({
+          ...item,
+          label: up(item.label),
+        })),
+      })),
+      totals: doc.totals.map((row) => ({ ...row, label: up(row.label) })),
+      built: doc.built && {
+        title: up(doc.built.title),
+        rows: doc.built.rows.map((row) => ({ ...row, label: up(row.label) })),
+      },
+      footer: {
+        notes: doc.footer.notes.map(up),
+        messages: doc.footer.messages.map(up),
+      },
+    };
+  }
+}
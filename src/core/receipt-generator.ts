@@ -1,137 +1,151 @@
 import type { CcusageSession } from "../types/ccusage.js";
 import type { ParsedTranscript } from "../types/transcript.js";
 import type { ReceiptConfig } from "../types/config.js";
-import {
-  formatCurrency,
-  formatNumber,
-  formatDateTime,
-  formatDuration,
-} from "../utils/formatting.js";
-import { getHeader, SEPARATOR, LIGHT_SEPARATOR } from "../utils/ascii-art.js";
+import type { ZReportData } from "../types/report.js";
+import type { ReceiptDocument } from "../types/receipt-document.js";
+import { ReceiptDocumentBuilder } from "./receipt-document.js";
+import { getHeader } from "../utils/ascii-art.js";
+import { spreadLabels } from "../utils/formatting.js";
+
+const WIDTH = 35;
 
 export interface ReceiptData {
   sessionData: CcusageSession;
   transcriptData: ParsedTranscript;
   location: string;
   config: ReceiptConfig;
+  // Assigned by the receipt ledger
+  receiptNumber?: number;
+  // Stamp the receipt as a duplicate (reprints)
+  duplicate?: boolean;
 }
 
 export class ReceiptGenerator {
+  private documentBuilder = new ReceiptDocumentBuilder();
+
   /**
    * Generate a complete receipt as text
    */
   generateReceipt(data: ReceiptData): string {
+    return this.renderDocument(this.documentBuilder.buildReceipt(data));
+  }
+
+  /**
+   * Generate an end-of-period Z-report as text
+   */
+  generateZReport(report: ZReportData): string {
+    return this.renderDocument(this.documentBuilder.buildZReport(report));
+  }
+
+  /**
+   * Lay out a receipt document as plain text
+   */
+  private renderDocument(doc: ReceiptDocument): string {
+    const { heavy, light } = doc.theme.rules.text;
+    const separator = heavy.repeat(WIDTH);
+    const lightSeparator = light.repeat(WIDTH);
     const lines: string[] = [];
 
     // Header
-    lines.push(SEPARATOR);
-    lines.push(getHeader());
-    lines.push(SEPARATOR);
-    lines.push("");
-
-    // Location and session info
-    lines.push(this.centerText(`Location: ${data.location}`, 35));
-    lines.push(
-      this.centerText(`Session: ${data.transcriptData.sessionSlug}`, 35),
-    );
-    lines.push(
-      this.centerText(
-        formatDateTime(data.transcriptData.endTime, data.config.timezone),
-        35,
-      ),
-    );
+    lines.push(separator);
+    if (doc.header.logo) {
+      lines.push(getHeader());
+      lines.push(separator);
+    }
     lines.push("");
 
-    // Line items header
-    lines.push(SEPARATOR);
-    lines.push(this.padLine("ITEM", "QTY", "PRICE"));
-    lines.push(LIGHT_SEPARATOR);
+    if (doc.header.title || doc.header.subtitle) {
+      if (doc.header.title) {
+        lines.push(this.centerText(`*** ${doc.header.title} ***`, WIDTH));
+      }
+      if (doc.header.subtitle) {
+        lines.push(this.centerText(doc.header.subtitle, WIDTH));
+      }
+      lines.push("");
+    }
 
-    // Model breakdown
-    if (
-      data.sessionData.modelBreakdowns &&
-      data.sessionData.modelBreakdowns.length > 0
-    ) {
-      for (const model of data.sessionData.modelBreakdowns) {
-        lines.push(this.getModelName(model.modelName));
+    // Info block
+    for (const row of doc.info) {
+      lines.push(this.centerText(`${row.label}: ${row.value}`, WIDTH));
+    }
+    if (doc.stamp) {
+      const [first, ...rest] = doc.stamp;
+      lines.push("");
+      lines.push(this.centerText(`*** ${first} ***`, WIDTH));
+      for (const line of rest) {
+        lines.push(this.centerText(line, WIDTH));
+      }
+    }
+    lines.push("");
 
-        // Input tokens
-        lines.push(
-          this.padLine(
-            "  Input tokens",
-            formatNumber(model.inputTokens),
-            this.formatTokenCost(
-              model.inputTokens,
-              model.cost,
-              data.sessionData.totalTokens,
-            ),
-          ),
-        );
+    // Line items
+    lines.push(separator);
+    if (doc.columns) {
+      lines.push(this.padLine(...doc.columns));
+      lines.push(lightSeparator);
+    }
 
-        // Output tokens
+    doc.sections.forEach((section, index) => {
+      if (index > 0) {
+        lines.push("");
+      }
+      if (section.title) {
+        lines.push(this.padLine(section.title, "", section.total || ""));
+      }
+      const indent = section.title ? "  " : "";
+      for (const item of section.items) {
         lines.push(
           this.padLine(
-            "  Output tokens",
-            formatNumber(model.outputTokens),
-            this.formatTokenCost(
-              model.outputTokens,
-              model.cost,
-              data.sessionData.totalTokens,
-            ),
+            `${indent}${item.label}`,
+            item.quantity || "",
+            item.price || "",
           ),
         );
+      }
+    });
 
-        // Cache tokens if present
-        if (model.cacheCreationTokens && model.cacheCreationTokens > 0) {
-          lines.push(
-            this.padLine(
-              "  Cache write",
-              formatNumber(model.cacheCreationTokens),
-              this.formatTokenCost(
-                model.cacheCreationTokens,
-                model.cost,
-                data.sessionData.totalTokens,
-              ),
-            ),
-          );
-        }
-
-        if (model.cacheReadTokens && model.cacheReadTokens > 0) {
-          lines.push(
-            this.padLine(
-              "  Cache read",
-              formatNumber(model.cacheReadTokens),
-              this.formatTokenCost(
-                model.cacheReadTokens,
-                model.cost,
-                data.sessionData.totalTokens,
-              ),
-            ),
-          );
-        }
+    // Totals
+    lines.push(separator);
+    doc.totals.forEach((row, index) => {
+      if (row.grand && index > 0) {
+        lines.push(lightSeparator);
+      }
+      lines.push(this.padLine(row.label, "", row.value));
+    });
+    lines.push(separator);
+    lines.push("");
 
-        lines.push("");
+    // What the session built
+    if (doc.built) {
+      lines.push(this.centerText(doc.built.title, WIDTH));
+      lines.push(lightSeparator);
+      for (const row of doc.built.rows) {
+        lines.push(this.padLine(row.label, "", row.value));
       }
+      lines.push(separator);
+      lines.push("");
     }
 
-    // Totals
-    lines.push(SEPARATOR);
-    lines.push(
-      this.padLine("SUBTOTAL", "", formatCurrency(data.sessionData.totalCost)),
-    );
-    lines.push(LIGHT_SEPARATOR);
-    lines.push(
-      this.padLine("TOTAL", "", formatCurrency(data.sessionData.totalCost)),
-    );
-    lines.push(SEPARATOR);
-    lines.push("");
+    // Chart
+    if (doc.chart) {
+      const bars = this.sparkline(doc.chart.values);
+      const indent = " ".repeat(Math.floor((WIDTH - bars.length) / 2));
+      lines.push(this.centerText(doc.chart.title, WIDTH));
+      lines.push(indent + bars);
+      lines.push(indent + spreadLabels(doc.chart.labels, bars.length));
+      lines.push("");
+    }
 
     // Footer
-    lines.push(`CASHIER: ${this.getMainModel(data.sessionData)}`);
-    lines.push("");
-    lines.push(this.centerText("Thank you for building!", 35));
+    if (doc.footer.notes.length > 0) {
+      lines.push(...doc.footer.notes);
+      lines.push("");
+    }
+    for (const message of doc.footer.messages) {
+      lines.push(this.centerText(message, WIDTH));
+    }
     lines.push("");
-    lines.push(SEPARATOR);
+    lines.push(separator);
 
     return lines.join("\n");
   }
@@ -143,7 +157,7 @@ export class ReceiptGenerator {
     left: string,
     middle: string,
     right: string,
-    width: number = 35,
+    width: number = WIDTH,
   ): string {
     const rightLen = right.length;
     const leftLen = left.length;
@@ -167,6 +181,21 @@ export class ReceiptGenerator {
     );
   }
 
+  /**
+   * Draw values as a row of block characters scaled to the largest value
+   */
+  private sparkline(values: number[]): string {
+    const blocks = " ▁▂▃▄▅▆▇█";
+    const max = Math.max(...values, 1);
+    return values
+      .map((value) =>
+        value > 0
+          ? blocks[Math.max(1, Math.round((value / max) * (blocks.length - 1)))]
+          : blocks[0],
+      )
+      .join("");
+  }
+
   /**
    * Center text in a given width
    */
@@ -195,50 +224,4 @@ export class ReceiptGenerator {
     if (currentLine) lines.push(currentLine);
     return lines.join("\n");
   }
-
-  /**
-   * Format token cost (proportional to model cost)
-   */
-  private formatTokenCost(
-    tokens: number,
-    modelCost: number,
-    totalTokens: number,
-  ): string {
-    const proportion = tokens / totalTokens;
-    const cost = modelCost * proportion;
-    return formatCurrency(cost);
-  }
-
-  /**
-   * Get a clean model name
-   */
-  private getModelName(model: string): string {
-    // Remove date suffixes and clean up model names
-    const cleaned = model.replace(/-\d{8}$/, "");
-
-    const modelMap: Record<string, string> = {
-      "claude-sonnet-4-5": "Claude Sonnet 4.5",
-      "claude-opus-4-5": "Claude Opus 4.5",
-      "claude-3-5-sonnet": "Claude 3.5 Sonnet",
-      "claude-3-opus": "Claude 3 Opus",
-      "claude-3-haiku": "Claude 3 Haiku",
-    };
-
-    return modelMap[cleaned] || model;
-  }
-
-  /**
-   * Get the main model used in the session
-   */
-  private getMainModel(sessionData: CcusageSession): string {
-    if (sessionData.modelBreakdowns && sessionData.modelBreakdowns.length > 0) {
-      return this.getModelName(sessionData.modelBreakdowns[0].modelName);
-    }
-
-    if (sessionData.modelsUsed && sessionData.modelsUsed.length > 0) {
-      return this.getModelName(sessionData.modelsUsed[0]);
-    }
-
-    return "Claude";
-  }
 }
@@ -0,0 +1,246 @@
+import { appendFile, mkdir, readFile, rmdir, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import { isJsonObject } from "../utils/jsonl.js";
+import type { ReceiptData } from "./receipt-generator.js";
+import type {
+  LedgerEntry,
+  LedgerUpdate,
+  NewLedgerEntry,
+  ReceiptSnapshot,
+} from "../types/ledger.js";
+
+const LOCK_RETRIES = 50;
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 10000;
+
+/**
+ * Append-only JSONL ledger of every generated receipt, stored at
+ * ~/.claude-receipts/ledger.jsonl. Each receipt gets the next sequential
+ * receipt number; later status changes append a new version of the entry
+ * (the latest version of a receipt number wins).
+ */
+export class ReceiptLedger {
+  private ledgerDir: string;
+  private ledgerPath: string;
+  private lockPath: string;
+
+  constructor() {
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    this.ledgerDir = join(home, ".claude-receipts");
+    this.ledgerPath = join(this.ledgerDir, "ledger.jsonl");
+    this.lockPath = join(this.ledgerDir, "ledger.lock");
+  }
+
+  /**
+   * Record a new receipt and assign it the next receipt number
+   */
+  async record(entry: NewLedgerEntry): Promise<LedgerEntry> {
+    return this.withLock(async () => {
+      const entries = await this.readAll();
+      const lastNumber = entries.reduce(
+        (max, e) => Math.max(max, e.receiptNumber),
+        0,
+      );
+
+      const now = new Date().toISOString();
+      const recorded: LedgerEntry = {
+        ...entry,
+        receiptNumber: lastNumber + 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.append(recorded);
+      return recorded;
+    });
+  }
+
+  /**
+   * Update an existing receipt (outputs, HTML path, share URL, print status)
+   */
+  async update(
+    receiptNumber: number,
+    changes: LedgerUpdate,
+  ): Promise<LedgerEntry> {
+    return this.withLock(async () => {
+      const existing = await this.find(receiptNumber);
+      if (!existing) {
+        throw new Error(`Receipt #${receiptNumber} not found in ledger`);
+      }
+
+      const updated: LedgerEntry = {
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.append(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * List the latest version of every receipt, oldest first
+   */
+  async list(): Promise<LedgerEntry[]> {
+    const latest = new Map<number, LedgerEntry>();
+    for (const entry of await this.readAll()) {
+      latest.set(entry.receiptNumber, entry);
+    }
+    return [...latest.values()].sort(
+      (a, b) => a.receiptNumber - b.receiptNumber,
+    );
+  }
+
+  /**
+   * Find a receipt by number
+   */
+  async find(receiptNumber: number): Promise<LedgerEntry | undefined> {
+    const entries = await this.list();
+    return entries.find((e) => e.receiptNumber === receiptNumber);
+  }
+
+  /**
+   * Find the most recent receipt for a session
+   */
+  async findLatestForSession(
+    sessionId: string,
+  ): Promise<LedgerEntry | undefined> {
+    const entries = await this.list();
+    return entries.filter((e) => e.sessionId === sessionId).pop();
+  }
+
+  /**
+   * Find the most recent receipt for a session slug or session ID prefix
+   */
+  async findLatestByName(query: string): Promise<LedgerEntry | undefined> {
+    const entries = await this.list();
+    return (
+      entries.filter((e) => e.sessionSlug === query).pop() ||
+      entries.filter((e) => e.sessionId.startsWith(query)).pop()
+    );
+  }
+
+  /**
+   * Serialise receipt data for storage in the ledger
+   */
+  createSnapshot(data: ReceiptData): ReceiptSnapshot {
+    return JSON.parse(JSON.stringify(data));
+  }
+
+  /**
+   * Restore receipt data from a ledger snapshot
+   */
+  restoreSnapshot(snapshot: ReceiptSnapshot): ReceiptData {
+    return {
+      ...snapshot,
+      transcriptData: {
+        ...snapshot.transcriptData,
+        startTime: new Date(snapshot.transcriptData.startTime),
+        endTime: new Date(snapshot.transcriptData.endTime),
+      },
+    };
+  }
+
+  /**
+   * Get the ledger file path
+   */
+  getLedgerPath(): string {
+    return this.ledgerPath;
+  }
+
+  /**
+   * Read every line of the ledger, skipping any corrupt or malformed
+   * lines
+   */
+  private async readAll(): Promise<LedgerEntry[]> {
+    if (!existsSync(this.ledgerPath)) {
+      return [];
+    }
+
+    const content = await readFile(this.ledgerPath, "utf-8");
+    const entries: LedgerEntry[] = [];
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry: unknown = JSON.parse(line);
+        if (isLedgerEntry(entry)) {
+          entries.push(entry);
+        }
+      } catch {
+        // A crash mid-write can leave a partial line
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Append a single entry as one JSON line
+   */
+  private async append(entry: LedgerEntry): Promise<void> {
+    await mkdir(this.ledgerDir, { recursive: true });
+    await appendFile(this.ledgerPath, JSON.stringify(entry) + "\n", "utf-8");
+  }
+
+  /**
+   * Run a callback while holding the ledger lock so concurrent hooks can't
+   * allocate the same receipt number
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await mkdir(this.ledgerDir, { recursive: true });
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await mkdir(this.lockPath);
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+
+        // Break locks left behind by a crashed process
+        try {
+          const { mtimeMs } = await stat(this.lockPath);
+          if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+            await rmdir(this.lockPath);
+            continue;
+          }
+        } catch {
+          // Lock released between mkdir and stat — retry
+          continue;
+        }
+
+        if (attempt >= LOCK_RETRIES) {
+          throw new Error(
+            `Timed out waiting for ledger lock: ${this.lockPath}`,
+          );
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await rmdir(this.lockPath).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Whether a ledger line has the fields receipt numbering and lookups rely
+ * on: a positive whole receipt number and a session ID
+ */
+function isLedgerEntry(value: unknown): value is LedgerEntry {
+  return (
+    isJsonObject(value) &&
+    typeof value.receiptNumber === "number" &&
+    Number.isInteger(value.receiptNumber) &&
+    value.receiptNumber > 0 &&
+    typeof value.sessionId === "string"
+  );
+}
@@ -0,0 +1,227 @@
+import { basename } from "path";
+import {
+  addHours,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfHour,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+import { parseDate } from "../utils/formatting.js";
+import type { ReceiptConfig } from "../types/config.js";
+import type {
+  ReportPeriod,
+  ReportSubtotal,
+  ZReportData,
+} from "../types/report.js";
+import type { SessionUsage } from "../types/usage.js";
+
+export interface ReportRangeOptions {
+  date?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Aggregates many sessions into an end-of-period "Z-report".
+ */
+export class ReportAggregator {
+  /**
+   * Resolve the start and end of a reporting period in the given timezone.
+   * "day", "week" (Monday start) and "month" contain the reference date
+   * (default today); "custom" requires from and to dates.
+   */
+  getRange(
+    period: ReportPeriod,
+    options: ReportRangeOptions,
+    timezone?: string,
+  ): { from: Date; to: Date } {
+    const tz = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    if (period === "custom") {
+      if (!options.from || !options.to) {
+        throw new Error("Custom reports require --from and --to dates");
+      }
+
+      return {
+        from: fromZonedTime(startOfDay(parseDate(options.from)), tz),
+        to: fromZonedTime(endOfDay(parseDate(options.to)), tz),
+      };
+    }
+
+    // Work in wall-clock time for the timezone, then convert back
+    const reference = options.date
+      ? parseDate(options.date)
+      : toZonedTime(new Date(), tz);
+
+    const bounds: Record<Exclude<ReportPeriod, "custom">, [Date, Date]> = {
+      day: [startOfDay(reference), endOfDay(reference)],
+      week: [
+        startOfWeek(reference, { weekStartsOn: 1 }),
+        endOfWeek(reference, { weekStartsOn: 1 }),
+      ],
+      month: [startOfMonth(reference), endOfMonth(reference)],
+    };
+
+    if (!bounds[period]) {
+      throw new Error(
+        `Invalid period: ${period}. Valid periods: day, week, month, custom`,
+      );
+    }
+
+    const [from, to] = bounds[period];
+    return { from: fromZonedTime(from, tz), to: fromZonedTime(to, tz) };
+  }
+
+  /**
+   * Aggregate the sessions whose last activity falls within the range
+   */
+  aggregate(
+    sessions: SessionUsage[],
+    period: ReportPeriod,
+    range: { from: Date; to: Date },
+    location: string,
+    config: ReceiptConfig,
+  ): ZReportData {
+    const inRange = sessions.filter((s) => {
+      if (!s.lastActivity) return false;
+      const date = new Date(s.lastActivity);
+      return date >= range.from && date <= range.to;
+    });
+
+    const projects = new Map<string, ReportSubtotal>();
+    const models = new Map<string, ReportSubtotal>();
+
+    const addTo = (
+      map: Map<string, ReportSubtotal>,
+      name: string,
+      tokens: number,
+      cost: number,
+    ) => {
+      const existing = map.get(name) || {
+        name,
+        sessions: 0,
+        totalTokens: 0,
+        cost: 0,
+      };
+      existing.sessions += 1;
+      existing.totalTokens += tokens;
+      existing.cost += cost;
+      map.set(name, existing);
+    };
+
+    for (const session of inRange) {
+      addTo(
+        projects,
+        this.getProjectName(session),
+        session.totalTokens,
+        session.totalCost,
+      );
+
+      for (const model of session.modelBreakdowns || []) {
+        addTo(
+          models,
+          model.modelName,
+          model.inputTokens +
+            model.outputTokens +
+            (model.cacheCreationTokens || 0) +
+            (model.cacheReadTokens || 0),
+          model.cost,
+        );
+      }
+    }
+
+    const sum = (pick: (s: SessionUsage) => number) =>
+      inRange.reduce((total, s) => total + pick(s), 0);
+
+    const hourlySessions = this.getHourlySessions(inRange, config.timezone);
+
+    const mostExpensive = [...inRange].sort(
+      (a, b) => b.totalCost - a.totalCost,
+    )[0];
+
+    return {
+      period,
+      from: range.from,
+      to: range.to,
+      generatedAt: new Date(),
+      location,
+      config,
+      sessionCount: inRange.length,
+      inputTokens: sum((s) => s.inputTokens),
+      outputTokens: sum((s) => s.outputTokens),
+      cacheCreationTokens: sum((s) => s.cacheCreationTokens || 0),
+      cacheReadTokens: sum((s) => s.cacheReadTokens || 0),
+      totalTokens: sum((s) => s.totalTokens),
+      totalCost: sum((s) => s.totalCost),
+      projects: [...projects.values()].sort((a, b) => b.cost - a.cost),
+      models: [...models.values()].sort((a, b) => b.cost - a.cost),
+      hourlySessions,
+      busiestHour: this.getBusiestHour(hourlySessions),
+      mostExpensiveSession: mostExpensive && {
+        sessionId: mostExpensive.sessionId,
+        slug: mostExpensive.slug,
+        project: this.getProjectName(mostExpensive),
+        cost: mostExpensive.totalCost,
+      },
+    };
+  }
+
+  /**
+   * Count the active sessions in each hour of the day. A session counts
+   * towards every hour between its first and last activity.
+   */
+  private getHourlySessions(
+    sessions: SessionUsage[],
+    timezone?: string,
+  ): number[] {
+    const tz = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const counts = new Array<number>(24).fill(0);
+
+    for (const session of sessions) {
+      if (!session.lastActivity) continue;
+
+      const end = new Date(session.lastActivity);
+      const start = new Date(session.firstActivity || session.lastActivity);
+      const hours = new Set<number>();
+
+      // Cap at a full day — longer sessions touch every hour anyway
+      for (
+        let t = startOfHour(start);
+        t <= end && hours.size < 24;
+        t = addHours(t, 1)
+      ) {
+        hours.add(toZonedTime(t, tz).getHours());
+      }
+
+      for (const hour of hours) {
+        counts[hour] += 1;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Find the hour of day with the most active sessions
+   */
+  private getBusiestHour(counts: number[]): ZReportData["busiestHour"] {
+    const max = Math.max(...counts);
+    if (max === 0) return undefined;
+
+    return { hour: counts.indexOf(max), sessions: max };
+  }
+
+  /**
+   * Get a display name for a session's project
+   */
+  private getProjectName(session: SessionUsage): string {
+    if (session.cwd) {
+      return basename(session.cwd);
+    }
+    return session.projectPath?.split("/")[0] || "Unknown Project";
+  }
+}
@@ -0,0 +1,289 @@
+import type { ReceiptTheme, ThemeName } from "../types/receipt-document.js";
+import { getOwn } from "../utils/lookup.js";
+
+const DEFAULT_LABELS: ReceiptTheme["labels"] = {
+  location: "Location",
+  session: "Session",
+  date: "Date",
+  receipt: "Receipt",
+  item: "ITEM",
+  quantity: "QTY",
+  price: "PRICE",
+  input: "Input tokens",
+  output: "Output tokens",
+  cacheWrite: "Cache write",
+  cacheRead: "Cache read",
+  tools: "Tool calls",
+  toolErrors: "failed",
+  toolRejected: "rejected",
+  built: "YOU BUILT",
+  filesChanged: "Files changed",
+  lines: "Lines",
+  netLines: "Net lines",
+  commits: "Commits",
+  costPerLine: "Cost per line",
+  agents: "BY AGENT",
+  mainThread: "Main thread",
+  subAgent: "Sub-agent",
+  subtotal: "SUBTOTAL",
+  total: "TOTAL",
+  cashier: "CASHIER",
+};
+
+const DEFAULT_RULES: ReceiptTheme["rules"] = {
+  text: { heavy: "━", light: "─" },
+  printer: { heavy: "=", light: "-" },
+};
+
+/**
+ * The original diner-style till receipt
+ */
+const CLASSIC: ReceiptTheme = {
+  name: "classic",
+  displayName: "Classic Diner",
+  labels: DEFAULT_LABELS,
+  showLogo: true,
+  showColumnHeader: true,
+  showTokenPrices: true,
+  showSubtotal: true,
+  extraTotals: [],
+  showCashier: true,
+  footer: ["Thank you for building!"],
+  uppercase: false,
+  rules: DEFAULT_RULES,
+  htmlStyles: "",
+  image: { paper: "#f8f8f8", ink: "#333333", tornEdges: true },
+};
+
+/**
+ * Just the numbers: no logo, no column header, one price per model
+ */
+const MINIMALIST: ReceiptTheme = {
+  name: "minimalist",
+  displayName: "Minimalist",
+  labels: {
+    ...DEFAULT_LABELS,
+    input: "Input",
+    output: "Output",
+    tools: "Tools",
+    built: "Built",
+    filesChanged: "Files",
+    netLines: "Net",
+    costPerLine: "Per line",
+    agents: "Agents",
+    mainThread: "Main",
+    subAgent: "Agent",
+    total: "Total",
+  },
+  showLogo: false,
+  showColumnHeader: false,
+  showTokenPrices: false,
+  showSubtotal: false,
+  extraTotals: [],
+  showCashier: false,
+  footer: ["Thanks."],
+  uppercase: false,
+  rules: {
+    text: { heavy: "─", light: " " },
+    printer: { heavy: "-", light: " " },
+  },
+  htmlStyles: `
+    .theme-minimalist {
+      background: #fff;
+      font-family: -apple-system, BlinkMacSystemFont, 'Helvetica Neue', Arial, sans-serif;
+      box-shadow: 0 4px 20px rgba(0, 0, 0, 0.15);
+    }
+
+    .theme-minimalist::before,
+    .theme-minimalist::after {
+      display: none;
+    }
+
+    .theme-minimalist .separator,
+    .theme-minimalist .total-section,
+    .theme-minimalist .footer {
+      border-color: #e5e5e5;
+      border-width: 1px;
+      border-style: solid;
+    }
+
+    .theme-minimalist .meta .dots {
+      visibility: hidden;
+    }
+
+    .theme-minimalist .model-header {
+      border-bottom: none;
+    }
+`,
+  image: { paper: "#ffffff", ink: "#333333", tornEdges: false },
+};
+
+/**
+ * A business-like invoice with a zero-rated tax line
+ */
+const INVOICE: ReceiptTheme = {
+  name: "invoice",
+  displayName: "Invoice",
+  labels: {
+    ...DEFAULT_LABELS,
+    location: "Bill to",
+    session: "Project",
+    date: "Invoice date",
+    receipt: "Invoice no.",
+    item: "DESCRIPTION",
+    quantity: "UNITS",
+    price: "AMOUNT",
+    tools: "Tool usage",
+    built: "DELIVERABLES",
+    filesChanged: "Files delivered",
+    lines: "Lines changed",
+    costPerLine: "Rate per line",
+    agents: "BY CONTRIBUTOR",
+    mainThread: "Lead",
+    subAgent: "Delegated",
+    total: "TOTAL DUE",
+    cashier: "PREPARED BY",
+  },
+  showLogo: true,
+  title: "INVOICE",
+  showColumnHeader: true,
+  showTokenPrices: true,
+  showSubtotal: true,
+  extraTotals: [{ label: "TAX (0%)", value: "$0.00" }],
+  showCashier: true,
+  footer: ["Payment received with thanks.", "Terms: paid in full."],
+  uppercase: false,
+  rules: DEFAULT_RULES,
+  htmlStyles: `
+    .theme-invoice {
+      width: 520px;
+      background: #fff;
+      font-family: Georgia, 'Times New Roman', serif;
+      border-top: 8px solid #1f3a5f;
+    }
+
+    .theme-invoice::before,
+    .theme-invoice::after {
+      display: none;
+    }
+
+    .theme-invoice .report-title {
+      color: #1f3a5f;
+      font-size: 28px;
+      letter-spacing: 6px;
+    }
+
+    .theme-invoice .column-header {
+      background: #1f3a5f;
+      color: #fff;
+      padding: 4px 6px;
+    }
+
+    .theme-invoice .total {
+      color: #1f3a5f;
+    }
+`,
+  image: { paper: "#ffffff", ink: "#1f3a5f", tornEdges: false },
+};
+
+/**
+ * A fairground-style admission ticket
+ */
+const ARCADE: ReceiptTheme = {
+  name: "arcade",
+  displayName: "Arcade Ticket",
+  labels: {
+    ...DEFAULT_LABELS,
+    location: "Arcade",
+    session: "Game",
+    date: "Played",
+    receipt: "Ticket",
+    item: "LEVEL",
+    quantity: "POINTS",
+    price: "CREDITS",
+    tools: "POWER-UPS",
+    toolErrors: "MISSED",
+    toolRejected: "BLOCKED",
+    built: "HIGH SCORE",
+    filesChanged: "FILES CLEARED",
+    lines: "LINES",
+    netLines: "NET SCORE",
+    commits: "SAVE POINTS",
+    costPerLine: "CREDITS PER LINE",
+    agents: "PARTY",
+    mainThread: "MAIN QUEST",
+    subAgent: "SIDE QUEST",
+    subtotal: "CREDITS USED",
+    total: "TOTAL CREDITS",
+    cashier: "PLAYER 1",
+  },
+  showLogo: true,
+  title: "ADMIT ONE",
+  subtitle: "* * * ARCADE TICKET * * *",
+  showColumnHeader: true,
+  showTokenPrices: true,
+  showSubtotal: false,
+  extraTotals: [],
+  showCashier: true,
+  footer: ["GAME OVER", "INSERT COIN TO CONTINUE"],
+  uppercase: true,
+  rules: {
+    text: { heavy: "*", light: "·" },
+    printer: { heavy: "*", light: "." },
+  },
+  htmlStyles: `
+    .theme-arcade {
+      background: #ffb347;
+      color: #3b1f00;
+      border: 4px dashed #c0392b;
+      border-radius: 12px;
+      font-weight: bold;
+    }
+
+    .theme-arcade::before,
+    .theme-arcade::after {
+      display: none;
+    }
+
+    .theme-arcade .report-title {
+      color: #c0392b;
+      font-size: 24px;
+      letter-spacing: 4px;
+    }
+
+    .theme-arcade .line-item,
+    .theme-arcade .meta-row,
+    .theme-arcade .footer {
+      color: #3b1f00;
+    }
+
+    .theme-arcade .separator,
+    .theme-arcade .total-section {
+      border-color: #c0392b;
+      border-style: dotted;
+    }
+`,
+  image: { paper: "#ffb347", ink: "#3b1f00", tornEdges: false },
+};
+
+export const THEMES: Record<ThemeName, ReceiptTheme> = {
+  classic: CLASSIC,
+  minimalist: MINIMALIST,
+  invoice: INVOICE,
+  arcade: ARCADE,
+};
+
+export const DEFAULT_THEME: ThemeName = "classic";
+
+/**
+ * Look up a theme by name (defaults to the classic diner receipt)
+ */
+export function getTheme(name: string = DEFAULT_THEME): ReceiptTheme {
+  const theme = getOwn(THEMES, name);
+  if (!theme) {
+    throw new Error(
+      `Unknown theme: ${name}. Valid themes: ${Object.keys(THEMES).join(", ")}`,
+    );
+  }
+  return theme;
+}
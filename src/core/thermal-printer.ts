@@ -1,401 +1,599 @@
-import { createConnection } from "net";
 import { exec } from "child_process";
 import { promisify } from "util";
 import type { ReceiptData } from "./receipt-generator.js";
+import type { ZReportData } from "../types/report.js";
+import type { ReceiptDocument } from "../types/receipt-document.js";
+import type { ReceiptConfig } from "../types/config.js";
+import type { MonochromeBitmap, UnicodeFont } from "../types/image.js";
+import type {
+  PrinterProfile,
+  PrinterStatus,
+  PrintResult,
+} from "../types/printer.js";
+import { ReceiptDocumentBuilder } from "./receipt-document.js";
+import { EscPosEmulator } from "./escpos-emulator.js";
+import { getPrinterProfile } from "./printer-profiles.js";
+import { CHAR_WIDTH_DOTS, createCommandBuilder } from "./printer-commands.js";
 import {
-  formatCurrency,
-  formatNumber,
-  formatDateTime,
-} from "../utils/formatting.js";
+  openSerialConnection,
+  openTcpConnection,
+  openUsbConnection,
+} from "./printer-connection.js";
+import { printViaIpp } from "./ipp-client.js";
+import { printViaLpd } from "./lpd-client.js";
+import type { PrinterConnection } from "./printer-connection.js";
+import {
+  getStatusErrors,
+  PaperLowError,
+  PrintInterruptedError,
+} from "./printer-errors.js";
+import { queryStatus, waitForJob } from "./printer-status.js";
+import { CLAUDE_MASCOT } from "../utils/ascii-art.js";
+import { ditherImage, resizeImage } from "../utils/dither.js";
+import { drawBarChart, drawPixelArt } from "../utils/graphics.js";
+import { spreadLabels } from "../utils/formatting.js";
 
 const execAsync = promisify(exec);
 
-const WIDTH = 40; // TM-T88V 80mm paper, Font A minus margin
-const LEFT_MARGIN_DOTS = 12; // 1 character width at 203 dpi
-
-const REPO_URL = "https://github.com/chrishutchinson/claude-receipts";
-
-// Epson USB vendor ID
-const EPSON_VENDOR_ID = 0x04b8;
-// TM-T88V product ID
-const TM_T88V_PRODUCT_ID = 0x0202;
-
-// ESC/POS command constants
-const ESC = 0x1b;
-const GS = 0x1d;
-const LF = 0x0a;
-
-// CP437 block characters (raw byte values — not UTF-8)
-const BLK = 0xdb; // █ full block
-const UPH = 0xdf; // ▀ upper half block
-const LFH = 0xdd; // ▌ left half block
-const RHF = 0xde; // ▐ right half block
-
-/** Tiny buffer builder for ESC/POS byte sequences. */
-class EscPosBuilder {
-  private chunks: Buffer[] = [];
+// Job name shown in IPP and LPD print queues
+const JOB_NAME = "Claude receipt";
+const LOGO_MAX_WIDTH_DOTS = 384;
+const CHART_HEIGHT_DOTS = 96;
 
-  /** Append raw bytes. */
-  raw(...bytes: number[]): this {
-    this.chunks.push(Buffer.from(bytes));
-    return this;
-  }
+export class ThermalPrinterRenderer {
+  private documentBuilder = new ReceiptDocumentBuilder();
 
-  /** Append a UTF-8 string (no newline). */
-  text(s: string): this {
-    this.chunks.push(Buffer.from(s, "utf-8"));
-    return this;
+  /**
+   * Print a receipt to a thermal printer.
+   *
+   * Supported interface formats:
+   *   - "tcp://host:port" — send via TCP socket
+   *   - "usb" — the printer profile's default USB device via libusb
+   *   - "usb:VID:PID" — specific USB vendor/product ID (hex)
+   *   - "serial:/dev/ttyUSB0?baud=19200&flow=rtscts" — serial port, with
+   *     optional baud, bits, stop, parity and flow settings
+   *   - "ipp://host/printers/name" — IPP Print-Job, as raw data
+   *   - "lpd://host/queue" — LPD (RFC 1179) print queue
+   *   - "emulator:<file>" — render to a PNG and annotated text dump
+   *   - anything else — treated as a CUPS printer name
+   *
+   * TCP, USB and serial printers are asked for their status before and after
+   * printing: a cover open, paper out or offline printer throws a
+   * PrinterStatusError before printing, and comes back as a warning (as
+   * does paper running low) once the job has been sent.
+   */
+  async printReceipt(
+    data: ReceiptData,
+    printerInterface: string,
+    shareUrl?: string,
+  ): Promise<PrintResult> {
+    const buffer = await this.buildReceiptJob(data, shareUrl);
+    return this.send(
+      buffer,
+      printerInterface,
+      getPrinterProfile(data.config.printerProfile),
+    );
   }
 
-  /** Append a string followed by LF. */
-  line(s: string = ""): this {
-    return this.text(s).raw(LF);
+  /**
+   * Print an end-of-period Z-report to a thermal printer.
+   */
+  async printZReport(
+    report: ZReportData,
+    printerInterface: string,
+  ): Promise<PrintResult> {
+    const buffer = await this.buildZReportJob(report);
+    return this.send(
+      buffer,
+      printerInterface,
+      getPrinterProfile(report.config.printerProfile),
+    );
   }
 
-  /** ESC @ — initialize printer. */
-  init(): this {
-    return this.raw(ESC, 0x40);
+  /**
+   * Build the printer commands for a receipt, laid out for the configured
+   * printer profile, without sending them.
+   */
+  async buildReceiptJob(data: ReceiptData, shareUrl?: string): Promise<Buffer> {
+    const profile = getPrinterProfile(data.config.printerProfile);
+    const logo = await this.loadLogo(data.config, profile);
+    const font = await this.loadFont(data.config);
+    return this.buildReceipt(data, profile, logo, font, shareUrl);
   }
 
-  /** GS L nL nH — set left margin in motion units (1/203 inch). */
-  leftMargin(dots: number): this {
-    return this.raw(GS, 0x4c, dots & 0xff, (dots >> 8) & 0xff);
+  /**
+   * Build the printer commands for a Z-report without sending them.
+   */
+  async buildZReportJob(report: ZReportData): Promise<Buffer> {
+    const profile = getPrinterProfile(report.config.printerProfile);
+    const logo = await this.loadLogo(report.config, profile);
+    const font = await this.loadFont(report.config);
+    return this.buildZReport(report, profile, logo, font);
   }
 
   /**
-   * Print the Claude logo using CP437 block characters.
-   * 5-row character: solid head, eyes, wider arms, solid body, legs.
+   * Read a printer's status without printing. Returns undefined when the
+   * printer doesn't answer status queries.
    */
-  logo(): this {
-    this.align("center");
-    // Row 1 (solid head):  ▐██████████▌
-    this.raw(RHF, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, LFH, LF);
-    // Row 2 (eyes):        ██ ██ ██
-    this.raw(RHF, BLK, BLK, 0x20, BLK, BLK, BLK, BLK, 0x20, BLK, BLK, LFH, LF);
-    // Row 3 (arms, wider): ▐████████▌
-    this.raw(
-      RHF,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      BLK,
-      LFH,
-      LF,
-    );
-    // Row 4 (solid body):  ▐██████▌
-    this.raw(RHF, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, BLK, LFH, LF);
-    // Row 5 (legs):         ▀▀  ▀▀
-    this.raw(UPH, 0x20, UPH, 0x20, 0x20, UPH, 0x20, UPH, LF);
-    return this;
-  }
+  async getStatus(
+    printerInterface: string,
+    profile: PrinterProfile,
+  ): Promise<PrinterStatus | undefined> {
+    if (printerInterface.startsWith("emulator:")) {
+      return {
+        online: true,
+        coverOpen: false,
+        paperLow: false,
+        paperOut: false,
+        error: false,
+      };
+    }
 
-  /** ESC E n — bold on/off. */
-  bold(on: boolean): this {
-    return this.raw(ESC, 0x45, on ? 1 : 0);
-  }
+    const connection = await this.connect(printerInterface, profile);
+    if (!connection) {
+      throw new Error(
+        "Status needs a direct connection (tcp://host, usb or serial:); CUPS, IPP and LPD printers can't be queried",
+      );
+    }
 
-  /** ESC a n — alignment (0=left, 1=center, 2=right). */
-  align(mode: "left" | "center" | "right"): this {
-    const n = mode === "left" ? 0 : mode === "center" ? 1 : 2;
-    return this.raw(ESC, 0x61, n);
+    try {
+      return await queryStatus(connection, profile.commandSet);
+    } finally {
+      await connection.close();
+    }
   }
 
   /**
-   * ESC ! n — select print mode.
-   *   bit 3 = double height, bit 4 = double width, bit 5 = bold
-   *   0x00 = normal, 0x30 = double-height + double-width
+   * Send a built job to the printer interface (see printReceipt for
+   * formats).
    */
-  printMode(n: number): this {
-    return this.raw(ESC, 0x21, n);
-  }
+  async send(
+    buffer: Buffer,
+    printerInterface: string,
+    profile: PrinterProfile,
+  ): Promise<PrintResult> {
+    if (printerInterface.startsWith("emulator:")) {
+      await this.sendToEmulator(buffer, printerInterface, profile);
+      return { warnings: [] };
+    }
 
-  /** Convenience: double-height + double-width text. */
-  doubleSize(): this {
-    return this.printMode(0x30);
-  }
+    const connection = await this.connect(printerInterface, profile);
+    if (connection) {
+      return this.sendOverConnection(connection, buffer, profile);
+    }
 
-  /** Convenience: reset to normal size. */
-  normalSize(): this {
-    return this.printMode(0x00);
-  }
+    if (printerInterface.startsWith("ipp://")) {
+      await printViaIpp(buffer, printerInterface, JOB_NAME);
+      return { warnings: [] };
+    }
+    if (printerInterface.startsWith("lpd://")) {
+      await printViaLpd(buffer, printerInterface, JOB_NAME);
+      return { warnings: [] };
+    }
 
-  /** Print a full line of a repeated character. */
-  drawLine(char: string = "="): this {
-    return this.line(char.repeat(WIDTH));
+    await this.sendViaCups(buffer, printerInterface);
+    return { warnings: [] };
   }
 
-  /** Print a two-column row: left-aligned label, right-aligned value. */
-  leftRight(left: string, right: string): this {
-    const gap = WIDTH - left.length - right.length;
-    if (gap < 1) {
-      return this.line(`${left} ${right}`);
-    }
-    return this.line(`${left}${" ".repeat(gap)}${right}`);
+  /**
+   * Build the full ESC/POS receipt buffer.
+   */
+  private buildReceipt(
+    data: ReceiptData,
+    profile: PrinterProfile,
+    logo: MonochromeBitmap,
+    font: UnicodeFont | undefined,
+    shareUrl?: string,
+  ): Buffer {
+    return this.renderDocument(
+      this.documentBuilder.buildReceipt(data, shareUrl),
+      profile,
+      data.config,
+      logo,
+      font,
+    );
   }
 
   /**
-   * QR code via GS ( k commands (Epson model 2).
-   *   1) Select model 2
-   *   2) Set cell size
-   *   3) Set error correction (M)
-   *   4) Store data
-   *   5) Print stored data
+   * Build the Z-report ESC/POS buffer.
    */
-  qrCode(data: string, cellSize: number = 6): this {
-    const d = Buffer.from(data, "utf-8");
-
-    // Function 165 — select QR model 2
-    this.raw(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 50, 0);
-    // Function 167 — set cell size
-    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, cellSize);
-    // Function 169 — error correction level M (49)
-    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 49);
-    // Function 180 — store data
-    const storeLen = d.length + 3;
-    this.raw(
-      GS,
-      0x28,
-      0x6b,
-      storeLen & 0xff,
-      (storeLen >> 8) & 0xff,
-      0x31,
-      0x50,
-      0x30,
+  private buildZReport(
+    report: ZReportData,
+    profile: PrinterProfile,
+    logo: MonochromeBitmap,
+    font: UnicodeFont | undefined,
+  ): Buffer {
+    return this.renderDocument(
+      this.documentBuilder.buildZReport(report),
+      profile,
+      report.config,
+      logo,
+      font,
     );
-    this.chunks.push(d);
-    // Function 181 — print
-    this.raw(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
-
-    return this;
   }
 
-  /** GS V 66 3 — partial cut with feed. */
-  partialCut(): this {
-    return this.raw(GS, 0x56, 0x42, 3);
-  }
+  /**
+   * Load the header logo: the configured team logo PNG, scaled to fit and
+   * dithered, or the Claude mascot.
+   */
+  private async loadLogo(
+    config: ReceiptConfig,
+    profile: PrinterProfile,
+  ): Promise<MonochromeBitmap> {
+    if (!config.logo) {
+      return ditherImage(drawPixelArt(CLAUDE_MASCOT, 10), "threshold");
+    }
+
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { decodePng } = await import("../utils/png.js");
 
-  /** Return the complete buffer. */
-  build(): Buffer {
-    return Buffer.concat(this.chunks);
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const path = resolve(config.logo.replace(/^~(?=\/|$)/, home));
+
+    let image;
+    try {
+      image = decodePng(await readFile(path));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load logo ${path}: ${reason}`);
+    }
+
+    const maxWidth = Math.min(
+      LOGO_MAX_WIDTH_DOTS,
+      profile.charsPerLine * CHAR_WIDTH_DOTS,
+    );
+    if (image.width > maxWidth) {
+      image = resizeImage(image, maxWidth);
+    }
+    return ditherImage(image, config.dither);
   }
-}
 
-export class ThermalPrinterRenderer {
   /**
-   * Print a receipt to a thermal printer.
-   *
-   * Supported interface formats:
-   *   - "tcp://host:port" — send via TCP socket
-   *   - "usb" — auto-detect Epson TM-T88V via libusb
-   *   - "usb:VID:PID" — specific USB vendor/product ID (hex)
-   *   - anything else — treated as a CUPS printer name
+   * Load the configured GNU Unifont file, if any, for text the code page
+   * can't print.
    */
-  async printReceipt(
-    data: ReceiptData,
-    printerInterface: string,
-    shareUrl?: string,
-  ): Promise<void> {
-    const buffer = this.buildReceipt(data, shareUrl);
+  private async loadFont(
+    config: ReceiptConfig,
+  ): Promise<UnicodeFont | undefined> {
+    if (!config.unicodeFont) {
+      return undefined;
+    }
 
-    if (printerInterface.startsWith("tcp://")) {
-      await this.sendViaTcp(buffer, printerInterface);
-    } else if (
-      printerInterface === "usb" ||
-      printerInterface.startsWith("usb:")
-    ) {
-      await this.sendViaUsb(buffer, printerInterface);
-    } else {
-      await this.sendViaCups(buffer, printerInterface);
+    const { readFile } = await import("fs/promises");
+    const { resolve } = await import("path");
+    const { parseUnifontHex } = await import("../utils/unifont.js");
+
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const path = resolve(config.unicodeFont.replace(/^~(?=\/|$)/, home));
+
+    try {
+      return parseUnifontHex(await readFile(path, "utf-8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not load Unicode font ${path}: ${reason}`);
     }
   }
 
   /**
-   * Build the full ESC/POS receipt buffer.
+   * Lay out a receipt document as printer commands for the profile.
    */
-  private buildReceipt(data: ReceiptData, shareUrl?: string): Buffer {
-    const b = new EscPosBuilder();
+  private renderDocument(
+    doc: ReceiptDocument,
+    profile: PrinterProfile,
+    config: ReceiptConfig,
+    logo: MonochromeBitmap,
+    font?: UnicodeFont,
+  ): Buffer {
+    const b = createCommandBuilder(profile, font);
+    const width = profile.charsPerLine;
+    const { heavy, light } = doc.theme.rules.printer;
 
     b.init();
-    b.leftMargin(LEFT_MARGIN_DOTS);
+    b.codePage(config.codePage || profile.codePage);
+    b.leftMargin(profile.leftMarginDots);
 
     // --- Header ---
-    b.logo();
-    b.line();
+    b.align("center");
+    if (doc.header.logo) {
+      b.image(logo);
+      b.line();
+    }
+    if (doc.header.title) {
+      b.doubleSize();
+      b.line(doc.header.title);
+      b.normalSize();
+    }
+    if (doc.header.subtitle) {
+      b.bold(true);
+      b.line(doc.header.subtitle);
+      b.bold(false);
+    }
+    if (doc.header.title || doc.header.subtitle) {
+      b.line();
+    }
 
     // --- Info ---
-    b.align("center");
-    b.line(`Location: ${data.location}`);
-    b.line(`Session: ${data.transcriptData.sessionSlug}`);
-    b.line(formatDateTime(data.transcriptData.endTime, data.config.timezone));
+    for (const row of doc.info) {
+      b.line(`${row.label}: ${row.value}`);
+    }
+    if (doc.stamp) {
+      const [first, ...rest] = doc.stamp;
+      b.line();
+      b.doubleSize();
+      b.line(first);
+      b.normalSize();
+      b.bold(true);
+      for (const line of rest) {
+        b.line(line);
+      }
+      b.bold(false);
+    }
     b.line();
 
-    // --- Model breakdowns ---
+    // --- Line items ---
     b.align("left");
-    b.drawLine();
-
-    if (
-      data.sessionData.modelBreakdowns &&
-      data.sessionData.modelBreakdowns.length > 0
-    ) {
-      for (const model of data.sessionData.modelBreakdowns) {
-        // Model name with its cost
-        b.bold(true);
-        b.leftRight(
-          this.getModelName(model.modelName),
-          formatCurrency(model.cost),
-        );
-        b.bold(false);
-        b.drawLine("-");
-
-        // Token counts (no prices)
-        b.leftRight("  Input tokens", formatNumber(model.inputTokens));
-        b.leftRight("  Output tokens", formatNumber(model.outputTokens));
+    b.drawLine(heavy);
 
-        if (model.cacheCreationTokens && model.cacheCreationTokens > 0) {
-          b.leftRight("  Cache write", formatNumber(model.cacheCreationTokens));
-        }
+    if (doc.columns) {
+      b.bold(true);
+      b.columns(...doc.columns);
+      b.bold(false);
+      b.drawLine(light);
+    }
 
-        if (model.cacheReadTokens && model.cacheReadTokens > 0) {
-          b.leftRight("  Cache read", formatNumber(model.cacheReadTokens));
-        }
+    doc.sections.forEach((section, index) => {
+      if (index > 0) {
+        b.drawLine(light);
+      }
+      if (section.title) {
+        b.bold(true);
+        b.leftRight(section.title, section.total || "");
+        b.bold(false);
+      }
+      const indent = section.title ? "  " : "";
+      for (const item of section.items) {
+        b.columns(
+          `${indent}${item.label}`,
+          item.quantity || "",
+          item.price || "",
+        );
+      }
+    });
 
-        b.line();
+    // --- Totals ---
+    b.drawLine(heavy);
+    for (const row of doc.totals) {
+      b.bold(!!row.grand);
+      b.leftRight(row.label, row.value);
+    }
+    b.bold(false);
+    b.drawLine(heavy);
+    b.line();
 
-        b.drawLine();
+    // --- What the session built ---
+    if (doc.built) {
+      b.align("center");
+      b.bold(true);
+      b.line(doc.built.title);
+      b.bold(false);
+      b.align("left");
+      b.drawLine(light);
+      for (const row of doc.built.rows) {
+        b.leftRight(row.label, row.value);
       }
+      b.drawLine(heavy);
+      b.line();
     }
 
-    // --- Total ---
-    b.bold(true);
-    b.leftRight("TOTAL", formatCurrency(data.sessionData.totalCost));
-    b.bold(false);
-    b.drawLine();
-    b.line();
+    // --- Chart ---
+    if (doc.chart) {
+      const chart = drawBarChart(
+        doc.chart.values,
+        width * CHAR_WIDTH_DOTS,
+        CHART_HEIGHT_DOTS,
+      );
+      b.align("center");
+      b.bold(true);
+      b.line(doc.chart.title);
+      b.bold(false);
+      b.align("left");
+      b.image(ditherImage(chart, config.dither));
+      b.line(spreadLabels(doc.chart.labels, width));
+      b.line();
+    }
 
     // --- Footer ---
-    b.align("left");
-    b.line(`CASHIER: ${this.getMainModel(data.sessionData)}`);
-    b.line();
+    for (const note of doc.footer.notes) {
+      b.line(note);
+    }
+    if (doc.footer.notes.length > 0) {
+      b.line();
+    }
     b.align("center");
-    b.line("Thank you for building!");
+    for (const message of doc.footer.messages) {
+      b.line(message);
+    }
     b.line();
 
-    // --- Repo QR code ---
-    b.align("center");
-    b.line("Print your own Claude receipts:");
-    b.qrCode(REPO_URL, 4);
-    b.line("github.com/chrishutchinson");
-    b.line("/claude-receipts");
-    b.line();
+    // --- Barcode ---
+    if (doc.barcode) {
+      b.barcode(doc.barcode);
+      b.line();
+    }
+
+    // --- QR code ---
+    if (doc.qr) {
+      b.line(`${doc.qr.caption}:`);
+      b.qrCode(doc.qr.data, 4);
+      for (const line of this.wrapUrl(
+        doc.qr.data.replace(/^https?:\/\//, ""),
+        width,
+      )) {
+        b.line(line);
+      }
+      b.line();
+    }
 
     // --- Cut ---
-    b.partialCut();
+    b.cut();
 
     return b.build();
   }
 
   /**
-   * Send buffer to a network printer via TCP.
+   * Split a URL over several lines at "/" boundaries to fit the paper width.
    */
-  private sendViaTcp(buffer: Buffer, address: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const url = new URL(address);
-      const host = url.hostname;
-      const port = parseInt(url.port || "9100", 10);
-
-      const socket = createConnection({ host, port }, () => {
-        socket.end(buffer, () => {
-          resolve();
-        });
-      });
-
-      socket.on("error", (err) => {
-        reject(new Error(`TCP printer connection failed: ${err.message}`));
-      });
-    });
+  private wrapUrl(url: string, width: number): string[] {
+    const lines: string[] = [];
+    let current = "";
+
+    for (const part of url.split(/(?=\/)/)) {
+      if (current && current.length + part.length > width) {
+        lines.push(current);
+        current = "";
+      }
+      current += part;
+    }
+
+    if (current) lines.push(current);
+    return lines;
   }
 
   /**
-   * Send buffer directly to a USB printer via libusb.
-   *
-   * @param buffer ESC/POS data
-   * @param spec "usb" for auto-detect, or "usb:VID:PID" for specific device
+   * Render the buffer with the ESC/POS emulator, writing a PNG to the given
+   * file and an annotated text dump beside it (same name, .txt).
    */
-  private async sendViaUsb(buffer: Buffer, spec: string): Promise<void> {
-    const { findByIds, getDeviceList, OutEndpoint } = await import("usb");
-
-    let vid = EPSON_VENDOR_ID;
-    let pid = TM_T88V_PRODUCT_ID;
-
-    // Parse "usb:VID:PID" if provided
-    if (spec.startsWith("usb:")) {
-      const parts = spec.split(":");
-      if (parts.length >= 3) {
-        vid = parseInt(parts[1], 16);
-        pid = parseInt(parts[2], 16);
-      }
-    }
-
-    const device = findByIds(vid, pid);
-    if (!device) {
-      // List what USB devices we can see to help debug
-      const devices = getDeviceList();
-      const summary = devices
-        .slice(0, 10)
-        .map(
-          (d) =>
-            `  ${d.deviceDescriptor.idVendor.toString(16)}:${d.deviceDescriptor.idProduct.toString(16)}`,
-        )
-        .join("\n");
+  private async sendToEmulator(
+    buffer: Buffer,
+    spec: string,
+    profile: PrinterProfile,
+  ): Promise<void> {
+    const { writeFile, mkdir } = await import("fs/promises");
+    const { dirname, resolve } = await import("path");
 
+    const file = spec.slice("emulator:".length);
+    if (!file) {
       throw new Error(
-        `USB printer not found (looking for ${vid.toString(16)}:${pid.toString(16)}).\n` +
-          `Visible USB devices:\n${summary || "  (none)"}`,
+        'Emulator needs an output file, e.g. "emulator:~/receipt.png"',
       );
     }
 
-    device.open();
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    const pngPath = resolve(file.replace(/^~(?=\/|$)/, home));
+    const textPath = pngPath.replace(/(\.png)?$/i, ".txt");
+
+    const result = new EscPosEmulator(
+      profile.printWidthDots,
+      profile.commandSet,
+    ).render(buffer);
+    await mkdir(dirname(pngPath), { recursive: true });
+    await writeFile(pngPath, result.png);
+    await writeFile(textPath, result.text, "utf-8");
+  }
 
+  /**
+   * Send a job over a two-way connection, checking the printer's status
+   * before and after. Printers that don't answer status queries are sent
+   * the job blind. Once any of the job has been sent, nothing throws an
+   * error that would spool it, as a retry could print it twice.
+   */
+  private async sendOverConnection(
+    connection: PrinterConnection,
+    buffer: Buffer,
+    profile: PrinterProfile,
+  ): Promise<PrintResult> {
     try {
-      const iface = device.interface(0);
+      const before = await queryStatus(connection, profile.commandSet);
+      if (before) {
+        this.throwIfNotReady(before);
+      }
 
-      // Detach kernel driver if active (e.g. macOS claiming the device)
-      if (iface.isKernelDriverActive()) {
-        iface.detachKernelDriver();
+      try {
+        await connection.write(buffer);
+      } catch (error) {
+        throw new PrintInterruptedError(error);
       }
 
-      iface.claim();
+      if (!before) {
+        return { warnings: [] };
+      }
 
-      // Find the OUT endpoint (bulk transfer to printer)
-      const outEndpoint = iface.endpoints.find(
-        (ep): ep is InstanceType<typeof OutEndpoint> =>
-          ep instanceof OutEndpoint,
-      );
+      return await this.checkAfterPrinting(connection, profile);
+    } finally {
+      await connection.close();
+    }
+  }
 
-      if (!outEndpoint) {
-        throw new Error(
-          "No OUT endpoint found on USB interface 0. " +
-            `Endpoints: ${iface.endpoints.map((e) => `${e.address} (${e.direction})`).join(", ")}`,
-        );
+  /**
+   * Read the printer's status once a job has been sent. Problems are only
+   * warnings by now: the receipt has printed, or printed in part.
+   */
+  private async checkAfterPrinting(
+    connection: PrinterConnection,
+    profile: PrinterProfile,
+  ): Promise<PrintResult> {
+    try {
+      const finished = await waitForJob(connection, profile.commandSet);
+      const after = await queryStatus(connection, profile.commandSet);
+      if (!after) {
+        return {
+          warnings: finished
+            ? []
+            : [new Error("Printer stopped responding while printing")],
+        };
       }
 
-      // Send the data
-      await outEndpoint.transferAsync(buffer);
+      return {
+        status: after,
+        warnings: getStatusErrors(after).map((error) =>
+          error instanceof PaperLowError
+            ? error
+            : new Error(
+                `${error.message} after printing; check the receipt printed in full`,
+              ),
+        ),
+      };
+    } catch (error) {
+      return {
+        warnings: [
+          new Error(
+            `Couldn't check the printer after printing: ${error instanceof Error ? error.message : error}`,
+          ),
+        ],
+      };
+    }
+  }
 
-      await iface.releaseAsync();
-    } finally {
-      device.close();
+  /**
+   * Throw the most serious problem that stops the printer printing
+   */
+  private throwIfNotReady(status: PrinterStatus): void {
+    const fatal = getStatusErrors(status).find(
+      (error) => !(error instanceof PaperLowError),
+    );
+    if (fatal) {
+      throw fatal;
+    }
+  }
+
+  /**
+   * Open a two-way connection for "tcp://", "usb" and "serial:" interfaces
+   */
+  private async connect(
+    printerInterface: string,
+    profile: PrinterProfile,
+  ): Promise<PrinterConnection | undefined> {
+    if (printerInterface.startsWith("tcp://")) {
+      return openTcpConnection(printerInterface);
+    }
+    if (printerInterface === "usb" || printerInterface.startsWith("usb:")) {
+      return openUsbConnection(printerInterface, profile);
     }
+    if (printerInterface.startsWith("serial:")) {
+      return openSerialConnection(printerInterface);
+    }
+    return undefined;
   }
 
   /**
@@ -447,30 +645,4 @@ export class ThermalPrinterRenderer {
       }
     }
   }
-
-  private getModelName(model: string): string {
-    const cleaned = model.replace(/-\d{8}$/, "");
-
-    const modelMap: Record<string, string> = {
-      "claude-sonnet-4-5": "Claude Sonnet 4.5",
-      "claude-opus-4-5": "Claude Opus 4.5",
-      "claude-3-5-sonnet": "Claude 3.5 Sonnet",
-      "claude-3-opus": "Claude 3 Opus",
-      "claude-3-haiku": "Claude 3 Haiku",
-    };
-
-    return modelMap[cleaned] || model;
-  }
-
-  private getMainModel(sessionData: ReceiptData["sessionData"]): string {
-    if (sessionData.modelBreakdowns && sessionData.modelBreakdowns.length > 0) {
-      return this.getModelName(sessionData.modelBreakdowns[0].modelName);
-    }
-
-    if (sessionData.modelsUsed && sessionData.modelsUsed.length > 0) {
-      return this.getModelName(sessionData.modelsUsed[0]);
-    }
-
-    return "Claude";
-  }
 }
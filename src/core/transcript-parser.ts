@@ -1,15 +1,74 @@
-import { readFile } from "fs/promises";
 import { existsSync } from "fs";
+import { readdir } from "fs/promises";
+import { basename, dirname, join } from "path";
+import { findJsonLine, isJsonObject, readJsonLines } from "../utils/jsonl.js";
+import type { JsonlProgress } from "../utils/jsonl.js";
 import type {
   TranscriptMessage,
   ParsedTranscript,
+  ToolUsage,
+  CodeChanges,
+  SubAgent,
 } from "../types/transcript.js";
 
+// Tool results Claude Code writes when the user declines or interrupts a
+// tool call, rather than the tool itself failing
+const REJECTED_TOOL_RESULT =
+  /doesn't want to proceed with this tool use|Request interrupted by user for tool use|Permission to use .+ has been denied/;
+
+// Splits a Bash command into words, and between commands joined by
+// ;, &&, || or | and grouped with ( )
+const SHELL_WORD_SEPARATOR = /[\s;&|()]+/;
+
+// git's global options that take their value as the next word
+const GIT_OPTIONS_WITH_VALUE = new Set([
+  "-C",
+  "-c",
+  "--git-dir",
+  "--work-tree",
+  "--namespace",
+  "--config-env",
+]);
+
+// Largest edit (old lines x new lines) to diff exactly
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Tools that start a sub-agent (Task was renamed Agent in later versions)
+const SUB_AGENT_TOOLS = new Set(["Task", "Agent"]);
+
+// Sub-agent transcripts are named agent-<agentId>.jsonl
+const AGENT_FILE = /^agent-(.+)\.jsonl$/;
+
+// A tool call, reduced to what the receipt needs as soon as it's read so
+// large inputs (such as whole files being written) aren't kept
+interface ToolCall {
+  name: string;
+  // File edited or written
+  file?: string;
+  linesAdded: number;
+  linesRemoved: number;
+  commits: number;
+  outcome: "ok" | "error" | "rejected";
+  // Sub-agent started by a Task call, with the prompt it was given so its
+  // transcript can be matched up
+  subAgent?: SubAgent & { prompt: string };
+}
+
+export interface ParseTranscriptOptions {
+  // Called as the transcript is read, for progress reporting
+  onProgress?: (progress: JsonlProgress) => void;
+}
+
 export class TranscriptParser {
   /**
-   * Parse a transcript JSONL file
+   * Parse a transcript JSONL file. The file is streamed, so very large
+   * transcripts are read in bounded memory; unreadable lines are skipped
+   * and counted in `skippedLines`.
    */
-  async parseTranscript(transcriptPath: string): Promise<ParsedTranscript> {
+  async parseTranscript(
+    transcriptPath: string,
+    options: ParseTranscriptOptions = {},
+  ): Promise<ParsedTranscript> {
     // Expand ~ to home directory
     const expandedPath = transcriptPath.replace(/^~/, process.env.HOME || "");
 
@@ -17,66 +76,348 @@ export class TranscriptParser {
       throw new Error(`Transcript file not found: ${transcriptPath}`);
     }
 
-    const content = await readFile(expandedPath, "utf-8");
-    const lines = content.trim().split("\n");
+    let firstUserMessage: TranscriptMessage | undefined;
+    let userMessageCount = 0;
+    let assistantMessageCount = 0;
+    let totalMessages = 0;
+    let firstTimestamp: string | undefined;
+    let lastTimestamp: string | undefined;
+    let cwd: string | undefined;
+    let gitBranch: string | undefined;
+    let sessionId: string | undefined;
+    // Keyed by tool_use ID, which also drops any repeated blocks
+    const toolCalls = new Map<string, ToolCall>();
 
-    const messages: TranscriptMessage[] = lines
-      .filter((line) => line.trim())
-      .map((line) => JSON.parse(line));
+    const { skippedLines } = await readJsonLines<TranscriptMessage>(
+      expandedPath,
+      (message) => {
+        totalMessages++;
+        sessionId ??= message.sessionId;
+        if (message.type === "user") {
+          userMessageCount++;
+          firstUserMessage ??= message;
+        } else if (message.type === "assistant") {
+          assistantMessageCount++;
+        }
 
-    // Extract session metadata
-    const userMessages = messages.filter((m) => m.type === "user");
-    const assistantMessages = messages.filter((m) => m.type === "assistant");
+        if (message.timestamp) {
+          firstTimestamp ??= message.timestamp;
+          lastTimestamp = message.timestamp;
+        }
 
-    const firstUserMessage = userMessages[0];
-    const firstPrompt = this.extractPromptText(firstUserMessage);
-    const sessionSlug = firstUserMessage?.slug || "unknown-session";
+        // The session may change directory or branch; report where it
+        // ended up
+        if (message.cwd) {
+          cwd = message.cwd;
+        }
+        if (message.gitBranch && message.gitBranch !== "HEAD") {
+          gitBranch = message.gitBranch;
+        }
 
-    // Calculate duration
-    const timestamps = messages
-      .filter((m) => m.timestamp)
-      .map((m) => new Date(m.timestamp));
+        this.recordToolCalls(message, toolCalls);
+      },
+      options.onProgress,
+    );
 
-    const startTime = timestamps[0] || new Date();
-    const endTime = timestamps[timestamps.length - 1] || new Date();
+    const calls = [...toolCalls.values()];
+    const subAgents = calls.flatMap((call) =>
+      call.subAgent ? [call.subAgent] : [],
+    );
+    if (subAgents.length > 0) {
+      await this.linkSubAgentTranscripts(
+        expandedPath,
+        sessionId || basename(expandedPath, ".jsonl"),
+        subAgents,
+      );
+    }
 
     return {
-      sessionSlug,
-      firstPrompt,
-      startTime,
-      endTime,
-      userMessageCount: userMessages.length,
-      assistantMessageCount: assistantMessages.length,
-      totalMessages: messages.length,
+      sessionSlug: firstUserMessage?.slug || "unknown-session",
+      firstPrompt: this.extractPromptText(firstUserMessage),
+      startTime: firstTimestamp ? new Date(firstTimestamp) : new Date(),
+      endTime: lastTimestamp ? new Date(lastTimestamp) : new Date(),
+      userMessageCount,
+      assistantMessageCount,
+      totalMessages,
+      cwd,
+      gitBranch,
+      toolUsage: this.countToolUsage(calls),
+      codeChanges: this.summariseCodeChanges(calls),
+      skippedLines,
+      subAgents:
+        subAgents.length > 0
+          ? subAgents.map(
+              ({ agentId, description, agentType, transcriptPath }) => ({
+                agentId,
+                description,
+                agentType,
+                transcriptPath,
+              }),
+            )
+          : undefined,
     };
   }
 
+  /**
+   * Record the tool calls in a message's tool_use blocks, and mark those
+   * answered by its tool_result blocks that failed or were rejected
+   */
+  private recordToolCalls(
+    message: TranscriptMessage,
+    toolCalls: Map<string, ToolCall>,
+  ): void {
+    const content = message.message?.content;
+    if (!Array.isArray(content)) {
+      return;
+    }
+
+    for (const block of content) {
+      // A valid line can still hold malformed blocks
+      if (!isJsonObject(block)) {
+        continue;
+      }
+
+      if (
+        block.type === "tool_use" &&
+        typeof block.id === "string" &&
+        typeof block.name === "string"
+      ) {
+        const input =
+          block.input && typeof block.input === "object"
+            ? (block.input as Record<string, unknown>)
+            : {};
+        toolCalls.set(block.id, this.summariseToolCall(block.name, input));
+      } else if (
+        block.type === "tool_result" &&
+        typeof block.tool_use_id === "string"
+      ) {
+        const call = toolCalls.get(block.tool_use_id);
+        if (!call) {
+          continue;
+        }
+        // Newer versions say which sub-agent answered a Task call
+        const result = message.toolUseResult;
+        if (
+          call.subAgent &&
+          result &&
+          typeof result === "object" &&
+          "agentId" in result &&
+          typeof result.agentId === "string"
+        ) {
+          call.subAgent.agentId = result.agentId;
+        }
+        const text = this.extractToolResultText(block.content);
+        if (REJECTED_TOOL_RESULT.test(text)) {
+          call.outcome = "rejected";
+        } else if (block.is_error === true) {
+          call.outcome = "error";
+        }
+      }
+    }
+  }
+
+  /**
+   * What a tool call would change: the file and lines from the inputs of
+   * file edits and writes, and git commits from Bash commands. Lines
+   * written over an existing file all count as added, so line counts are
+   * estimates.
+   */
+  private summariseToolCall(
+    name: string,
+    input: Record<string, unknown>,
+  ): ToolCall {
+    const call: ToolCall = {
+      name,
+      linesAdded: 0,
+      linesRemoved: 0,
+      commits: 0,
+      outcome: "ok",
+    };
+
+    const text = (value: unknown) => (typeof value === "string" ? value : "");
+    const change = (oldText: string, newText: string) => {
+      const diff = countChangedLines(oldText, newText);
+      call.linesAdded += diff.added;
+      call.linesRemoved += diff.removed;
+    };
+
+    switch (name) {
+      case "Edit":
+        change(text(input.old_string), text(input.new_string));
+        break;
+      case "MultiEdit":
+        for (const edit of Array.isArray(input.edits) ? input.edits : []) {
+          change(text(edit?.old_string), text(edit?.new_string));
+        }
+        break;
+      case "Write":
+        change("", text(input.content));
+        break;
+      case "NotebookEdit":
+        break;
+      case "Bash":
+        call.commits = countGitCommits(text(input.command));
+        return call;
+      default:
+        if (SUB_AGENT_TOOLS.has(name)) {
+          call.subAgent = {
+            description: text(input.description) || name,
+            agentType: text(input.subagent_type) || undefined,
+            prompt: text(input.prompt).trim(),
+          };
+        }
+        return call;
+    }
+
+    call.file = text(input.file_path) || text(input.notebook_path) || undefined;
+    return call;
+  }
+
+  /**
+   * Find the transcripts of the session's sub-agents, and match each to
+   * the Task call that started it: by agent ID where the call's result
+   * recorded one, otherwise by the prompt the sub-agent was given.
+   * Sub-agent transcripts are written to <session>/subagents/ beside the
+   * main transcript, or by older versions to agent-*.jsonl files beside
+   * it that say which session they belong to.
+   */
+  private async linkSubAgentTranscripts(
+    transcriptPath: string,
+    sessionId: string,
+    subAgents: Array<SubAgent & { prompt: string }>,
+  ): Promise<void> {
+    const dir = dirname(transcriptPath);
+    const sessionDir = join(dir, sessionId);
+    const candidates = [
+      ...(existsSync(sessionDir)
+        ? await readdir(sessionDir, { recursive: true })
+        : []
+      )
+        .filter((entry) => entry.endsWith(".jsonl"))
+        .map((entry) => join(sessionDir, entry)),
+      ...(await readdir(dir))
+        .filter((entry) => AGENT_FILE.test(entry))
+        .map((entry) => join(dir, entry)),
+    ];
+
+    for (const file of candidates) {
+      const first = await findJsonLine<TranscriptMessage>(
+        file,
+        (message) => message.type === "user",
+      );
+      if (!first || (first.sessionId && first.sessionId !== sessionId)) {
+        continue;
+      }
+
+      const agentId =
+        first.agentId || basename(file).match(AGENT_FILE)?.[1] || undefined;
+      const prompt = this.extractFullText(first).trim();
+      const subAgent =
+        subAgents.find((s) => agentId && s.agentId === agentId) ||
+        subAgents.find(
+          (s) => !s.agentId && !s.transcriptPath && s.prompt === prompt,
+        );
+      if (subAgent) {
+        subAgent.agentId ??= agentId;
+        subAgent.transcriptPath = file;
+      }
+    }
+  }
+
+  /**
+   * Count tool calls by tool, with how many failed or were rejected
+   */
+  private countToolUsage(calls: ToolCall[]): ToolUsage[] {
+    const usage = new Map<string, ToolUsage>();
+    for (const { name, outcome } of calls) {
+      const tool = usage.get(name) || {
+        name,
+        calls: 0,
+        errors: 0,
+        rejected: 0,
+      };
+      tool.calls++;
+      if (outcome === "error") tool.errors++;
+      if (outcome === "rejected") tool.rejected++;
+      usage.set(name, tool);
+    }
+
+    return [...usage.values()].sort(
+      (a, b) => b.calls - a.calls || a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Total up what the session's successful tool calls changed
+   */
+  private summariseCodeChanges(calls: ToolCall[]): CodeChanges {
+    const files = new Set<string>();
+    let linesAdded = 0;
+    let linesRemoved = 0;
+    let commits = 0;
+
+    for (const call of calls) {
+      if (call.outcome !== "ok") {
+        continue;
+      }
+      if (call.file) {
+        files.add(call.file);
+      }
+      linesAdded += call.linesAdded;
+      linesRemoved += call.linesRemoved;
+      commits += call.commits;
+    }
+
+    return { files: [...files], linesAdded, linesRemoved, commits };
+  }
+
+  /**
+   * Text of a tool_result block's content: a string or a list of text parts
+   */
+  private extractToolResultText(content: unknown): string {
+    if (typeof content === "string") {
+      return content;
+    }
+
+    if (Array.isArray(content)) {
+      return content
+        .map((part) => (part && typeof part.text === "string" ? part.text : ""))
+        .join(" ");
+    }
+
+    return "";
+  }
+
   /**
    * Extract text from a user message
    */
   private extractPromptText(message: TranscriptMessage | undefined): string {
-    if (!message?.message?.content) {
-      return "No prompt available";
-    }
+    const text = this.extractFullText(message);
+    return text ? this.truncateText(text, 100) : "No prompt available";
+  }
 
-    const content = message.message.content;
+  /**
+   * All the text in a message: its string content, or its text parts
+   */
+  private extractFullText(message: TranscriptMessage | undefined): string {
+    const content = message?.message?.content;
 
     // Handle string content
     if (typeof content === "string") {
-      return this.truncateText(content, 100);
+      return content;
     }
 
     // Handle array content (multipart messages)
     if (Array.isArray(content)) {
-      const textParts = content
-        .filter((part) => part.type === "text" && part.text)
+      return content
+        .filter(
+          (part) => isJsonObject(part) && part.type === "text" && part.text,
+        )
         .map((part) => part.text)
         .join(" ");
-
-      return this.truncateText(textParts, 100);
     }
 
-    return "No prompt available";
+    return "";
   }
 
   /**
@@ -90,3 +431,89 @@ export class TranscriptParser {
     return text.substring(0, maxLength).trim() + "...";
   }
 }
+
+/**
+ * How many `git commit` commands a Bash command runs, skipping git's
+ * global options (`git -C repo commit`) but not counting other
+ * subcommands such as `git commit-tree`
+ */
+function countGitCommits(command: string): number {
+  const words = command.split(SHELL_WORD_SEPARATOR);
+  let commits = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    if (words[i] !== "git" && !words[i].endsWith("/git")) {
+      continue;
+    }
+
+    let next = i + 1;
+    while (next < words.length && words[next].startsWith("-")) {
+      next += GIT_OPTIONS_WITH_VALUE.has(words[next]) ? 2 : 1;
+    }
+    if (words[next] === "commit") {
+      commits++;
+    }
+  }
+
+  return commits;
+}
+
+/**
+ * Lines added and removed by replacing one text with another, as a line
+ * diff would count them. Past MAX_DIFF_CELLS, lines between the unchanged
+ * start and end all count as changed.
+ */
+function countChangedLines(
+  oldText: string,
+  newText: string,
+): { added: number; removed: number } {
+  const oldLines = oldText ? oldText.replace(/\n$/, "").split("\n") : [];
+  const newLines = newText ? newText.replace(/\n$/, "").split("\n") : [];
+
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < oldLines.length - start &&
+    end < newLines.length - start &&
+    oldLines[oldLines.length - 1 - end] === newLines[newLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const oldMiddle = oldLines.slice(start, oldLines.length - end);
+  const newMiddle = newLines.slice(start, newLines.length - end);
+  const kept =
+    oldMiddle.length * newMiddle.length <= MAX_DIFF_CELLS
+      ? longestCommonSubsequence(oldMiddle, newMiddle)
+      : 0;
+
+  return {
+    added: newMiddle.length - kept,
+    removed: oldMiddle.length - kept,
+  };
+}
+
+/**
+ * Length of the longest common subsequence of two lists of lines
+ */
+function longestCommonSubsequence(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const line of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(
+        line === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
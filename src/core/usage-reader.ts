@@ -0,0 +1,321 @@
+import { readdir } from "fs/promises";
+import { existsSync } from "fs";
+import { basename, dirname, join, relative, sep } from "path";
+import { PricingRegistry } from "./pricing.js";
+import { readJsonLines } from "../utils/jsonl.js";
+import type { AgentBreakdown, ModelBreakdown } from "../types/ccusage.js";
+import type { TranscriptMessage } from "../types/transcript.js";
+import type { SessionUsage, UsageEntry } from "../types/usage.js";
+
+interface TranscriptUsageResult {
+  file: string;
+  sessionId?: string;
+  slug?: string;
+  cwd?: string;
+  entries: Array<UsageEntry & { dedupeKey?: string }>;
+}
+
+// Sub-agent transcripts are named agent-<agentId>.jsonl
+const AGENT_FILE = /^agent-(.+)\.jsonl$/;
+
+// Key for sub-agent messages kept in the main transcript, which don't say
+// which sub-agent they came from
+const INLINE_SIDECHAIN = "sidechain";
+
+/**
+ * Reads token usage straight from Claude Code transcripts
+ * (~/.claude/projects/<project>/<session>.jsonl), producing the same
+ * session shape as ccusage without spawning a subprocess.
+ */
+export class UsageReader {
+  private projectsDir: string;
+
+  constructor() {
+    const home = process.env.HOME || process.env.USERPROFILE || "";
+    this.projectsDir = join(home, ".claude", "projects");
+  }
+
+  /**
+   * Read usage for a single session by its full UUID.
+   * Returns null if no transcript exists for the session.
+   */
+  async readSession(
+    sessionId: string,
+    pricing: PricingRegistry = new PricingRegistry(),
+  ): Promise<SessionUsage | null> {
+    const files = await this.listTranscriptFiles();
+    const owned = files.filter(
+      (file) => this.getOwner(file)?.sessionId === sessionId,
+    );
+
+    const main = owned.find((file) => this.getOwner(file)?.isMain);
+    if (!main) {
+      return null;
+    }
+
+    // Legacy sidechain files sit beside the main transcript and are
+    // attributed by content
+    const legacy = files.filter(
+      (file) =>
+        dirname(file) === dirname(main) && AGENT_FILE.test(basename(file)),
+    );
+
+    const results = await Promise.all(
+      [...owned, ...legacy].map((file) => this.readTranscriptUsage(file)),
+    );
+
+    return this.summarize(
+      sessionId,
+      main,
+      results.filter(
+        (result) =>
+          owned.includes(result.file) || result.sessionId === sessionId,
+      ),
+      pricing,
+    );
+  }
+
+  /**
+   * List every session with recorded usage, most recent activity first.
+   */
+  async listSessions(
+    pricing: PricingRegistry = new PricingRegistry(),
+  ): Promise<SessionUsage[]> {
+    const files = await this.listTranscriptFiles();
+    const grouped = new Map<
+      string,
+      { main?: string; results: TranscriptUsageResult[] }
+    >();
+
+    for (const file of files) {
+      const result = await this.readTranscriptUsage(file);
+
+      // Legacy sidechain files (agent-*.jsonl) are attributed by content
+      const owner = this.getOwner(file);
+      const sessionId = owner?.sessionId || result.sessionId;
+      if (!sessionId) continue;
+
+      const group = grouped.get(sessionId) || { results: [] };
+      group.results.push(result);
+      if (owner?.isMain) {
+        group.main = file;
+      }
+      grouped.set(sessionId, group);
+    }
+
+    const sessions: SessionUsage[] = [];
+    for (const [sessionId, group] of grouped) {
+      if (!group.main) continue;
+
+      const session = this.summarize(
+        sessionId,
+        group.main,
+        group.results,
+        pricing,
+      );
+      if (session.totalTokens > 0) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions.sort((a, b) =>
+      (b.lastActivity || "").localeCompare(a.lastActivity || ""),
+    );
+  }
+
+  /**
+   * Get the transcripts root directory
+   */
+  getProjectsDir(): string {
+    return this.projectsDir;
+  }
+
+  /**
+   * Recursively collect every .jsonl file under the projects directory
+   */
+  private async listTranscriptFiles(): Promise<string[]> {
+    if (!existsSync(this.projectsDir)) {
+      return [];
+    }
+
+    const entries = await readdir(this.projectsDir, { recursive: true });
+    return entries
+      .filter((entry) => entry.endsWith(".jsonl"))
+      .map((entry) => join(this.projectsDir, entry));
+  }
+
+  /**
+   * Work out which session a transcript file belongs to from its path.
+   *   <project>/<uuid>.jsonl          — main transcript
+   *   <project>/<uuid>/**\/*.jsonl    — sub-agent transcripts
+   */
+  private getOwner(
+    file: string,
+  ): { sessionId: string; isMain: boolean } | null {
+    const parts = relative(this.projectsDir, file).split(sep);
+
+    if (parts.length === 2) {
+      const name = parts[1].replace(/\.jsonl$/, "");
+      if (name.startsWith("agent-")) return null;
+      return { sessionId: name, isMain: true };
+    }
+
+    if (parts.length > 2) {
+      return { sessionId: parts[1], isMain: false };
+    }
+
+    return null;
+  }
+
+  /**
+   * Read the billable usage entries from a single transcript file
+   */
+  private async readTranscriptUsage(
+    file: string,
+  ): Promise<TranscriptUsageResult> {
+    const result: TranscriptUsageResult = { file, entries: [] };
+    const fileAgentId = basename(file).match(AGENT_FILE)?.[1];
+
+    // Streamed, as transcripts can run to hundreds of megabytes. Lines
+    // that can't be parsed (such as a partially written last line) are
+    // skipped.
+    await readJsonLines<TranscriptMessage>(file, (message) => {
+      result.sessionId ??= message.sessionId;
+      result.slug ??= message.slug;
+      result.cwd ??= message.cwd;
+
+      const usage = message.message?.usage || message.usage;
+      const model = message.message?.model;
+      if (message.type !== "assistant" || !usage || !model) return;
+
+      // Skip synthetic entries (no real model)
+      if (model === "<synthetic>") return;
+
+      result.entries.push({
+        timestamp: message.timestamp,
+        model,
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+        cacheReadTokens: usage.cache_read_input_tokens || 0,
+        costUSD: message.costUSD,
+        agentId:
+          message.agentId ||
+          fileAgentId ||
+          (message.isSidechain ? INLINE_SIDECHAIN : undefined),
+        dedupeKey:
+          message.message?.id && message.requestId
+            ? `${message.message.id}:${message.requestId}`
+            : undefined,
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Aggregate transcript entries into a ccusage-shaped session
+   */
+  private summarize(
+    sessionId: string,
+    mainFile: string,
+    results: TranscriptUsageResult[],
+    pricing: PricingRegistry,
+  ): SessionUsage {
+    const seen = new Set<string>();
+    const entries: UsageEntry[] = [];
+
+    for (const result of results) {
+      for (const entry of result.entries) {
+        // Streaming responses repeat the same usage on several lines
+        if (entry.dedupeKey) {
+          if (seen.has(entry.dedupeKey)) continue;
+          seen.add(entry.dedupeKey);
+        }
+
+        entries.push(entry);
+      }
+    }
+
+    const modelBreakdowns = pricing.buildBreakdowns(entries);
+    const sum = (pick: (m: ModelBreakdown) => number) =>
+      modelBreakdowns.reduce((total, m) => total + pick(m), 0);
+
+    const inputTokens = sum((m) => m.inputTokens);
+    const outputTokens = sum((m) => m.outputTokens);
+    const cacheCreationTokens = sum((m) => m.cacheCreationTokens || 0);
+    const cacheReadTokens = sum((m) => m.cacheReadTokens || 0);
+
+    const timestamps = entries
+      .map((e) => e.timestamp)
+      .filter(Boolean)
+      .sort();
+
+    const main = results.find((r) => r.file === mainFile);
+    const project = relative(this.projectsDir, mainFile).split(sep)[0];
+
+    return {
+      sessionId,
+      inputTokens,
+      outputTokens,
+      cacheCreationTokens,
+      cacheReadTokens,
+      totalTokens:
+        inputTokens + outputTokens + cacheCreationTokens + cacheReadTokens,
+      totalCost: sum((m) => m.cost),
+      firstActivity: timestamps[0],
+      lastActivity: timestamps[timestamps.length - 1],
+      modelsUsed: modelBreakdowns.map((m) => m.modelName),
+      modelBreakdowns,
+      agentBreakdowns: this.buildAgentBreakdowns(entries, pricing),
+      pricingVersion: pricing.getVersion(),
+      projectPath: `${project}/${sessionId}`,
+      transcriptPath: mainFile,
+      slug: main?.slug,
+      cwd: main?.cwd,
+    };
+  }
+
+  /**
+   * Split usage between the main thread and each sub-agent, in the order
+   * they first ran. Undefined when the session used no sub-agents.
+   */
+  private buildAgentBreakdowns(
+    entries: UsageEntry[],
+    pricing: PricingRegistry,
+  ): AgentBreakdown[] | undefined {
+    if (!entries.some((entry) => entry.agentId)) {
+      return undefined;
+    }
+
+    const byAgent = new Map<string | undefined, UsageEntry[]>([
+      [undefined, []],
+    ]);
+    const ordered = [...entries].sort((a, b) =>
+      (a.timestamp || "").localeCompare(b.timestamp || ""),
+    );
+    for (const entry of ordered) {
+      const group = byAgent.get(entry.agentId) || [];
+      group.push(entry);
+      byAgent.set(entry.agentId, group);
+    }
+
+    return [...byAgent].map(([agentId, group]) => {
+      const modelBreakdowns = pricing.buildBreakdowns(group);
+      return {
+        agentId,
+        totalTokens: modelBreakdowns.reduce(
+          (total, m) =>
+            total +
+            m.inputTokens +
+            m.outputTokens +
+            (m.cacheCreationTokens || 0) +
+            (m.cacheReadTokens || 0),
+          0,
+        ),
+        cost: modelBreakdowns.reduce((total, m) => total + m.cost, 0),
+        modelBreakdowns,
+      };
+    });
+  }
+}
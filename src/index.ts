@@ -1,20 +1,157 @@
 // Main exports for the package
 export { DataFetcher } from "./core/data-fetcher.js";
+export { UsageReader } from "./core/usage-reader.js";
+export { PricingRegistry } from "./core/pricing.js";
+export { PRICING_TABLE, PRICING_TABLE_VERSION } from "./core/pricing-table.js";
 export { TranscriptParser } from "./core/transcript-parser.js";
 export { ReceiptGenerator } from "./core/receipt-generator.js";
+export { ReceiptDocumentBuilder } from "./core/receipt-document.js";
+export { THEMES, DEFAULT_THEME, getTheme } from "./core/themes.js";
+export {
+  PRINTER_PROFILES,
+  DEFAULT_PRINTER_PROFILE,
+  getPrinterProfile,
+} from "./core/printer-profiles.js";
+export {
+  CODE_PAGES,
+  DEFAULT_CODE_PAGE,
+  getCodePage,
+} from "./core/code-pages.js";
 export { ConfigManager } from "./core/config-manager.js";
 export { LocationDetector } from "./utils/location.js";
 export { GenerateCommand } from "./commands/generate.js";
+export { HistoryCommand } from "./commands/history.js";
+export { ReportCommand } from "./commands/report.js";
+export { ReprintCommand } from "./commands/reprint.js";
+export { ReportAggregator } from "./core/report-aggregator.js";
+export { ReceiptLedger } from "./core/receipt-ledger.js";
+export { EscPosEmulator } from "./core/escpos-emulator.js";
+export {
+  ImageRenderer,
+  DEFAULT_IMAGE_SCALE,
+  MAX_IMAGE_SCALE,
+} from "./core/image-renderer.js";
+export { PdfRenderer, PDF_PAGE_SIZES } from "./core/pdf-renderer.js";
+export { PdfPage, buildPdf, PAGE_SIZES } from "./core/pdf-writer.js";
+export { MarkdownRenderer } from "./core/markdown-renderer.js";
+export {
+  JsonRenderer,
+  RECEIPT_SCHEMA_VERSION,
+  RECEIPT_SCHEMA_URL,
+} from "./core/json-renderer.js";
+export { PrinterCommand } from "./commands/printer.js";
+export {
+  PrinterStatusError,
+  PrinterOfflineError,
+  CoverOpenError,
+  PaperOutError,
+  PaperLowError,
+  getStatusErrors,
+} from "./core/printer-errors.js";
+export { PrintSpool } from "./core/print-spool.js";
+export {
+  RECEIPT_PRINTER_VENDORS,
+  findUsbPrinters,
+  findCupsPrinters,
+  scanNetwork,
+  getLocalSubnets,
+} from "./core/printer-discovery.js";
+export { printViaIpp } from "./core/ipp-client.js";
+export { printViaLpd } from "./core/lpd-client.js";
+export { SpoolCommand } from "./commands/spool.js";
 
 // Type exports
 export type {
   CcusageSession,
   CcusageResponse,
   ModelBreakdown,
+  AgentBreakdown,
 } from "./types/ccusage.js";
 export type {
   TranscriptMessage,
   ParsedTranscript,
+  ToolUsage,
+  CodeChanges,
+  SubAgent,
 } from "./types/transcript.js";
-export type { ReceiptConfig } from "./types/config.js";
+export type {
+  UsageSource,
+  UsageEntry,
+  SessionUsage,
+} from "./types/usage.js";
+export type {
+  ModelRates,
+  PricingEntry,
+  PricingOverrides,
+  TokenCosts,
+} from "./types/pricing.js";
+export type { ReceiptConfig, PdfPageSize } from "./types/config.js";
+export type {
+  PrinterProfile,
+  PrinterProfileName,
+  CommandSetName,
+  CutMode,
+  PrinterStatus,
+  PrintResult,
+  PrinterSource,
+  DiscoveredPrinter,
+  CodePage,
+  CodePageName,
+  SerialParity,
+  SerialFlowControl,
+  SerialSettings,
+} from "./types/printer.js";
+export type {
+  SpoolJob,
+  SpoolJobState,
+  NewSpoolJob,
+  SpoolFlushResult,
+} from "./types/spool.js";
+export type {
+  DitherMethod,
+  GreyscaleImage,
+  MonochromeBitmap,
+  UnicodeFont,
+} from "./types/image.js";
+export type { EmulatorResult } from "./core/escpos-emulator.js";
+export type { ParseTranscriptOptions } from "./core/transcript-parser.js";
+export type { ImageOptions } from "./core/image-renderer.js";
+export type { PdfFont } from "./core/pdf-writer.js";
+export type {
+  ReceiptJson,
+  ReceiptJsonData,
+  ReceiptJsonDerived,
+  ReceiptJsonModel,
+  ReceiptJsonSession,
+  ReceiptJsonTranscript,
+} from "./types/receipt-json.js";
+export type {
+  ThemeName,
+  ThemeLabels,
+  ReceiptTheme,
+  ReceiptDocument,
+  ReceiptInfoRow,
+  ReceiptLineItem,
+  ReceiptSection,
+  ReceiptTotalRow,
+  ReceiptQrCode,
+  ReceiptChart,
+} from "./types/receipt-document.js";
+export type {
+  LedgerEntry,
+  LedgerUpdate,
+  NewLedgerEntry,
+  PrintStatus,
+  ReceiptSnapshot,
+} from "./types/ledger.js";
+export type {
+  ReportPeriod,
+  ReportSubtotal,
+  ZReportData,
+} from "./types/report.js";
+export type {
+  HistoryOptions,
+  HistoryEntry,
+  HistorySortKey,
+} from "./commands/history.js";
 export type { SessionEndHookData } from "./types/session-hook.js";
@@ -1,5 +1,7 @@
 // ccusage JSON response types (actual format from ccusage CLI)
 
+import type { TokenCosts } from "./pricing.js";
+
 export interface ModelBreakdown {
   modelName: string;
   inputTokens: number;
@@ -7,6 +9,18 @@ export interface ModelBreakdown {
   cacheCreationTokens?: number;
   cacheReadTokens?: number;
   cost: number;
+  // Derived from the pricing registry; absent for unpriced models
+  tokenCosts?: TokenCosts;
+}
+
+/** Usage by one thread of a session: the main thread or a sub-agent. */
+export interface AgentBreakdown {
+  // Sub-agent ID ("sidechain" for sub-agent messages kept in the main
+  // transcript), or absent for the main thread
+  agentId?: string;
+  totalTokens: number;
+  cost: number;
+  modelBreakdowns: ModelBreakdown[];
 }
 
 export interface CcusageSession {
@@ -20,7 +34,11 @@ export interface CcusageSession {
   lastActivity?: string;
   modelsUsed?: string[];
   modelBreakdowns?: ModelBreakdown[];
+  // Main thread first, then each sub-agent; only when sub-agents were used
+  agentBreakdowns?: AgentBreakdown[];
   projectPath?: string;
+  // Version of the pricing table the costs were calculated with
+  pricingVersion?: string;
 }
 
 export interface CcusageResponse {
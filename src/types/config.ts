@@ -1,10 +1,31 @@
 // Configuration file types
 
+import type { DitherMethod } from "./image.js";
+import type { PricingOverrides } from "./pricing.js";
+import type { CodePageName, PrinterProfileName } from "./printer.js";
+import type { ThemeName } from "./receipt-document.js";
+import type { UsageSource } from "./usage.js";
+
+// PDF paper: A4 or US Letter invoices, or an 80mm receipt roll
+export type PdfPageSize = "a4" | "letter" | "receipt";
+
 export interface ReceiptConfig {
   version: string;
   location?: string;
   timezone?: string;
   printer?: string;
+  printerProfile?: PrinterProfileName;
+  // Overrides the printer profile's character code table
+  codePage?: CodePageName;
+  // GNU Unifont .hex file for printing text the code page can't (e.g. CJK)
+  unicodeFont?: string;
+  usageSource?: UsageSource;
+  pricing?: PricingOverrides;
+  theme?: ThemeName;
+  // Team logo PNG printed in place of the Claude mascot
+  logo?: string;
+  dither?: DitherMethod;
+  pdfPageSize?: PdfPageSize;
 }
 
 export const DEFAULT_CONFIG: ReceiptConfig = {
@@ -0,0 +1,35 @@
+// Raster image types for thermal printing
+
+export type DitherMethod = "floyd-steinberg" | "atkinson" | "threshold";
+
+/**
+ * 8-bit greyscale image, one byte per pixel, row-major (0 = black,
+ * 255 = white)
+ */
+export interface GreyscaleImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * 1-bit image packed eight pixels per byte, most significant bit first,
+ * each row padded to a whole byte (set bit = ink). This is the layout
+ * GS v 0 expects.
+ */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+/**
+ * Bitmap font in GNU Unifont's layout: every glyph is `height` rows tall
+ * and 8 (half width) or 16 (full width) dots wide. Each row is a bit mask,
+ * most significant bit on the left.
+ */
+export interface UnicodeFont {
+  height: number;
+  glyphs: Map<number, { width: number; rows: number[] }>;
+}
@@ -0,0 +1,53 @@
+// Receipt ledger types
+
+import type { ShareableReceiptData } from "../core/html-renderer.js";
+import type { ReceiptData } from "../core/receipt-generator.js";
+import type { ParsedTranscript } from "./transcript.js";
+
+export type PrintStatus = "not-requested" | "pending" | "printed" | "failed";
+
+export interface LedgerEntry {
+  receiptNumber: number;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  sessionId: string;
+  sessionSlug: string;
+  outputs: string[];
+  htmlPath?: string;
+  shareUrl?: string;
+  printStatus: PrintStatus;
+  printer?: string;
+  printError?: string;
+  data: ShareableReceiptData;
+  // Full receipt data for exact reprints (absent on early entries)
+  receipt?: ReceiptSnapshot;
+  reprints?: string[]; // ISO 8601 timestamps
+}
+
+/** ReceiptData as stored in the ledger (dates as ISO 8601 strings). */
+export type ReceiptSnapshot = Omit<ReceiptData, "transcriptData"> & {
+  transcriptData: Omit<ParsedTranscript, "startTime" | "endTime"> & {
+    startTime: string;
+    endTime: string;
+  };
+};
+
+/** Fields supplied when recording a new receipt. */
+export type NewLedgerEntry = Omit<
+  LedgerEntry,
+  "receiptNumber" | "createdAt" | "updatedAt"
+>;
+
+/** Fields that can change after a receipt is recorded. */
+export type LedgerUpdate = Partial<
+  Pick<
+    LedgerEntry,
+    | "outputs"
+    | "htmlPath"
+    | "shareUrl"
+    | "printStatus"
+    | "printer"
+    | "printError"
+    | "reprints"
+  >
+>;
@@ -0,0 +1,31 @@
+// Model pricing types
+
+/** USD per million tokens for each token type. */
+export interface ModelRates {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/**
+ * A bundled pricing table row. `model` matches a model id exactly, or with
+ * its date suffix removed; dates are ISO 8601 and inclusive of
+ * `effectiveFrom`, exclusive of `effectiveTo`.
+ */
+export interface PricingEntry extends ModelRates {
+  model: string;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+/** Cost in USD of each token type for a model line item. */
+export interface TokenCosts {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+/** User overrides keyed by model id (sans date), merged over the table. */
+export type PricingOverrides = Record<string, Partial<ModelRates>>;
@@ -0,0 +1,108 @@
+// Thermal printer profile types
+
+import type { SpoolJob } from "./spool.js";
+
+export type PrinterProfileName =
+  | "tm-t88v"
+  | "generic-80"
+  | "generic-58"
+  | "xprinter-58"
+  | "star-tsp143"
+  | "star-tsp650";
+
+export type CommandSetName = "escpos" | "star-line";
+
+export type CutMode = "partial" | "full" | "none";
+
+export type CodePageName =
+  "cp437" | "cp850" | "cp852" | "cp858" | "cp866" | "cp1252";
+
+/**
+ * A printer character code table
+ */
+export interface CodePage {
+  name: CodePageName;
+  displayName: string;
+  // Table number for ESC t (ESC/POS) and ESC GS t (Star Line Mode), where
+  // the printer family has the table
+  escpos: number;
+  star?: number;
+  // Unicode characters for bytes 0x80-0xFF
+  high: string;
+}
+
+export interface PrinterProfile {
+  name: PrinterProfileName;
+  displayName: string;
+  // Printer command language
+  commandSet: CommandSetName;
+  // Font A (12x24) characters per line
+  charsPerLine: number;
+  // Printable width of the head in dots
+  printWidthDots: number;
+  // GS L left margin, centring the text columns on the paper
+  leftMarginDots: number;
+  // Character code table selected at init
+  codePage: CodePageName;
+  cut: CutMode;
+  // Native QR codes; otherwise QR codes are sent as raster images
+  qrCode: boolean;
+  // Default device for the "usb" interface
+  usb?: { vendorId: number; productId: number };
+}
+
+/**
+ * Printer state read back over a two-way connection
+ */
+export interface PrinterStatus {
+  online: boolean;
+  coverOpen: boolean;
+  paperLow: boolean;
+  paperOut: boolean;
+  // Cutter, mechanical or other hardware error
+  error: boolean;
+}
+
+/**
+ * Outcome of a print job. Warnings are problems that didn't stop the job,
+ * such as the paper running low.
+ */
+export interface PrintResult {
+  // Status after printing, when the connection can report it
+  status?: PrinterStatus;
+  warnings: Error[];
+  // Set when the printer couldn't be reached and the job was spooled
+  spooled?: SpoolJob;
+}
+
+export type PrinterSource = "usb" | "cups" | "network";
+
+/**
+ * A printer found by `claude-receipts printers`
+ */
+export interface DiscoveredPrinter {
+  source: PrinterSource;
+  // Value for --printer and the printer config key
+  interface: string;
+  name: string;
+  // Profile matching the device, when its USB IDs identify it
+  profile?: PrinterProfileName;
+  // Extra detail, e.g. the CUPS device URI
+  detail?: string;
+}
+
+export type SerialParity = "none" | "even" | "odd";
+
+export type SerialFlowControl = "none" | "rtscts" | "xonxoff";
+
+/**
+ * Line settings for a "serial:" printer interface
+ */
+export interface SerialSettings {
+  path: string;
+  baud: number;
+  dataBits: 7 | 8;
+  stopBits: 1 | 2;
+  parity: SerialParity;
+  flow: SerialFlowControl;
+}
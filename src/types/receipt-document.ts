@@ -0,0 +1,138 @@
+// Receipt document and theme types
+
+export type ThemeName = "classic" | "minimalist" | "invoice" | "arcade";
+
+export interface ThemeLabels {
+  location: string;
+  session: string;
+  date: string;
+  receipt: string;
+  item: string;
+  quantity: string;
+  price: string;
+  input: string;
+  output: string;
+  cacheWrite: string;
+  cacheRead: string;
+  // Tool calls section, and its sub-items for failed and rejected calls
+  tools: string;
+  toolErrors: string;
+  toolRejected: string;
+  // What the session changed, listed below the totals, and its rows
+  built: string;
+  filesChanged: string;
+  lines: string;
+  netLines: string;
+  commits: string;
+  costPerLine: string;
+  // Cost split between the main thread and each sub-agent
+  agents: string;
+  mainThread: string;
+  subAgent: string;
+  subtotal: string;
+  total: string;
+  cashier: string;
+}
+
+export interface ReceiptTheme {
+  name: ThemeName;
+  displayName: string;
+  labels: ThemeLabels;
+  showLogo: boolean;
+  title?: string;
+  subtitle?: string;
+  // Show the ITEM / QTY / PRICE column header row
+  showColumnHeader: boolean;
+  // Show a price against each token type (not just per model)
+  showTokenPrices: boolean;
+  showSubtotal: boolean;
+  // Extra rows between the subtotal and total (e.g. an invoice's tax line)
+  extraTotals: ReceiptTotalRow[];
+  showCashier: boolean;
+  footer: string[];
+  uppercase: boolean;
+  // Separator characters for the console and for thermal printers
+  rules: {
+    text: { heavy: string; light: string };
+    printer: { heavy: string; light: string };
+  };
+  // CSS applied to the HTML receipt, scoped under .theme-<name>
+  htmlStyles: string;
+  // Paper and ink colours for SVG and PNG images, and whether the paper
+  // has torn top and bottom edges
+  image: { paper: string; ink: string; tornEdges: boolean };
+}
+
+export interface ReceiptInfoRow {
+  label: string;
+  value: string;
+}
+
+export interface ReceiptLineItem {
+  label: string;
+  quantity?: string;
+  price?: string;
+}
+
+export interface ReceiptSection {
+  title?: string;
+  total?: string;
+  items: ReceiptLineItem[];
+  // Not part of the total: counts rather than charges (e.g. tool calls),
+  // or the total itemized another way (e.g. by sub-agent)
+  outsideTotal?: boolean;
+  // Items are priced in the price column alone (e.g. cost by sub-agent)
+  costs?: boolean;
+}
+
+export interface ReceiptTotalRow {
+  label: string;
+  value: string;
+  // The final, emphasised total
+  grand?: boolean;
+}
+
+export interface ReceiptQrCode {
+  data: string;
+  caption: string;
+}
+
+export interface ReceiptChart {
+  title: string;
+  values: number[];
+  // Axis labels, spread evenly beneath the bars
+  labels: string[];
+}
+
+/**
+ * Renderer-agnostic receipt layout, built once from receipt (or report) data
+ * and drawn by the console, HTML and thermal printer renderers.
+ */
+export interface ReceiptDocument {
+  theme: ReceiptTheme;
+  title: string;
+  header: {
+    logo: boolean;
+    title?: string;
+    subtitle?: string;
+  };
+  info: ReceiptInfoRow[];
+  // "DUPLICATE / REPRINT" style stamp lines
+  stamp?: string[];
+  columns?: [string, string, string];
+  sections: ReceiptSection[];
+  totals: ReceiptTotalRow[];
+  // "YOU BUILT": files and lines changed, and what they cost
+  built?: {
+    title: string;
+    rows: ReceiptInfoRow[];
+  };
+  chart?: ReceiptChart;
+  footer: {
+    notes: string[];
+    messages: string[];
+  };
+  qr?: ReceiptQrCode;
+  // Code128 barcode data identifying the receipt, for looking it up again
+  barcode?: string;
+}
@@ -0,0 +1,81 @@
+// JSON receipt output types, published as a JSON Schema under schema/
+
+import type { AgentBreakdown, ModelBreakdown } from "./ccusage.js";
+import type { ReceiptConfig } from "./config.js";
+import type { CodeChanges, SubAgent, ToolUsage } from "./transcript.js";
+
+export interface ReceiptJson {
+  $schema: string;
+  // Bumped only for breaking changes; fields may be added at any time
+  schemaVersion: number;
+  generatedAt: string; // ISO 8601
+  // The receipt data the schema documents, with dates as ISO 8601 strings
+  receipt: ReceiptJsonData;
+  derived: ReceiptJsonDerived;
+}
+
+/**
+ * The shareable parts of the receipt data: no local paths, and only the
+ * settings that affect what the receipt says.
+ */
+export interface ReceiptJsonData {
+  sessionData: ReceiptJsonSession;
+  transcriptData: ReceiptJsonTranscript;
+  location: string;
+  config: Pick<ReceiptConfig, "version" | "timezone" | "theme">;
+  receiptNumber?: number;
+  duplicate?: boolean;
+}
+
+export interface ReceiptJsonSession {
+  sessionId: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+  totalTokens: number;
+  totalCost: number;
+  lastActivity?: string;
+  modelsUsed?: string[];
+  modelBreakdowns?: ModelBreakdown[];
+  agentBreakdowns?: AgentBreakdown[];
+  projectPath?: string;
+  pricingVersion?: string;
+}
+
+export interface ReceiptJsonTranscript {
+  sessionSlug: string;
+  firstPrompt: string;
+  startTime: string; // ISO 8601
+  endTime: string; // ISO 8601
+  userMessageCount: number;
+  assistantMessageCount: number;
+  totalMessages: number;
+  cwd?: string;
+  gitBranch?: string;
+  toolUsage?: ToolUsage[];
+  codeChanges?: CodeChanges;
+  skippedLines?: number;
+  subAgents?: Array<Omit<SubAgent, "transcriptPath">>;
+}
+
+/** Values worked out from the receipt data, as shown on the receipt. */
+export interface ReceiptJsonDerived {
+  // Zero-padded, e.g. "000042"
+  receiptNumber?: string;
+  durationSeconds: number;
+  duration: string; // e.g. "1h 5m"
+  mainModel: string;
+  totalCost: string; // e.g. "$1.23"
+  models: ReceiptJsonModel[];
+}
+
+export interface ReceiptJsonModel {
+  model: string;
+  // Display name, e.g. "Claude Opus 4.5"
+  name: string;
+  totalTokens: number;
+  cost: string; // e.g. "$0.42"
+  // Share of the session's total cost, 0-1
+  costShare: number;
+}
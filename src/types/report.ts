@@ -0,0 +1,43 @@
+// Z-report (multi-session summary) types
+
+import type { ReceiptConfig } from "./config.js";
+
+export type ReportPeriod = "day" | "week" | "month" | "custom";
+
+export interface ReportSubtotal {
+  name: string;
+  sessions: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface ZReportData {
+  period: ReportPeriod;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  location: string;
+  config: ReceiptConfig;
+  sessionCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  totalCost: number;
+  // Sorted by cost, highest first
+  projects: ReportSubtotal[];
+  models: ReportSubtotal[];
+  // Active sessions in each hour of the day (0-23, report timezone)
+  hourlySessions: number[];
+  busiestHour?: {
+    hour: number; // 0-23 in the report timezone
+    sessions: number;
+  };
+  mostExpensiveSession?: {
+    sessionId: string;
+    slug?: string;
+    project: string;
+    cost: number;
+  };
+}
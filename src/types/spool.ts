@@ -0,0 +1,41 @@
+// Print spool types
+
+import type { PrinterProfileName } from "./printer.js";
+
+// Queued jobs are retried automatically; failed jobs have used up their
+// attempts and are only retried by `spool flush`
+export type SpoolJobState = "queued" | "failed";
+
+export interface SpoolJob {
+  id: string;
+  createdAt: string; // ISO 8601
+  printer: string;
+  profile: PrinterProfileName;
+  // What the job prints, e.g. "Receipt #000042 (fix-login-bug)"
+  description: string;
+  // Ledger receipt to mark as printed once the job goes through
+  receiptNumber?: number;
+  size: number; // bytes
+  state: SpoolJobState;
+  attempts: number;
+  lastAttemptAt?: string; // ISO 8601
+  nextAttemptAt?: string; // ISO 8601, queued jobs only
+  lastError?: string;
+}
+
+/** Fields supplied when spooling a new job. */
+export type NewSpoolJob = Pick<
+  SpoolJob,
+  "printer" | "profile" | "description" | "receiptNumber"
+>;
+
+/**
+ * Outcome of retrying spooled jobs
+ */
+export interface SpoolFlushResult {
+  printed: SpoolJob[];
+  // Jobs still in the spool after this attempt
+  failed: SpoolJob[];
+  // Problems that didn't stop a job printing, such as paper running low
+  warnings: Error[];
+}
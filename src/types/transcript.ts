@@ -8,6 +8,8 @@ export interface TranscriptMessage {
       | Array<{ type: string; text?: string; [key: string]: unknown }>;
     role?: "user" | "assistant";
     model?: string;
+    id?: string;
+    usage?: TranscriptUsage;
   };
   slug?: string;
   sessionId?: string;
@@ -16,12 +18,21 @@ export interface TranscriptMessage {
   gitBranch?: string;
   timestamp: string;
   uuid?: string;
-  usage?: {
-    input_tokens: number;
-    output_tokens: number;
-    cache_creation_input_tokens?: number;
-    cache_read_input_tokens?: number;
-  };
+  requestId?: string;
+  isSidechain?: boolean;
+  // Sub-agent the message belongs to, in sub-agent transcripts
+  agentId?: string;
+  // Structured result of the tool call answered by this message
+  toolUseResult?: unknown;
+  costUSD?: number;
+  usage?: TranscriptUsage;
+}
+
+export interface TranscriptUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
 }
 
 export interface ParsedTranscript {
@@ -32,4 +43,45 @@ export interface ParsedTranscript {
   userMessageCount: number;
   assistantMessageCount: number;
   totalMessages: number;
+  // Working directory and git branch, as last recorded in the session
+  cwd?: string;
+  gitBranch?: string;
+  // Tool calls by tool, most used first (absent on early ledger snapshots)
+  toolUsage?: ToolUsage[];
+  // What the session's edits and commits changed (absent on early snapshots)
+  codeChanges?: CodeChanges;
+  // Truncated or corrupt transcript lines that were skipped
+  skippedLines?: number;
+  // Sub-agents started with the Task tool, in the order they were started
+  subAgents?: SubAgent[];
+}
+
+export interface SubAgent {
+  // Matches AgentBreakdown.agentId, when the sub-agent's transcript was found
+  agentId?: string;
+  // The Task description, e.g. "Find the config loader"
+  description: string;
+  // e.g. "general-purpose" or "Explore"
+  agentType?: string;
+  // The sub-agent's own transcript, linked to this session
+  transcriptPath?: string;
+}
+
+export interface ToolUsage {
+  // Tool name as Claude Code records it, e.g. "Bash" or "mcp__github__get_issue"
+  name: string;
+  calls: number;
+  // Calls whose result was an error
+  errors: number;
+  // Calls the user declined or interrupted
+  rejected: number;
+}
+
+export interface CodeChanges {
+  // Files edited or written, as the tools were given them
+  files: string[];
+  linesAdded: number;
+  linesRemoved: number;
+  // `git commit` commands run through Bash
+  commits: number;
 }
@@ -0,0 +1,32 @@
+// Native usage reader types
+
+import type { CcusageSession } from "./ccusage.js";
+
+/**
+ * Where session usage is read from:
+ *   - "auto": transcripts first, falling back to ccusage
+ *   - "native": transcripts only
+ *   - "ccusage": always shell out to `npx ccusage`
+ */
+export type UsageSource = "auto" | "native" | "ccusage";
+
+/** A single billable assistant response read from a transcript. */
+export interface UsageEntry {
+  timestamp: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD?: number;
+  // Sub-agent that made the request; absent for the main thread
+  agentId?: string;
+}
+
+/** Session usage in the ccusage shape, plus transcript metadata. */
+export interface SessionUsage extends CcusageSession {
+  transcriptPath: string;
+  firstActivity?: string;
+  slug?: string;
+  cwd?: string;
+}
@@ -18,3 +18,19 @@ export function getHeader(): string {
  */
 export const SEPARATOR = "━".repeat(35);
 export const LIGHT_SEPARATOR = "─".repeat(35);
+
+/**
+ * Pixel-art Claude mascot for raster printing ("#" = ink)
+ */
+export const CLAUDE_MASCOT = [
+  "...##############...",
+  "...##############...",
+  "...###.######.###...",
+  "...###.######.###...",
+  "####################",
+  "####################",
+  "...##############...",
+  "...##############...",
+  "....#.#......#.#....",
+  "....#.#......#.#....",
+];
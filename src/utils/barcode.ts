@@ -0,0 +1,68 @@
+// Bar and space widths (in modules) for each Code128 symbol value, bar
+// first. 103-105 are the start codes for code sets A, B and C.
+// prettier-ignore
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213",
+  "122312", "132212", "221213", "221312", "231212", "112232", "122132",
+  "122231", "113222", "123122", "123221", "223211", "221132", "221231",
+  "213212", "223112", "312131", "311222", "321122", "321221", "312212",
+  "322112", "322211", "212123", "212321", "232121", "111323", "131123",
+  "131321", "112313", "132113", "132311", "211313", "231113", "231311",
+  "112133", "112331", "132131", "113123", "113321", "133121", "313121",
+  "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114",
+  "413111", "241112", "134111", "111242", "121142", "121241", "114212",
+  "124112", "124211", "411212", "421112", "421211", "212141", "214121",
+  "412121", "111143", "111341", "131141", "114113", "114311", "411113",
+  "411311", "113141", "114131", "311141", "411131", "211412", "211214",
+  "211232",
+];
+const CODE128_STOP = "2331112";
+
+const START_B = 104;
+const START_C = 105;
+
+// Code sets this encoder uses: B for printable ASCII, C for digit pairs
+export type Code128Set = "B" | "C";
+
+/**
+ * The code set that encodes the data most compactly: C packs an even
+ * number of digits two to a symbol, B covers printable ASCII
+ */
+export function code128Set(data: string): Code128Set {
+  return /^(\d\d)+$/.test(data) ? "C" : "B";
+}
+
+/**
+ * Encode data as Code128 symbol values, including the start code and
+ * check symbol (but not the stop pattern)
+ */
+export function encodeCode128(data: string): number[] {
+  if (!/^[\x20-\x7e]+$/.test(data)) {
+    throw new Error(
+      `Can't encode "${data}" as a barcode: use printable ASCII characters`,
+    );
+  }
+
+  const values =
+    code128Set(data) === "C"
+      ? [START_C, ...(data.match(/\d\d/g) || []).map((p) => parseInt(p, 10))]
+      : [START_B, ...[...data].map((c) => c.charCodeAt(0) - 32)];
+
+  const check =
+    values.reduce((sum, value, i) => sum + value * Math.max(1, i), 0) % 103;
+  return [...values, check];
+}
+
+/**
+ * Bar and space widths, in modules, for a sequence of symbol values
+ * followed by the stop pattern. Starts with a bar.
+ */
+export function code128Widths(values: number[]): number[] {
+  return [...values.map((v) => CODE128_PATTERNS[v]), CODE128_STOP]
+    .join("")
+    .split("")
+    .map(Number);
+}
@@ -0,0 +1,123 @@
+import type {
+  DitherMethod,
+  GreyscaleImage,
+  MonochromeBitmap,
+} from "../types/image.js";
+
+export const DITHER_METHODS: DitherMethod[] = [
+  "floyd-steinberg",
+  "atkinson",
+  "threshold",
+];
+
+// Error diffusion kernels: [dx, dy, weight] with the weights' divisor
+const KERNELS: Record<
+  Exclude<DitherMethod, "threshold">,
+  { divisor: number; taps: Array<[number, number, number]> }
+> = {
+  "floyd-steinberg": {
+    divisor: 16,
+    taps: [
+      [1, 0, 7],
+      [-1, 1, 3],
+      [0, 1, 5],
+      [1, 1, 1],
+    ],
+  },
+  // Only diffuses 6/8 of the error, which keeps logos crisp and high
+  // contrast on thermal paper
+  atkinson: {
+    divisor: 8,
+    taps: [
+      [1, 0, 1],
+      [2, 0, 1],
+      [-1, 1, 1],
+      [0, 1, 1],
+      [1, 1, 1],
+      [0, 2, 1],
+    ],
+  },
+};
+
+/**
+ * Scale an image to the given width, keeping its aspect ratio. Shrinking
+ * averages every source pixel under each output pixel; enlarging uses the
+ * nearest pixel so pixel art stays sharp.
+ */
+export function resizeImage(
+  image: GreyscaleImage,
+  width: number,
+): GreyscaleImage {
+  width = Math.max(1, Math.round(width));
+  if (width === image.width) {
+    return image;
+  }
+
+  const scale = image.width / width;
+  const height = Math.max(1, Math.round(image.height / scale));
+  const pixels = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y * scale);
+    const sy1 = Math.min(
+      image.height,
+      Math.max(sy0 + 1, Math.floor((y + 1) * scale)),
+    );
+
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x * scale);
+      const sx1 = Math.min(
+        image.width,
+        Math.max(sx0 + 1, Math.floor((x + 1) * scale)),
+      );
+
+      let sum = 0;
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          sum += image.pixels[sy * image.width + sx];
+        }
+      }
+      pixels[y * width + x] = Math.round(sum / ((sy1 - sy0) * (sx1 - sx0)));
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+/**
+ * Reduce a greyscale image to 1-bit ink/no-ink, diffusing the quantisation
+ * error so mid-tones print as a dot pattern
+ */
+export function ditherImage(
+  image: GreyscaleImage,
+  method: DitherMethod = "floyd-steinberg",
+): MonochromeBitmap {
+  const { width, height } = image;
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  const values = Float32Array.from(image.pixels);
+  const kernel = method === "threshold" ? undefined : KERNELS[method];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const ink = values[i] < 128;
+      if (ink) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+
+      if (!kernel) continue;
+
+      const error = values[i] - (ink ? 0 : 255);
+      for (const [dx, dy, weight] of kernel.taps) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < width && ny < height) {
+          values[ny * width + nx] += (error * weight) / kernel.divisor;
+        }
+      }
+    }
+  }
+
+  return { width, height, bytesPerRow, data };
+}
@@ -1,5 +1,6 @@
-import { format } from "date-fns";
+import { format, isValid, parseISO } from "date-fns";
 import { formatInTimeZone } from "date-fns-tz";
+import type { ReportPeriod } from "../types/report.js";
 
 /**
  * Format a number as currency (USD)
@@ -8,6 +9,29 @@ export function formatCurrency(amount: number): string {
   return `$${amount.toFixed(2)}`;
 }
 
+/**
+ * Format a line item price; sub-cent amounts show as "<$0.01" and
+ * unpriced items as "-"
+ */
+export function formatPrice(amount: number | undefined): string {
+  if (amount === undefined) {
+    return "-";
+  }
+
+  if (amount > 0 && amount < 0.01) {
+    return "<$0.01";
+  }
+
+  return formatCurrency(amount);
+}
+
+/**
+ * Format a sequential receipt number (e.g. "000042")
+ */
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(6, "0");
+}
+
 /**
  * Format a number with thousand separators
  */
@@ -15,6 +39,15 @@ export function formatNumber(num: number): string {
   return num.toLocaleString("en-US");
 }
 
+/**
+ * Format a tool name for display: MCP tools ("mcp__<server>__<tool>") as
+ * "<server>:<tool>", built-in tools unchanged
+ */
+export function formatToolName(name: string): string {
+  const mcp = name.match(/^mcp__(.+?)__(.+)$/);
+  return mcp ? `${mcp[1]}:${mcp[2]}` : name;
+}
+
 /**
  * Format a date with timezone
  */
@@ -49,3 +82,61 @@ export function formatDuration(start: Date, end: Date): string {
 
   return `${seconds}s`;
 }
+
+/**
+ * Format an hour of the day as an "HH:00-HH:00" range
+ */
+export function formatHour(hour: number): string {
+  const pad = (h: number) => String(h % 24).padStart(2, "0");
+  return `${pad(hour)}:00-${pad(hour + 1)}:00`;
+}
+
+/**
+ * Spread axis labels evenly across a line, the first flush left and the
+ * last flush right
+ */
+export function spreadLabels(labels: string[], width: number): string {
+  const line = new Array<string>(width).fill(" ");
+  labels.forEach((label, i) => {
+    const position =
+      labels.length > 1
+        ? Math.round(((width - label.length) * i) / (labels.length - 1))
+        : 0;
+    line.splice(position, label.length, ...label);
+  });
+  return line.join("").slice(0, width).trimEnd();
+}
+
+/**
+ * Get the till-style title for a report period
+ */
+export function getReportTitle(period: ReportPeriod): string {
+  const titles: Record<ReportPeriod, string> = {
+    day: "END OF DAY",
+    week: "END OF WEEK",
+    month: "END OF MONTH",
+    custom: "PERIOD SUMMARY",
+  };
+  return titles[period];
+}
+
+/**
+ * Parse a YYYY-MM-DD (or ISO 8601) date option
+ */
+export function parseDate(value: string): Date {
+  const date = parseISO(value);
+  if (!isValid(date)) {
+    throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD`);
+  }
+  return date;
+}
+
+/**
+ * Truncate or pad text to a fixed column width
+ */
+export function fitColumn(text: string, width: number): string {
+  if (text.length > width) {
+    return text.slice(0, width - 1) + "…";
+  }
+  return text.padEnd(width);
+}
@@ -0,0 +1,144 @@
+import QRCode from "qrcode";
+import type { GreyscaleImage, UnicodeFont } from "../types/image.js";
+
+/**
+ * Draw pixel art ("#" = ink, anything else = paper), scaling each cell to
+ * a square block of dots
+ */
+export function drawPixelArt(rows: string[], cellSize: number): GreyscaleImage {
+  const width = Math.max(...rows.map((row) => row.length)) * cellSize;
+  const height = rows.length * cellSize;
+  const pixels = new Uint8Array(width * height).fill(255);
+
+  rows.forEach((row, cy) => {
+    [...row].forEach((cell, cx) => {
+      if (cell !== "#") return;
+      for (let y = cy * cellSize; y < (cy + 1) * cellSize; y++) {
+        pixels.fill(
+          0,
+          y * width + cx * cellSize,
+          y * width + (cx + 1) * cellSize,
+        );
+      }
+    });
+  });
+
+  return { width, height, pixels };
+}
+
+/**
+ * Draw a small bar chart: one bar per value on a solid baseline. Bars are
+ * mid-grey so they dither to a light dot pattern, with a solid cap.
+ */
+export function drawBarChart(
+  values: number[],
+  width: number,
+  height: number,
+): GreyscaleImage {
+  const pixels = new Uint8Array(width * height).fill(255);
+  const baseline = 3;
+  const cap = 3;
+  const max = Math.max(...values, 1);
+  const slot = width / Math.max(values.length, 1);
+  const gap = Math.max(1, Math.round(slot / 5));
+
+  const fill = (
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    shade: number,
+  ) => {
+    for (let y = Math.max(0, y0); y < Math.min(height, y1); y++) {
+      pixels.fill(
+        shade,
+        y * width + Math.max(0, x0),
+        y * width + Math.min(width, x1),
+      );
+    }
+  };
+
+  values.forEach((value, i) => {
+    if (value <= 0) return;
+    const barHeight = Math.max(
+      cap,
+      Math.round(((height - baseline) * value) / max),
+    );
+    const x0 = Math.round(i * slot) + gap;
+    const x1 = Math.round((i + 1) * slot) - gap;
+    const top = height - baseline - barHeight;
+    fill(x0, top, x1, height - baseline, 128);
+    fill(x0, top, x1, top + cap, 0);
+  });
+
+  fill(0, height - baseline, width, height, 0);
+
+  return { width, height, pixels };
+}
+
+/**
+ * Draw a QR code (error correction M) with square cells of the given size
+ * in dots, plus the quiet zone cells scanners need around it
+ */
+export function drawQrCode(data: string, cellSize: number): GreyscaleImage {
+  const { modules } = QRCode.create(data, { errorCorrectionLevel: "M" });
+  const quietZone = 2;
+  const rows: string[] = [];
+
+  for (let row = -quietZone; row < modules.size + quietZone; row++) {
+    let line = "";
+    for (let col = -quietZone; col < modules.size + quietZone; col++) {
+      const inside =
+        row >= 0 && col >= 0 && row < modules.size && col < modules.size;
+      line += inside && modules.get(row, col) ? "#" : ".";
+    }
+    rows.push(line);
+  }
+
+  return drawPixelArt(rows, cellSize);
+}
+
+/**
+ * Draw a line of text with a bitmap font, scaling each glyph into
+ * character cells (full-width glyphs take two). Characters missing from
+ * the font are drawn as "?".
+ */
+export function drawText(
+  text: string,
+  font: UnicodeFont,
+  cellWidth: number,
+  cellHeight: number,
+  options: { bold?: boolean; scale?: number } = {},
+): GreyscaleImage {
+  const scale = options.scale || 1;
+  const fallback = font.glyphs.get(0x3f);
+  const glyphs = [...text]
+    .map((char) => font.glyphs.get(char.codePointAt(0)!) || fallback)
+    .filter((glyph) => glyph !== undefined);
+
+  const cellW = cellWidth * scale;
+  const cellH = cellHeight * scale;
+  const width = glyphs.reduce((w, g) => w + (g.width / 8) * cellW, 0);
+  const height = cellH;
+  const pixels = new Uint8Array(Math.max(1, width) * height).fill(255);
+
+  let left = 0;
+  for (const glyph of glyphs) {
+    const glyphW = (glyph.width / 8) * cellW;
+    const inked = (sx: number, sy: number) =>
+      sx >= 0 && (glyph.rows[sy] >> (glyph.width - 1 - sx)) & 1;
+
+    for (let y = 0; y < height; y++) {
+      const sy = Math.floor((y * font.height) / height);
+      for (let x = 0; x < glyphW; x++) {
+        const sx = Math.floor((x * glyph.width) / glyphW);
+        if (inked(sx, sy) || (options.bold && inked(sx - 1, sy))) {
+          pixels[y * width + left + x] = 0;
+        }
+      }
+    }
+    left += glyphW;
+  }
+
+  return { width: Math.max(1, width), height, pixels };
+}
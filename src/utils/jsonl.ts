@@ -0,0 +1,97 @@
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { createInterface } from "readline";
+
+export interface JsonlProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface JsonlReadResult {
+  // Non-blank lines read, including any that couldn't be parsed
+  lines: number;
+  // Truncated or corrupt lines that were skipped
+  skippedLines: number;
+}
+
+/**
+ * Whether a parsed line is a JSON object, the only kind of record these
+ * files hold; anything else (null, a number, an array) is a corrupt line
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Stream a JSON Lines file one record at a time, so memory use doesn't
+ * grow with the file. Lines that aren't JSON objects (such as a partially
+ * written last line) are skipped and counted. Progress is reported each
+ * time another percent of the file has been read.
+ */
+export async function readJsonLines<T>(
+  path: string,
+  onRecord: (record: T) => void,
+  onProgress?: (progress: JsonlProgress) => void,
+): Promise<JsonlReadResult> {
+  const totalBytes = onProgress ? (await stat(path)).size : 0;
+  const stream = createReadStream(path, { encoding: "utf-8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  const result: JsonlReadResult = { lines: 0, skippedLines: 0 };
+  let lastPercent = -1;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    result.lines++;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      record = undefined;
+    }
+    if (!isJsonObject(record)) {
+      result.skippedLines++;
+      continue;
+    }
+    onRecord(record as T);
+
+    if (onProgress && totalBytes > 0) {
+      const percent = Math.floor((stream.bytesRead / totalBytes) * 100);
+      if (percent !== lastPercent) {
+        lastPercent = percent;
+        onProgress({ bytesRead: stream.bytesRead, totalBytes });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The first record in a JSON Lines file that matches, reading no further
+ * than needed. Lines that aren't JSON objects are skipped.
+ */
+export async function findJsonLine<T>(
+  path: string,
+  match: (record: T) => boolean,
+): Promise<T | undefined> {
+  const stream = createReadStream(path, { encoding: "utf-8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (isJsonObject(record) && match(record as T)) return record as T;
+    }
+    return undefined;
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Whether a name is one of a lookup table's own keys. Inherited properties
+ * don't count, so names like "toString" aren't found on the prototype.
+ */
+export function isOwnKey<K extends string>(
+  table: Record<K, unknown>,
+  name: string,
+): name is K {
+  return Object.hasOwn(table, name);
+}
+
+/**
+ * Look up a name in a table by its own keys only (see isOwnKey)
+ */
+export function getOwn<K extends string, V>(
+  table: Record<K, V>,
+  name: string,
+): V | undefined {
+  return isOwnKey(table, name) ? table[name] : undefined;
+}
@@ -0,0 +1,58 @@
+import type { AgentBreakdown, CcusageSession } from "../types/ccusage.js";
+import type { SubAgent } from "../types/transcript.js";
+
+/**
+ * Get a display name for a model ID, e.g. "claude-opus-4-5-20251101" →
+ * "Claude Opus 4.5" and "claude-3-5-sonnet-20241022" → "Claude 3.5 Sonnet"
+ */
+export function getModelName(model: string): string {
+  // Remove date suffixes
+  const cleaned = model.replace(/-\d{8}$/, "");
+  const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+  // Current naming: claude-<family>-<major>[-<minor>]
+  const familyFirst = cleaned.match(/^claude-([a-z]+)-(\d+(?:-\d+)?)$/);
+  if (familyFirst) {
+    return `Claude ${capitalize(familyFirst[1])} ${familyFirst[2].replace("-", ".")}`;
+  }
+
+  // Legacy naming: claude-<major>[-<minor>]-<family>
+  const versionFirst = cleaned.match(/^claude-(\d+(?:-\d+)?)-([a-z]+)$/);
+  if (versionFirst) {
+    return `Claude ${versionFirst[1].replace("-", ".")} ${capitalize(versionFirst[2])}`;
+  }
+
+  return model;
+}
+
+/**
+ * Describe a sub-agent by the Task it was given, e.g. "Find the config
+ * loader", falling back to its short ID. Undefined for the main thread,
+ * and for sub-agent messages that don't say which sub-agent they're from.
+ */
+export function getAgentDescription(
+  agent: AgentBreakdown,
+  subAgents: SubAgent[] = [],
+): string | undefined {
+  if (!agent.agentId || agent.agentId === "sidechain") {
+    return undefined;
+  }
+
+  const subAgent = subAgents.find((s) => s.agentId === agent.agentId);
+  return subAgent?.description || agent.agentId.slice(0, 7);
+}
+
+/**
+ * Get the display name of the main model used in a session
+ */
+export function getMainModel(sessionData: CcusageSession): string {
+  if (sessionData.modelBreakdowns && sessionData.modelBreakdowns.length > 0) {
+    return getModelName(sessionData.modelBreakdowns[0].modelName);
+  }
+
+  if (sessionData.modelsUsed && sessionData.modelsUsed.length > 0) {
+    return getModelName(sessionData.modelsUsed[0]);
+  }
+
+  return "Claude";
+}
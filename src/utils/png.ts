@@ -0,0 +1,281 @@
+import { deflateSync, inflateSync } from "zlib";
+import type { GreyscaleImage } from "../types/image.js";
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+let crcTable: number[] | undefined;
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG chunk (length, type, data, CRC)
+ */
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/**
+ * Encode an 8-bit greyscale image (one byte per pixel, row-major) as PNG
+ */
+export function encodeGreyscalePng(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+): Buffer {
+  return encodePng(width, height, pixels, 0, 1);
+}
+
+/**
+ * Encode an 8-bit RGB image (three bytes per pixel, row-major) as PNG
+ */
+export function encodeRgbPng(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+): Buffer {
+  return encodePng(width, height, pixels, 2, 3);
+}
+
+function encodePng(
+  width: number,
+  height: number,
+  pixels: Uint8Array,
+  colourType: number,
+  bytesPerPixel: number,
+): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = colourType;
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * bytesPerPixel;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(
+      pixels.subarray(y * stride, (y + 1) * stride),
+      y * (stride + 1) + 1,
+    );
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Decode a PNG to 8-bit greyscale, flattening any transparency onto white
+ * paper. Supports every non-interlaced colour type and bit depth.
+ */
+export function decodePng(file: Buffer): GreyscaleImage {
+  if (file.length < 8 || !file.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG file");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colourType = 0;
+  let palette: Buffer | undefined;
+  let transparency: Buffer | undefined;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= file.length) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString("ascii", offset + 4, offset + 8);
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colourType = data[9];
+      if (data[12] !== 0) {
+        throw new Error("Interlaced PNGs are not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colourType];
+  if (!width || !height || !channels || idat.length === 0) {
+    throw new Error("Unsupported or corrupt PNG");
+  }
+  if (colourType === 3 && !palette) {
+    throw new Error("Palette PNG is missing its palette");
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const maxSample = (1 << bitDepth) - 1;
+
+  const pixels = new Uint8Array(width * height);
+  let previous: Uint8Array = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    const line = unfilter(
+      raw[start],
+      raw.subarray(start + 1, start + 1 + stride),
+      previous,
+      bytesPerPixel,
+    );
+    previous = line;
+
+    // Read the nth sample of the line, scaled to 0-255
+    const sample = (n: number): number => {
+      if (bitDepth === 8) return line[n];
+      if (bitDepth === 16) return line[n * 2];
+      const bit = n * bitDepth;
+      const value = (line[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+      return Math.round((value * 255) / maxSample);
+    };
+    // Palette indices are not scaled
+    const index = (n: number): number =>
+      bitDepth === 8
+        ? line[n]
+        : (line[(n * bitDepth) >> 3] >> (8 - bitDepth - ((n * bitDepth) & 7))) &
+          maxSample;
+
+    for (let x = 0; x < width; x++) {
+      let r: number;
+      let g: number;
+      let b: number;
+      let alpha = 255;
+
+      switch (colourType) {
+        case 0:
+          r = g = b = sample(x);
+          break;
+        case 2:
+          r = sample(x * 3);
+          g = sample(x * 3 + 1);
+          b = sample(x * 3 + 2);
+          break;
+        case 3: {
+          const i = index(x);
+          r = palette![i * 3];
+          g = palette![i * 3 + 1];
+          b = palette![i * 3 + 2];
+          if (transparency && i < transparency.length) {
+            alpha = transparency[i];
+          }
+          break;
+        }
+        case 4:
+          r = g = b = sample(x * 2);
+          alpha = sample(x * 2 + 1);
+          break;
+        default:
+          r = sample(x * 4);
+          g = sample(x * 4 + 1);
+          b = sample(x * 4 + 2);
+          alpha = sample(x * 4 + 3);
+      }
+
+      // Rec. 601 luma, composited onto white
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      pixels[y * width + x] = Math.round(
+        (luma * alpha + 255 * (255 - alpha)) / 255,
+      );
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+/**
+ * Reverse a scanline's PNG filter (None, Sub, Up, Average or Paeth)
+ */
+function unfilter(
+  filter: number,
+  line: Uint8Array,
+  previous: Uint8Array,
+  bytesPerPixel: number,
+): Uint8Array {
+  const out = new Uint8Array(line.length);
+
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bytesPerPixel ? out[i - bytesPerPixel] : 0;
+    const up = previous[i];
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+    let predictor: number;
+    switch (filter) {
+      case 0:
+        predictor = 0;
+        break;
+      case 1:
+        predictor = left;
+        break;
+      case 2:
+        predictor = up;
+        break;
+      case 3:
+        predictor = (left + up) >> 1;
+        break;
+      case 4: {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+        break;
+      }
+      default:
+        throw new Error(`Unknown PNG filter type ${filter}`);
+    }
+
+    out[i] = (line[i] + predictor) & 0xff;
+  }
+
+  return out;
+}
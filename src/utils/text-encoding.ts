@@ -0,0 +1,206 @@
+import type { CodePage } from "../types/printer.js";
+
+// Printed for characters with no mapping or transliteration
+const REPLACEMENT = "?";
+
+// Common characters outside most code pages, and their ASCII stand-ins
+const TRANSLITERATIONS: Record<string, string> = {
+  "\u00a0": " ",
+  "‘": "'",
+  "’": "'",
+  "‚": ",",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "«": '"',
+  "»": '"',
+  "–": "-",
+  "—": "-",
+  "―": "-",
+  "−": "-",
+  "…": "...",
+  "•": "*",
+  "·": ".",
+  "→": "->",
+  "←": "<-",
+  "≤": "<=",
+  "≥": ">=",
+  "≠": "!=",
+  "×": "x",
+  "✓": "v",
+  "✔": "v",
+  "✗": "x",
+  "✘": "x",
+  "€": "EUR",
+  "™": "TM",
+  "©": "(c)",
+  "®": "(R)",
+  ß: "ss",
+  æ: "ae",
+  Æ: "AE",
+  œ: "oe",
+  Œ: "OE",
+  ø: "o",
+  Ø: "O",
+  ł: "l",
+  Ł: "L",
+  đ: "d",
+  Đ: "D",
+  ð: "d",
+  Ð: "D",
+  þ: "th",
+  Þ: "Th",
+  ı: "i",
+};
+
+// Russian (and common Ukrainian) Cyrillic, for printers without CP866
+const CYRILLIC: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ґ: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  є: "ye",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  і: "i",
+  ї: "yi",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+};
+
+// Joiners and selectors that only affect how neighbouring characters
+// (mostly emoji) are drawn
+const INVISIBLE = /[\u200b-\u200d\u2060\ufe00-\ufe0f]/;
+
+// Control characters would be read as printer commands
+const CONTROL = /[\u0000-\u001f\u007f]/;
+
+/**
+ * Rewrite text so that every character can be printed in the code page:
+ * characters the code page has are kept, others are transliterated
+ * ("€" → "EUR", "é" → "e", "ж" → "zh") or replaced with "?".
+ *
+ * @param keep Characters to leave as they are even though the code page
+ *   can't encode them (e.g. those a fallback font can draw)
+ */
+export function transliterate(
+  text: string,
+  codePage: CodePage,
+  keep?: (char: string) => boolean,
+): string {
+  let result = "";
+
+  for (const char of text) {
+    if (canEncode(char, codePage) || keep?.(char)) {
+      result += char;
+    } else {
+      result += substitute(char, codePage);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Encode text as code page bytes. Characters the code page can't encode
+ * become "?"; transliterate first to avoid that.
+ */
+export function encodeText(text: string, codePage: CodePage): Buffer {
+  const bytes: number[] = [];
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80 && char.length === 1) {
+      bytes.push(code);
+      continue;
+    }
+    const index = char === "\ufffd" ? -1 : codePage.high.indexOf(char);
+    bytes.push(index >= 0 ? 0x80 + index : REPLACEMENT.charCodeAt(0));
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Convert a single code page byte to its Unicode character
+ */
+export function decodeByte(byte: number, codePage: CodePage): string {
+  if (byte >= 0x80) {
+    return codePage.high[byte - 0x80];
+  }
+  return String.fromCharCode(byte);
+}
+
+/**
+ * Whether the code page has every character in the text
+ */
+export function canEncode(text: string, codePage: CodePage): boolean {
+  for (const char of text) {
+    if (char.length > 1 || char === "\ufffd" || CONTROL.test(char)) {
+      return false;
+    }
+    if (char.charCodeAt(0) >= 0x80 && !codePage.high.includes(char)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Stand-in for one character the code page doesn't have
+ */
+function substitute(char: string, codePage: CodePage): string {
+  if (INVISIBLE.test(char)) {
+    return "";
+  }
+  if (CONTROL.test(char)) {
+    return " ";
+  }
+
+  const known = TRANSLITERATIONS[char];
+  if (known !== undefined) {
+    return transliterate(known, codePage);
+  }
+
+  const lower = char.toLowerCase();
+  const cyrillic = CYRILLIC[lower];
+  if (cyrillic !== undefined) {
+    return lower === char
+      ? cyrillic
+      : cyrillic.charAt(0).toUpperCase() + cyrillic.slice(1);
+  }
+
+  // Drop accents the code page can't show: "ő" → "o", "Ş" → "S"
+  const base = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  if (base && base !== char && canEncode(base, codePage)) {
+    return base;
+  }
+
+  return REPLACEMENT;
+}
@@ -0,0 +1,37 @@
+import type { UnicodeFont } from "../types/image.js";
+
+const GLYPH_HEIGHT = 16;
+
+/**
+ * Parse a GNU Unifont .hex file: one "CODEPOINT:BITMAP" line per glyph,
+ * where the bitmap is 32 hex digits (8x16) or 64 (16x16)
+ */
+export function parseUnifontHex(content: string): UnicodeFont {
+  const glyphs: UnicodeFont["glyphs"] = new Map();
+
+  for (const line of content.split("\n")) {
+    const match = line.trim().match(/^([0-9A-Fa-f]{4,6}):([0-9A-Fa-f]+)$/);
+    if (!match) continue;
+
+    const [, codePoint, bitmap] = match;
+    const digitsPerRow = bitmap.length / GLYPH_HEIGHT;
+    if (digitsPerRow !== 2 && digitsPerRow !== 4) continue;
+
+    const rows: number[] = [];
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      rows.push(
+        parseInt(
+          bitmap.slice(row * digitsPerRow, (row + 1) * digitsPerRow),
+          16,
+        ),
+      );
+    }
+    glyphs.set(parseInt(codePoint, 16), { width: digitsPerRow * 4, rows });
+  }
+
+  if (glyphs.size === 0) {
+    throw new Error("No glyphs found (expected GNU Unifont .hex format)");
+  }
+
+  return { height: GLYPH_HEIGHT, glyphs };
+}
@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PricingRegistry } from "../../src/core/pricing.js";
+import type { PricingEntry } from "../../src/types/pricing.js";
+import type { UsageEntry } from "../../src/types/usage.js";
+
+const SONNET_RATES = { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 };
+
+describe("PricingRegistry", () => {
+  describe("getRates", () => {
+    it("finds a model in the bundled table", () => {
+      const pricing = new PricingRegistry();
+      assert.deepEqual(pricing.getRates("claude-sonnet-4-5"), SONNET_RATES);
+    });
+
+    it("ignores a trailing release date", () => {
+      const pricing = new PricingRegistry();
+      assert.deepEqual(
+        pricing.getRates("claude-sonnet-4-5-20250929"),
+        SONNET_RATES,
+      );
+    });
+
+    it("doesn't give a newer model an older family's rates", () => {
+      const pricing = new PricingRegistry();
+      // Only "claude-opus-4" and its point releases are in the table
+      assert.equal(pricing.getRates("claude-opus-4-7"), null);
+      assert.equal(pricing.getRates("claude-opus-4-7-20260101"), null);
+      assert.equal(pricing.getRates("claude-opus"), null);
+    });
+
+    it("layers overrides over the table, one token type at a time", () => {
+      const pricing = new PricingRegistry({
+        "claude-sonnet-4-5": { output: 10 },
+      });
+      assert.deepEqual(pricing.getRates("claude-sonnet-4-5-20250929"), {
+        ...SONNET_RATES,
+        output: 10,
+      });
+    });
+
+    it("prices models missing from the table with an override", () => {
+      const pricing = new PricingRegistry({
+        "claude-opus-5-5": { input: 4, output: 20 },
+      });
+      assert.deepEqual(pricing.getRates("claude-opus-5-5"), {
+        input: 4,
+        output: 20,
+        cacheWrite: 0,
+        cacheRead: 0,
+      });
+    });
+
+    it("picks the row in effect at the time of use", () => {
+      const table: PricingEntry[] = [
+        { model: "m", effectiveFrom: "2025-01-01", ...SONNET_RATES },
+        {
+          model: "m",
+          effectiveFrom: "2025-06-01",
+          ...SONNET_RATES,
+          input: 1,
+        },
+      ];
+      const pricing = new PricingRegistry({}, table);
+
+      assert.equal(pricing.getRates("m", new Date("2025-03-01"))?.input, 3);
+      assert.equal(pricing.getRates("m", new Date("2025-06-01"))?.input, 1);
+      // Before any row takes effect, the newest row applies
+      assert.equal(pricing.getRates("m", new Date("2024-01-01"))?.input, 1);
+    });
+  });
+
+  describe("calculateCosts", () => {
+    it("prices each token type per million tokens", () => {
+      const pricing = new PricingRegistry();
+      assert.deepEqual(
+        pricing.calculateCosts("claude-sonnet-4-5", {
+          inputTokens: 1_000_000,
+          outputTokens: 2_000_000,
+          cacheCreationTokens: 4_000_000,
+          cacheReadTokens: 10_000_000,
+        }),
+        { input: 3, output: 30, cacheWrite: 15, cacheRead: 3 },
+      );
+    });
+
+    it("returns null for unpriced models", () => {
+      const pricing = new PricingRegistry();
+      assert.equal(
+        pricing.calculateCosts("claude-opus-4-7", {
+          inputTokens: 1,
+          outputTokens: 1,
+        }),
+        null,
+      );
+    });
+  });
+
+  describe("buildBreakdowns", () => {
+    const usage = (model: string, costUSD?: number): UsageEntry => ({
+      timestamp: "2026-01-01T00:00:00.000Z",
+      model,
+      inputTokens: 1_000_000,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      costUSD,
+    });
+
+    it("totals priced usage per model from its token costs", () => {
+      const pricing = new PricingRegistry();
+      const [sonnet] = pricing.buildBreakdowns([
+        usage("claude-sonnet-4-5", 99),
+        usage("claude-sonnet-4-5"),
+      ]);
+
+      assert.equal(sonnet.inputTokens, 2_000_000);
+      assert.equal(sonnet.cost, 6);
+      assert.equal(sonnet.tokenCosts?.input, 6);
+    });
+
+    it("falls back to the recorded cost for unpriced models", () => {
+      const pricing = new PricingRegistry();
+      const [unpriced] = pricing.buildBreakdowns([
+        usage("claude-opus-4-7", 1.5),
+        usage("claude-opus-4-7"),
+      ]);
+
+      assert.equal(unpriced.cost, 1.5);
+      assert.equal(unpriced.tokenCosts, undefined);
+    });
+  });
+});
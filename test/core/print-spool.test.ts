@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "net";
+import type { AddressInfo, Server } from "net";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PrintSpool } from "../../src/core/print-spool.js";
+import { ReceiptLedger } from "../../src/core/receipt-ledger.js";
+import { getPrinterProfile } from "../../src/core/printer-profiles.js";
+import type { NewLedgerEntry } from "../../src/types/ledger.js";
+import type { SpoolJob } from "../../src/types/spool.js";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * A network ESC/POS printer that answers status queries, either ready or
+ * out of paper, and keeps everything else it's sent
+ */
+class FakePrinter {
+  paperOut = false;
+  received = "";
+  private server: Server = createServer((socket) => {
+    let pending = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      let i = 0;
+      while (i < pending.length) {
+        const [a, b, n] = pending.subarray(i, i + 3);
+        if ((a === 0x10 || a === 0x1d) && n === undefined) {
+          // A command split across packets
+          break;
+        }
+        if (a === 0x10 && b === 0x04) {
+          // DLE EOT n: the offline cause byte reports paper out
+          socket.write(Buffer.from([n === 2 && this.paperOut ? 0x32 : 0x12]));
+          i += 3;
+        } else if (a === 0x1d && b === 0x72) {
+          // GS r: the job has printed
+          socket.write(Buffer.from([0x00]));
+          i += 3;
+        } else {
+          this.received += String.fromCharCode(a);
+          i += 1;
+        }
+      }
+      pending = pending.subarray(i);
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `tcp://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+describe("PrintSpool", () => {
+  const originalHome = process.env.HOME;
+  const profile = getPrinterProfile();
+  let home: string;
+  let printer: FakePrinter;
+  let address: string;
+  let spool: PrintSpool;
+
+  const print = (text: string, receiptNumber?: number) =>
+    spool.print(Buffer.from(text), address, profile, {
+      description: text,
+      receiptNumber,
+    });
+
+  // Retry once the job's backoff has expired
+  const flushWhenDue = async (job: SpoolJob) => {
+    mock.timers.enable({
+      apis: ["Date"],
+      now: new Date(job.nextAttemptAt!).getTime(),
+    });
+    try {
+      return await spool.flush();
+    } finally {
+      mock.timers.reset();
+    }
+  };
+
+  const delay = (job: SpoolJob) =>
+    new Date(job.nextAttemptAt!).getTime() -
+    new Date(job.lastAttemptAt!).getTime();
+
+  beforeEach(async () => {
+    home = await mkdtemp(join(tmpdir(), "claude-receipts-"));
+    process.env.HOME = home;
+    printer = new FakePrinter();
+    address = await printer.start();
+    spool = new PrintSpool();
+  });
+
+  afterEach(async () => {
+    mock.timers.reset();
+    await printer.stop();
+    process.env.HOME = originalHome;
+    await rm(home, { recursive: true, force: true });
+  });
+
+  it("prints straight away when the printer is ready", async () => {
+    const result = await print("receipt 1\n");
+
+    assert.equal(result.spooled, undefined);
+    assert.equal(printer.received, "receipt 1\n");
+    assert.deepEqual(await spool.list(), []);
+  });
+
+  it("spools a job when the printer can't be reached", async () => {
+    await printer.stop();
+
+    const { spooled } = await print("receipt 1\n");
+
+    assert.equal(spooled?.state, "queued");
+    assert.equal(spooled?.attempts, 1);
+    assert.match(spooled?.lastError || "", /ECONNREFUSED/);
+    assert.equal(delay(spooled!), MINUTE);
+    assert.deepEqual(
+      (await spool.list()).map((job) => job.id),
+      [spooled?.id],
+    );
+  });
+
+  it("waits for the backoff before retrying, then prints", async () => {
+    printer.paperOut = true;
+    const { spooled } = await print("receipt 1\n");
+    assert.equal(printer.received, "");
+    printer.paperOut = false;
+
+    assert.deepEqual(await spool.flush(), {
+      printed: [],
+      failed: [],
+      warnings: [],
+    });
+    assert.equal(printer.received, "");
+
+    const result = await flushWhenDue(spooled!);
+    assert.deepEqual(
+      result.printed.map((job) => job.id),
+      [spooled?.id],
+    );
+    assert.equal(printer.received, "receipt 1\n");
+    assert.deepEqual(await spool.list(), []);
+  });
+
+  it("doubles the delay after each failed retry, up to an hour", async () => {
+    printer.paperOut = true;
+    let job = (await print("receipt 1\n")).spooled!;
+    const delays = [delay(job)];
+
+    while (job.attempts < 8) {
+      job = (await flushWhenDue(job)).failed[0];
+      delays.push(delay(job));
+    }
+
+    assert.deepEqual(
+      delays.map((ms) => ms / MINUTE),
+      [1, 2, 4, 8, 16, 32, 60, 60],
+    );
+    assert.equal(printer.received, "");
+  });
+
+  it("gives up after 30 attempts and marks the receipt failed", async () => {
+    const ledger = new ReceiptLedger();
+    const { receiptNumber } = await ledger.record({
+      sessionId: "a",
+      sessionSlug: "test-session",
+      outputs: ["printer"],
+      printStatus: "pending",
+      data: {},
+    } as unknown as NewLedgerEntry);
+
+    printer.paperOut = true;
+    let job = (await print("receipt 1\n", receiptNumber)).spooled!;
+    while (job.state === "queued") {
+      job = (await flushWhenDue(job)).failed[0];
+    }
+
+    assert.equal(job.attempts, 30);
+    assert.equal(job.nextAttemptAt, undefined);
+    assert.match(job.lastError || "", /paper/i);
+    assert.equal((await ledger.find(receiptNumber))?.printStatus, "failed");
+
+    // Only a forced flush tries it again
+    printer.paperOut = false;
+    assert.deepEqual((await spool.flush()).printed, []);
+    assert.equal((await spool.flush({ force: true })).printed.length, 1);
+    assert.equal(printer.received, "receipt 1\n");
+    assert.equal((await ledger.find(receiptNumber))?.printStatus, "printed");
+  });
+
+  it("prints spooled jobs before a new one for the same printer", async () => {
+    printer.paperOut = true;
+    await print("receipt 1\n");
+    printer.paperOut = false;
+
+    const result = await print("receipt 2\n");
+
+    assert.equal(result.spooled, undefined);
+    assert.equal(printer.received, "receipt 1\nreceipt 2\n");
+    assert.deepEqual(await spool.list(), []);
+  });
+
+  it("spools a new job behind one that still fails", async () => {
+    printer.paperOut = true;
+    await print("receipt 1\n");
+
+    const { spooled } = await print("receipt 2\n");
+
+    assert.equal(spooled?.description, "receipt 2\n");
+    assert.deepEqual(
+      (await spool.list()).map((job) => job.description),
+      ["receipt 1\n", "receipt 2\n"],
+    );
+    assert.equal(printer.received, "");
+  });
+});
@@ -0,0 +1,234 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { execFile, spawn, spawnSync } from "child_process";
+import type { ChildProcessWithoutNullStreams } from "child_process";
+import { once } from "events";
+import { promisify } from "util";
+import {
+  openSerialConnection,
+  parseSerialInterface,
+} from "../../src/core/printer-connection.js";
+import type { PrinterConnection } from "../../src/core/printer-connection.js";
+
+const execFileAsync = promisify(execFile);
+
+// Opens a pseudo-terminal and stands in for the printer on its master
+// side: prints the device path, then relays what the printer is sent to
+// stdout and what it replies from stdin
+const PTY_RELAY = `
+import os, pty, select, sys
+master, device = pty.openpty()
+print(os.ttyname(device), flush=True)
+while True:
+    ready, _, _ = select.select([master, 0], [], [])
+    if master in ready:
+        sys.stdout.buffer.write(os.read(master, 1024))
+        sys.stdout.buffer.flush()
+    if 0 in ready:
+        data = os.read(0, 1024)
+        if not data:
+            break
+        os.write(master, data)
+`;
+
+const canOpenPty =
+  process.platform !== "win32" &&
+  spawnSync("python3", ["--version"]).status === 0;
+
+/**
+ * A pty standing in for a serial printer
+ */
+class FakeSerialPrinter {
+  path = "";
+  received = Buffer.alloc(0);
+  private relay!: ChildProcessWithoutNullStreams;
+
+  async start(): Promise<void> {
+    this.relay = spawn("python3", ["-c", PTY_RELAY]);
+    const [line] = await once(this.relay.stdout, "data");
+    this.path = String(line).trim();
+    this.relay.stdout.on("data", (chunk: Buffer) => {
+      this.received = Buffer.concat([this.received, chunk]);
+    });
+  }
+
+  reply(data: Buffer): void {
+    this.relay.stdin.write(data);
+  }
+
+  /** Wait until the printer has been sent at least `length` bytes. */
+  async waitFor(length: number): Promise<Buffer> {
+    const deadline = Date.now() + 2000;
+    while (this.received.length < length && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return this.received;
+  }
+
+  stop(): void {
+    this.relay.kill();
+  }
+}
+
+describe("parseSerialInterface", () => {
+  it("defaults to 9600 8N1 without flow control", () => {
+    assert.deepEqual(parseSerialInterface("serial:/dev/ttyUSB0"), {
+      path: "/dev/ttyUSB0",
+      baud: 9600,
+      dataBits: 8,
+      stopBits: 1,
+      parity: "none",
+      flow: "none",
+    });
+  });
+
+  it("reads settings from the query string", () => {
+    assert.deepEqual(
+      parseSerialInterface(
+        "serial:/dev/ttyS0?baud=19200&bits=7&stop=2&parity=even&flow=rtscts",
+      ),
+      {
+        path: "/dev/ttyS0",
+        baud: 19200,
+        dataBits: 7,
+        stopBits: 2,
+        parity: "even",
+        flow: "rtscts",
+      },
+    );
+  });
+
+  it("rejects unknown settings and values", () => {
+    assert.throws(
+      () => parseSerialInterface("serial:/dev/ttyS0?baud=12345"),
+      /Invalid serial baud/,
+    );
+    assert.throws(
+      () => parseSerialInterface("serial:/dev/ttyS0?speed=9600"),
+      /Unknown serial setting: speed/,
+    );
+    assert.throws(() => parseSerialInterface("serial:"), /needs a device/);
+  });
+});
+
+describe("openSerialConnection", { skip: !canOpenPty }, () => {
+  let printer: FakeSerialPrinter;
+  let connection: PrinterConnection;
+
+  before(async () => {
+    printer = new FakeSerialPrinter();
+    await printer.start();
+    connection = await openSerialConnection(
+      `serial:${printer.path}?baud=19200&stop=2&flow=xonxoff`,
+    );
+  });
+
+  after(async () => {
+    await connection?.close();
+    printer?.stop();
+  });
+
+  it("configures the line", async () => {
+    const device = process.platform === "darwin" ? "-f" : "-F";
+    const { stdout } = await execFileAsync("stty", [
+      device,
+      printer.path,
+      "-a",
+    ]);
+
+    assert.match(stdout, /19200/);
+    for (const flag of [
+      "cs8",
+      "cstopb",
+      "-parenb",
+      "ixon",
+      "-ixany",
+      "-echo",
+    ]) {
+      assert.match(stdout, new RegExp(`(^|\\s)${flag}(\\s|$)`, "m"), flag);
+    }
+  });
+
+  it("sends every byte unchanged", async () => {
+    const job = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+    // Leave out XON and XOFF, which the line treats as flow control
+    const data = job.filter((byte) => byte !== 0x11 && byte !== 0x13);
+
+    const start = printer.received.length;
+    await connection.write(Buffer.from(data));
+
+    const received = await printer.waitFor(start + data.length);
+    assert.deepEqual(received.subarray(start), Buffer.from(data));
+  });
+
+  it("holds output while the printer sends XOFF", async () => {
+    printer.reply(Buffer.from([0x13]));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const start = printer.received.length;
+    const written = connection.write(Buffer.from("held"));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(printer.received.length, start);
+
+    printer.reply(Buffer.from([0x11]));
+    await written;
+    const received = await printer.waitFor(start + 4);
+    assert.equal(received.subarray(start).toString(), "held");
+  });
+
+  it("reads the printer's replies", async () => {
+    printer.reply(Buffer.from([0x12, 0x16]));
+
+    assert.deepEqual(await connection.read(2, 1000), Buffer.from([0x12, 0x16]));
+  });
+
+  it("gives up reading when the printer doesn't answer", async () => {
+    const started = Date.now();
+
+    assert.equal(await connection.read(1, 100), undefined);
+    assert.ok(Date.now() - started >= 100);
+  });
+
+  it("discards replies that arrived before a query", async () => {
+    printer.reply(Buffer.from([0x7f]));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    connection.discardInput();
+    printer.reply(Buffer.from([0x12]));
+
+    assert.deepEqual(await connection.read(1, 1000), Buffer.from([0x12]));
+  });
+});
+
+describe("serial port errors", { skip: process.platform === "win32" }, () => {
+  it("reports a missing port", async () => {
+    await assert.rejects(
+      openSerialConnection("serial:/dev/claude-receipts-missing"),
+      /Serial port not found: \/dev\/claude-receipts-missing/,
+    );
+  });
+
+  it("refuses a device that isn't a terminal", async () => {
+    await assert.rejects(
+      openSerialConnection("serial:/dev/null"),
+      /\/dev\/null is not a serial port/,
+    );
+  });
+
+  // Linux ptys only take 8 data bits without parity
+  it(
+    "reports settings the port doesn't support",
+    { skip: !canOpenPty || process.platform !== "linux" },
+    async () => {
+      const printer = new FakeSerialPrinter();
+      await printer.start();
+      try {
+        await assert.rejects(
+          openSerialConnection(`serial:${printer.path}?parity=even`),
+          /Could not configure serial port .* \(does it support these settings\?\)/,
+        );
+      } finally {
+        printer.stop();
+      }
+    },
+  );
+});
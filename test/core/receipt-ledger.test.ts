@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { appendFile, mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ReceiptLedger } from "../../src/core/receipt-ledger.js";
+import type { NewLedgerEntry } from "../../src/types/ledger.js";
+
+function newEntry(sessionId: string, sessionSlug = "test-session") {
+  return {
+    sessionId,
+    sessionSlug,
+    outputs: ["console"],
+    printStatus: "not-requested",
+    data: {},
+  } as unknown as NewLedgerEntry;
+}
+
+describe("ReceiptLedger", () => {
+  const originalHome = process.env.HOME;
+  let home: string;
+  let ledger: ReceiptLedger;
+
+  beforeEach(async () => {
+    home = await mkdtemp(join(tmpdir(), "claude-receipts-"));
+    process.env.HOME = home;
+    ledger = new ReceiptLedger();
+  });
+
+  afterEach(async () => {
+    process.env.HOME = originalHome;
+    await rm(home, { recursive: true, force: true });
+  });
+
+  it("numbers receipts in order, starting from 1", async () => {
+    const numbers = [];
+    for (const sessionId of ["a", "b", "c"]) {
+      numbers.push((await ledger.record(newEntry(sessionId))).receiptNumber);
+    }
+    assert.deepEqual(numbers, [1, 2, 3]);
+  });
+
+  it("doesn't use up a number when a receipt is updated", async () => {
+    await ledger.record(newEntry("a"));
+    await ledger.record(newEntry("b"));
+    await ledger.update(1, { printStatus: "printed" });
+
+    assert.equal((await ledger.record(newEntry("c"))).receiptNumber, 3);
+    assert.equal((await ledger.list()).length, 3);
+    assert.equal((await ledger.find(1))?.printStatus, "printed");
+  });
+
+  it("gives receipts recorded at the same time different numbers", async () => {
+    const recorded = await Promise.all(
+      ["a", "b", "c", "d", "e"].map((id) => ledger.record(newEntry(id))),
+    );
+    assert.deepEqual(
+      recorded.map((e) => e.receiptNumber).sort((a, b) => a - b),
+      [1, 2, 3, 4, 5],
+    );
+  });
+
+  it("skips corrupt and malformed lines", async () => {
+    await ledger.record(newEntry("a"));
+    await appendFile(
+      ledger.getLedgerPath(),
+      [
+        '{"receiptNumber": 2, "sessionId": "trunc',
+        '{"sessionId": "no-number"}',
+        '{"receiptNumber": "7", "sessionId": "string-number"}',
+        '{"receiptNumber": 2.5, "sessionId": "fraction"}',
+        '{"receiptNumber": 9}',
+        "null",
+        "",
+      ].join("\n"),
+    );
+
+    assert.deepEqual(
+      (await ledger.list()).map((e) => e.sessionId),
+      ["a"],
+    );
+    assert.equal((await ledger.record(newEntry("b"))).receiptNumber, 2);
+  });
+
+  it("waits for a lock held by another process", async () => {
+    const lockPath = join(home, ".claude-receipts", "ledger.lock");
+    await mkdir(lockPath, { recursive: true });
+    setTimeout(() => rm(lockPath, { recursive: true }), 100);
+
+    assert.equal((await ledger.record(newEntry("a"))).receiptNumber, 1);
+  });
+
+  it("finds the latest receipt for a slug or session ID prefix", async () => {
+    await ledger.record(newEntry("420f9645-aaaa", "fix-login"));
+    await ledger.record(newEntry("5ede5ccb-bbbb", "add-tests"));
+    await ledger.record(newEntry("420f9645-aaaa", "fix-login"));
+
+    assert.equal(
+      (await ledger.findLatestByName("fix-login"))?.receiptNumber,
+      3,
+    );
+    assert.equal((await ledger.findLatestByName("5ede5ccb"))?.receiptNumber, 2);
+    assert.equal(await ledger.findLatestByName("nothing"), undefined);
+  });
+});
@@ -21,6 +21,15 @@ function formatCurrency(amount: number): string {
   return `$${amount.toFixed(2)}`;
 }
 
+/**
+ * Format a line item price (sub-cent amounts as "<$0.01", unpriced as "-")
+ */
+function formatPrice(amount: number | undefined): string {
+  if (amount === undefined) return "-";
+  if (amount > 0 && amount < 0.01) return "<$0.01";
+  return formatCurrency(amount);
+}
+
 /**
  * Format number with commas
  */
@@ -75,7 +84,7 @@ function getMainModel(breakdowns: ModelBreakdown[]): string {
 
 /**
  * Render line items HTML
- * Shows token counts and model subtotals (not per-token-type costs, which would be inaccurate)
+ * Shows token counts with their per-token-type prices and model subtotals
  */
 function renderLineItems(receipt: ShareableReceiptData): string {
   let html = '<div style="margin: 20px 0;">';
@@ -90,17 +99,20 @@ function renderLineItems(receipt: ShareableReceiptData): string {
     html += `<div class="line-item">
       <span>  Input tokens</span>
       <span>${formatNumber(model.inputTokens)}</span>
+      <span class="price">${formatPrice(model.tokenCosts?.input)}</span>
     </div>`;
 
     html += `<div class="line-item">
       <span>  Output tokens</span>
       <span>${formatNumber(model.outputTokens)}</span>
+      <span class="price">${formatPrice(model.tokenCosts?.output)}</span>
     </div>`;
 
     if (model.cacheCreationTokens && model.cacheCreationTokens > 0) {
       html += `<div class="line-item">
         <span>  Cache write</span>
         <span>${formatNumber(model.cacheCreationTokens)}</span>
+        <span class="price">${formatPrice(model.tokenCosts?.cacheWrite)}</span>
       </div>`;
     }
 
@@ -108,6 +120,7 @@ function renderLineItems(receipt: ShareableReceiptData): string {
       html += `<div class="line-item">
         <span>  Cache read</span>
         <span>${formatNumber(model.cacheReadTokens)}</span>
+        <span class="price">${formatPrice(model.tokenCosts?.cacheRead)}</span>
       </div>`;
     }
   }
@@ -260,12 +273,17 @@ export function generatePublicReceiptHtml(
     }
 
     .line-item {
-      display: flex;
-      justify-content: space-between;
+      display: grid;
+      grid-template-columns: 1fr auto 6em;
+      gap: 10px;
       padding: 3px 0;
       color: #555;
     }
 
+    .line-item .price {
+      text-align: right;
+    }
+
     .model-header {
       display: flex;
       justify-content: space-between;
@@ -377,7 +395,14 @@ export function generatePublicReceiptHtml(
           </div>
           <div class="meta-row">
             <div>Date</div><div class="dots">....................</div><div class="value">${formatDateTime(receipt.sessionDate, receipt.timezone)}</div>
-          </div>
+          </div>${
+            receipt.receiptNumber !== undefined
+              ? `
+          <div class="meta-row">
+            <div>Receipt</div><div class="dots">....................</div><div class="value">#${String(receipt.receiptNumber).padStart(6, "0")}</div>
+          </div>`
+              : ""
+          }
         </div>
       </div>
 
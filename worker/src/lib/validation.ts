@@ -1,4 +1,8 @@
-import type { ShareableReceiptData, ModelBreakdown } from "../types.js";
+import type {
+  ShareableReceiptData,
+  ModelBreakdown,
+  TokenCosts,
+} from "../types.js";
 
 export interface ValidationError {
   field: string;
@@ -104,6 +108,25 @@ function validateModelBreakdown(
     });
   }
 
+  if (bd.tokenCosts !== undefined) {
+    if (typeof bd.tokenCosts !== "object" || bd.tokenCosts === null) {
+      errors.push({
+        field: `${prefix}.tokenCosts`,
+        message: "must be an object",
+      });
+    } else {
+      const tc = bd.tokenCosts as Record<string, unknown>;
+      for (const key of ["input", "output", "cacheWrite", "cacheRead"]) {
+        if (!isNonNegativeNumber(tc[key])) {
+          errors.push({
+            field: `${prefix}.tokenCosts.${key}`,
+            message: "must be a non-negative number",
+          });
+        }
+      }
+    }
+  }
+
   return errors;
 }
 
@@ -222,6 +245,14 @@ export function validateReceiptData(data: unknown): ValidationResult {
     });
   }
 
+  // Optional receipt number from the local ledger
+  if (d.receiptNumber !== undefined && !isNonNegativeInteger(d.receiptNumber)) {
+    errors.push({
+      field: "receiptNumber",
+      message: "must be a non-negative integer",
+    });
+  }
+
   // Model breakdowns array
   if (!Array.isArray(d.modelBreakdowns)) {
     errors.push({ field: "modelBreakdowns", message: "must be an array" });
@@ -261,11 +292,13 @@ export function validateReceiptData(data: unknown): ValidationResult {
         cacheCreationTokens: b.cacheCreationTokens as number | undefined,
         cacheReadTokens: b.cacheReadTokens as number | undefined,
         cost: b.cost as number,
+        tokenCosts: b.tokenCosts as TokenCosts | undefined,
       } as ModelBreakdown;
     }),
     userMessageCount: d.userMessageCount as number,
     assistantMessageCount: d.assistantMessageCount as number,
     totalMessages: d.totalMessages as number,
+    receiptNumber: d.receiptNumber as number | undefined,
   };
 
   return { valid: true, errors: [], data: validatedData };
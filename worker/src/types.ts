@@ -7,6 +7,14 @@ export interface ModelBreakdown {
   cacheCreationTokens?: number;
   cacheReadTokens?: number;
   cost: number;
+  tokenCosts?: TokenCosts;
+}
+
+export interface TokenCosts {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
 }
 
 export interface ShareableReceiptData {
@@ -24,6 +32,7 @@ export interface ShareableReceiptData {
   userMessageCount: number;
   assistantMessageCount: number;
   totalMessages: number;
+  receiptNumber?: number;
 }
 
 export interface Env {